@@ -0,0 +1,34 @@
+export { default as DHT } from '~/src/dht.ts'
+export type { AnnounceOptions, CloseOptions, DHTStats, PingResult, PutMutableOptions, PutResult } from '~/src/dht.ts'
+export { default as HttpApi } from '~/src/http/http_api.ts'
+export type { HttpApiOptions } from '~/src/http/http_api.ts'
+export { DEFAULT_OPTIONS, DEFAULT_PORT_MAPPING } from '~/src/options.ts'
+export type { BootstrapNode, DHTConfig, DHTOptions, RateLimitOptions } from '~/src/options.ts'
+export type { DHTEvent, DHTEventDetails, DHTEventType } from '~/src/dht_events.ts'
+export { default as Item } from '~/src/item.ts'
+export type { ItemValue } from '~/src/item.ts'
+export type { NodeIdSecurity } from '~/src/routing_table.ts'
+export type { LookupNode, LookupResult } from '~/src/lookup.ts'
+export type { SampleResult } from '~/src/sampler.ts'
+export type { StateOptions } from '~/src/state_store.ts'
+export type { PeerStoreOptions } from '~/src/info_hash_manager.ts'
+export type { ItemStoreOptions } from '~/src/item_manager.ts'
+export type { PortMappingConfig, PortMappingOptions } from '~/src/port_mapping/port_mapping_manager.ts'
+export type { Mapping, PortMappingMethod } from '~/src/port_mapping/port_mapper.ts'
+export { default as NatPmpMapper } from '~/src/port_mapping/nat_pmp_mapper.ts'
+export { default as UpnpMapper } from '~/src/port_mapping/upnp_mapper.ts'
+export type { RateLimits, TokenBucketOptions } from '~/src/rate_limiter.ts'
+export { configureLogger, getLogger, Logger, Loggers, sharedLoggers } from '~/src/util/log.ts'
+export type {
+  LogFields,
+  LogFileOptions,
+  LogHandler,
+  LogLevel,
+  LogOptions,
+  LogRecord,
+  Subsystem
+} from '~/src/util/log.ts'
+export { ClosedError, KRPCError, RateLimitError, TimeoutError } from '~/src/krpc/error.ts'
+export type { default as Transport, Datagram } from '~/src/transport/transport.ts'
+export { default as UdpTransport } from '~/src/transport/udp_transport.ts'
+export { default as MemoryTransport, MemoryNetwork } from '~/src/transport/memory_transport.ts'
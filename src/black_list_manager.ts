@@ -1,11 +1,115 @@
+import { getLogger, Logger } from '~/src/util/log.ts'
+
+/**
+ * BlackListManager bans the ips which misbehave, the queries of a banned ip are dropped
+ *
+ * the source of a udp packet can be spoofed, so a ban doesn't drop the responses, they only come to our queries,
+ * otherwise a spoofed flood could ban the bootstrap routers and the good nodes we query
+ *
+ * each offense, e.g. a malformed packet, a flood or a bad token, is a strike,
+ * an ip is banned for BAN_TIME when it gets MAX_STRIKES strikes in STRIKE_WINDOW
+ */
 export default class BlackListManager {
-  #banIpList: Set<string> = new Set()
+  static BAN_TIME = 10 * 60 * 1000 // 10 minutes
+  static MAX_STRIKES = 5 // the count of strikes to be banned
+  static STRIKE_WINDOW = 60 * 1000 // 1 minute, the strikes older than this are forgotten
+  static MAX_IPS = 10000 // the max count of ips with strikes, and of banned ips, the oldest one is dropped
+  #banIpList = new Map<string, number>() // <ip, expiredAt>
+  #strikes = new Map<string, { count: number; since: number }>() // <ip, strikes since the time>
+  #logger: Logger
+
+  /**
+   * @param logger default is the shared krpc logger
+   */
+  constructor(logger = getLogger('krpc')) {
+    this.#logger = logger
+  }
 
   isBaned(ip: string): boolean {
-    return this.#banIpList.has(ip)
+    const expiredAt = this.#banIpList.get(ip)
+    if (expiredAt === undefined) {
+      return false
+    }
+
+    if (expiredAt < Date.now()) {
+      this.#banIpList.delete(ip)
+      return false
+    }
+    return true
+  }
+
+  /**
+   * ban the ip
+   * @param ip
+   * @param time how long the ip is banned in milliseconds
+   */
+  ban(ip: string, time = BlackListManager.BAN_TIME) {
+    // move the ip to the end, the first one is the oldest ban
+    this.#banIpList.delete(ip)
+    this.#banIpList.set(ip, Date.now() + time)
+    this.#strikes.delete(ip)
+    if (this.#banIpList.size > BlackListManager.MAX_IPS) {
+      this.dropExpired()
+    }
+    if (this.#banIpList.size > BlackListManager.MAX_IPS) {
+      this.#banIpList.delete(this.#banIpList.keys().next().value!)
+    }
+  }
+
+  unban(ip: string) {
+    this.#banIpList.delete(ip)
+  }
+
+  /**
+   * count an offense of the ip, ban it if it gets too many strikes
+   * @param ip
+   * @param reason why the ip is striked, only for logging
+   * @returns true if the ip is banned now
+   */
+  strike(ip: string, reason: string): boolean {
+    const now = Date.now()
+
+    let strikes = this.#strikes.get(ip)
+    if (!strikes || now - strikes.since > BlackListManager.STRIKE_WINDOW) {
+      strikes = { count: 0, since: now }
+    }
+    strikes.count++
+
+    // move the ip to the end, the first one is the oldest
+    this.#strikes.delete(ip)
+    this.#strikes.set(ip, strikes)
+    if (this.#strikes.size > BlackListManager.MAX_IPS) {
+      this.#strikes.delete(this.#strikes.keys().next().value!)
+    }
+
+    if (strikes.count < BlackListManager.MAX_STRIKES) {
+      return false
+    }
+
+    this.#logger.warn('ban the ip', {
+      addr: ip,
+      seconds: BlackListManager.BAN_TIME / 1000,
+      strikes: strikes.count,
+      reason
+    })
+    this.ban(ip)
+    return true
+  }
+
+  /**
+   * the count of banned ips
+   */
+  get size() {
+    this.dropExpired()
+    return this.#banIpList.size
   }
 
-  ban(ip: string) {
-    this.#banIpList.add(ip)
+  private dropExpired() {
+    const now = Date.now()
+    for (const [ip, expiredAt] of this.#banIpList) {
+      if (expiredAt < now) {
+        this.#banIpList.delete(ip)
+      }
+    }
   }
 }
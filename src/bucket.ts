@@ -1,11 +1,11 @@
 import { BitArray } from 'toolkit'
 import Node from '~/src/node.ts'
-import logger from '~/src/util/log.ts'
 import Id from '~/src/id.ts'
 
 export default class Bucket {
   #nodes: Node[] = []
-  #capacity: number // the capacity of the bucket
+  #replacements: Node[] = [] // the candidate nodes when the bucket is full, the latest is the first
+  #capacity: number // the capacity of the bucket, also the capacity of the replacement cache
   #updatedAt = Date.now()
   #start: BitArray // the lower limit of the bucket
   #end: BitArray // the upper limit of the bucket
@@ -53,7 +53,7 @@ export default class Bucket {
   }
 
   /**
-   * get the capacity of the bucket
+   * the last time the bucket changed, a node was added or removed, a node of it responded, or it was refreshed
    */
   get updatedAt() {
     return this.#updatedAt
@@ -90,28 +90,28 @@ export default class Bucket {
   }
 
   /**
-   * add a node to the bucket, return true if the node is added, otherwise return false
-   * if the node is already in the bucket, just update the last active time
-   * if the bucket is full, remove a oldest node, and add the new node to top of the bucket
+   * add a node to the bucket, return true if the node is in the bucket, otherwise return false
+   * if the node is already in the bucket, update the last active time and move it to top of the bucket,
+   * the known node keeps its address, only the routing table moves it when the new address responds
+   * if the bucket is full, the node is not added, the routing table decides to split the bucket or cache the node
    *
    * @param node the node to be added
-   * @returns true if the node is added, otherwise return false
+   * @returns true if the node is in the bucket, otherwise return false
    */
   add(node: Node): boolean {
-    this.#updatedAt = Date.now()
-
-    const old = this.#nodes.find((n) => n.id === node.id)
+    const index = this.#nodes.findIndex((n) => n.id.equals(node.id))
 
     // if the node is already in the bucket, update the last active time
-    if (old) {
-      old.update(node.port, node.addr)
-      logger.warn(`node ${node.id.toString()} is already in the bucket,just update the last active time`)
-      return false
+    if (index !== -1) {
+      const [old] = this.#nodes.splice(index, 1)
+      old.updateActivedAt()
+      this.#nodes.unshift(old)
+      return true
     }
 
-    // if the bucket is full, remove a inactive node
+    // the alive nodes are never evicted for a new node
     if (this.isFull()) {
-      this.remove(this.oldest!)
+      return false
     }
 
     // add the node to the bucket
@@ -119,6 +119,7 @@ export default class Bucket {
 
     // add to the start of the array
     this.#nodes.unshift(node)
+    this.#updatedAt = Date.now()
 
     return true
   }
@@ -140,12 +141,11 @@ export default class Bucket {
    * @param node
    */
   remove(node: Node) {
-    this.#updatedAt = Date.now()
-
     for (let i = 0; i < this.#nodes.length; i++) {
-      if (this.#nodes[i].id === node.id) {
+      if (this.#nodes[i].id.equals(node.id)) {
         // remove the node
         this.#nodes.splice(i, 1)
+        this.#updatedAt = Date.now()
         return true
       }
     }
@@ -153,6 +153,91 @@ export default class Bucket {
     return false
   }
 
+  get replacements(): Node[] {
+    return this.#replacements
+  }
+
+  /**
+   * cache a node to replace a dead node of the full bucket later, the oldest candidate is dropped if the cache is full
+   * @param node
+   */
+  addReplacement(node: Node) {
+    if (!this.withinRnage(node.id) || this.#nodes.some((n) => n.id.equals(node.id))) {
+      return
+    }
+
+    this.#replacements = this.#replacements.filter((n) => !n.id.equals(node.id))
+    this.#replacements.unshift(node)
+
+    if (this.#replacements.length > this.#capacity) {
+      this.#replacements.pop()
+    }
+  }
+
+  /**
+   * remove the dead node, and move the latest candidate of the replacement cache into the bucket
+   * @param node the dead node
+   * @returns the candidate moved into the bucket
+   */
+  replace(node: Node) {
+    if (!this.remove(node)) {
+      return undefined
+    }
+
+    const replacement = this.#replacements.shift()
+    if (replacement) {
+      this.add(replacement)
+    }
+    return replacement
+  }
+
+  /**
+   * mark the bucket as changed, e.g. it has been refreshed, or a node of it responded to our query
+   */
+  touch() {
+    this.#updatedAt = Date.now()
+  }
+
+  /**
+   * a random id in the range of the bucket, used to refresh the bucket
+   */
+  randomId() {
+    const start = this.#start.toBigInt()
+    const size = this.#end.toBigInt() - start + 1n
+    const random = Id.random().bits.toBigInt() % size
+    return Id.fromUnit8Array(BitArray.fromBigInt(start + random, Id.BIT_LENGTH).bytes)
+  }
+
+  /**
+   * check the bucket can be split, the range contains more than one id
+   */
+  canSplit() {
+    return this.#start.toBigInt() < this.#end.toBigInt()
+  }
+
+  /**
+   * split the bucket into two halves, the nodes and candidates are moved into the half which covers them
+   * @returns the lower half and the upper half
+   */
+  split(): [Bucket, Bucket] {
+    const start = this.#start.toBigInt()
+    const end = this.#end.toBigInt()
+    const middle = (start + end + 1n) / 2n
+
+    const lower = new Bucket(this.#capacity, this.#start, BitArray.fromBigInt(middle - 1n, Id.BIT_LENGTH))
+    const upper = new Bucket(this.#capacity, BitArray.fromBigInt(middle, Id.BIT_LENGTH), this.#end)
+
+    // keep the order, the oldest is added first
+    for (const node of [...this.#nodes].reverse()) {
+      ;(lower.withinRnage(node.id) ? lower : upper).#nodes.unshift(node)
+    }
+    for (const node of [...this.#replacements].reverse()) {
+      ;(lower.withinRnage(node.id) ? lower : upper).addReplacement(node)
+    }
+
+    return [lower, upper]
+  }
+
   /**
    * obtain latest nodes from the bucket
    * @param count the count of the nodes to be obtained, max is bucket capacity
@@ -0,0 +1,388 @@
+import { parseHostPort, parseId, parsePort } from '~/src/cli/parse.ts'
+import DHT from '~/src/dht.ts'
+import HttpApi from '~/src/http/http_api.ts'
+import { DHTOptions } from '~/src/options.ts'
+import Peer from '~/src/peer.ts'
+import { LOG_LEVELS, LogLevel, LogOptions } from '~/src/util/log.ts'
+import { AddrFamily } from '~/src/util/net.ts'
+import { parseInfoHash, UsageError } from '~/src/util/parse.ts'
+import { parseArgs } from 'std/cli/parse_args.ts'
+import { encodeHex } from 'std/encoding/hex.ts'
+
+/**
+ * the exit codes of the cli, the scripts can rely on them
+ */
+export enum ExitCode {
+  OK = 0,
+  ERROR = 1, // the command failed, e.g. the network is down
+  USAGE = 2, // the arguments are wrong
+  NOT_FOUND = 3 // the command ran, but found nothing, e.g. no peers, no node answered the ping
+}
+
+const USAGE = `usage: deno task dht <command> [options]
+
+commands:
+  lookup <magnet|infohash>      find the peers of the info hash, they are printed as they are found
+  announce <infohash> --port N  announce that we are a peer of the info hash, --implied-port to use the source port
+  ping <host:port>              ping a node, print its id and the round trip time
+  find-node <id>                find the closest nodes of the id
+  crawl [--nodes N]             sample the info hashes stored by the nodes, see BEP 51, default is 100 nodes
+  stats                         bootstrap, then print the routing tables and the stores
+  daemon                        run a node until SIGINT or SIGTERM, default listens on 6881 and saves ./dht_state.json
+
+options:
+  --listen N           the local udp port, default is a random port, 6881 for daemon
+  --ipv6               enable the IPv6 dht too
+  --bootstrap h:p      a bootstrap node, can be repeated, default is the well-known routers
+  --state path         save and restore the routing table
+  --map-port           forward the port on the NAT gateway with PCP, NAT-PMP or UPnP
+  --json               print one JSON object per line
+  --verbose            print the logs
+  --log-level level    debug, info, warn, error or silent, default is info
+  --log-json           print the logs as JSON lines
+  --http addr:port     daemon only, serve the HTTP API, e.g. 127.0.0.1:8080, the bearer token is read from
+                       the DHT_HTTP_TOKEN environment variable, the requests are not authenticated without it
+
+exit codes: 0 ok, 1 error, 2 wrong arguments, 3 nothing found`
+
+const READY_TIMEOUT = 60 * 1000 // how long to wait for the bootstrap in milliseconds
+
+type Args = ReturnType<typeof parseCliArgs>
+
+function parseCliArgs(args: string[]) {
+  return parseArgs(args, {
+    string: ['listen', 'bootstrap', 'state', 'port', 'nodes', 'http', 'log-level'],
+    boolean: ['ipv6', 'map-port', 'implied-port', 'json', 'verbose', 'log-json', 'help'],
+    collect: ['bootstrap'],
+    alias: { h: 'help' }
+  })
+}
+
+/**
+ * Output prints the results as text lines, or as JSON lines with a type field
+ */
+class Output {
+  #json: boolean
+
+  constructor(json: boolean) {
+    this.#json = json
+  }
+
+  /**
+   * @param type the type of the JSON line
+   * @param data the fields of the JSON line
+   * @param text the text line
+   */
+  print(type: string, data: Record<string, unknown>, text: string) {
+    console.log(this.#json ? JSON.stringify({ type, ...data }) : text)
+  }
+
+  error(message: string) {
+    if (this.#json) {
+      console.log(JSON.stringify({ type: 'error', message }))
+    } else {
+      console.error(message)
+    }
+  }
+}
+
+/**
+ * the logs are only printed with --verbose, the results are printed on stdout too
+ */
+function logOptions(args: Args): LogOptions {
+  const level = args['log-level']
+  if (level !== undefined && !LOG_LEVELS.includes(level as LogLevel)) {
+    throw new UsageError(`--log-level should be one of ${LOG_LEVELS.join(', ')}, but got ${level}`)
+  }
+  return {
+    console: args.verbose,
+    level: level as LogLevel | undefined,
+    format: args['log-json'] ? 'json' : undefined
+  }
+}
+
+/**
+ * listen with the options of the arguments, and wait for the bootstrap
+ */
+async function start(args: Args, port: number, state?: string) {
+  const options: DHTOptions = {
+    port: args.listen !== undefined ? parsePort('listen', args.listen) : port,
+    families: args.ipv6 ? ['ipv4', 'ipv6'] : ['ipv4'],
+    portMapping: args['map-port'],
+    log: logOptions(args)
+  }
+  const bootstrap = (args.bootstrap as string[] | undefined) ?? []
+  if (bootstrap.length > 0) {
+    options.bootstrapNodes = bootstrap.map(parseHostPort)
+  }
+  const path = args.state ?? state
+  if (path) {
+    options.state = { path }
+  }
+
+  const dht = await DHT.listen(options)
+  let nodes: number
+  try {
+    nodes = await ready(dht)
+  } catch (e) {
+    await dht.close()
+    throw e
+  }
+  if (nodes === 0) {
+    await dht.close()
+    throw new Error('no bootstrap node answered, check the network or the --bootstrap nodes')
+  }
+  return dht
+}
+
+/**
+ * wait for the bootstrap, an error of the dht or the timeout fails it, so the command doesn't hang
+ * @returns the count of nodes in the routing tables
+ */
+async function ready(dht: DHT) {
+  const listening = new AbortController()
+  let timer: ReturnType<typeof setTimeout> | undefined = undefined
+  try {
+    return await new Promise<number>((resolve, reject) => {
+      const options = { once: true, signal: listening.signal }
+      dht.addEventListener('ready', (event) => resolve(event.detail.nodes), options)
+      dht.addEventListener('error', (event) => reject(event.detail.error), options)
+      timer = setTimeout(
+        () => reject(new Error(`the bootstrap did not finish in ${READY_TIMEOUT / 1000} seconds`)),
+        READY_TIMEOUT
+      )
+    })
+  } finally {
+    clearTimeout(timer)
+    listening.abort()
+  }
+}
+
+function peerOf(peer: Peer) {
+  return { addr: peer.addr, port: peer.port }
+}
+
+async function lookup(args: Args, out: Output) {
+  const [, target] = args._.map(String)
+  if (!target) throw new UsageError('lookup needs a magnet link or an info hash')
+  const infoHash = parseInfoHash(target)
+
+  const dht = await start(args, 0)
+  try {
+    const hex = encodeHex(infoHash)
+    dht.addEventListener('peer', ({ detail }) => {
+      if (encodeHex(detail.infoHash) !== hex) return
+      out.print('peer', peerOf(detail.peer), `${detail.peer.addr}:${detail.peer.port}`)
+    })
+
+    const { peers, nodes, queried } = await dht.getPeers(infoHash)
+    out.print(
+      'done',
+      { infoHash: hex, peers: peers.length, nodes: nodes.length, queried },
+      `found ${peers.length} peers of ${hex} from ${nodes.length} nodes, ${queried} queries`
+    )
+    return peers.length > 0 ? ExitCode.OK : ExitCode.NOT_FOUND
+  } finally {
+    await dht.close()
+  }
+}
+
+async function announce(args: Args, out: Output) {
+  const [, target] = args._.map(String)
+  if (!target) throw new UsageError('announce needs an info hash')
+  const infoHash = parseInfoHash(target)
+  if (args.port === undefined && !args['implied-port']) {
+    throw new UsageError('announce needs the --port of the peer, or --implied-port')
+  }
+
+  const dht = await start(args, 0)
+  try {
+    const port = args.port !== undefined ? parsePort('port', args.port) : dht.options.port
+    const count = await dht.announce(infoHash, { port, impliedPort: args['implied-port'] })
+    out.print(
+      'done',
+      { infoHash: encodeHex(infoHash), port, nodes: count },
+      `announced ${encodeHex(infoHash)} to ${count} nodes`
+    )
+    return count > 0 ? ExitCode.OK : ExitCode.NOT_FOUND
+  } finally {
+    await dht.close()
+  }
+}
+
+async function ping(args: Args, out: Output) {
+  const [, target] = args._.map(String)
+  if (!target) throw new UsageError('ping needs the host:port of a node')
+  const { addr, port } = parseHostPort(target)
+
+  // the pinged node is enough, no need to ask the bootstrap nodes
+  const dht = await DHT.listen({
+    port: args.listen !== undefined ? parsePort('listen', args.listen) : 0,
+    families: args.ipv6 ? ['ipv4', 'ipv6'] : ['ipv4'],
+    bootstrapNodes: [{ addr, port }],
+    log: logOptions(args)
+  })
+  try {
+    const { id, rtt } = await dht.ping(addr, port)
+    out.print('pong', { id: id.toString(), addr, port, rtt }, `${addr}:${port} answered in ${rtt}ms, id ${id}`)
+    return ExitCode.OK
+  } catch (e) {
+    out.error(`${addr}:${port} did not answer: ${e instanceof Error ? e.message : e}`)
+    return ExitCode.NOT_FOUND
+  } finally {
+    await dht.close()
+  }
+}
+
+async function findNode(args: Args, out: Output) {
+  const [, target] = args._.map(String)
+  if (!target) throw new UsageError('find-node needs an id')
+  const id = parseId(target)
+
+  const dht = await start(args, 0)
+  try {
+    const { nodes, queried } = await dht.findNode(id)
+    for (const { node } of nodes) {
+      const distance = encodeHex(node.id.distance(id).bytes)
+      out.print(
+        'node',
+        { id: node.id.toString(), ...peerOf(node), distance },
+        `${node.id} ${node.addr}:${node.port} distance ${distance}`
+      )
+    }
+    out.print('done', { nodes: nodes.length, queried }, `found ${nodes.length} nodes, ${queried} queries`)
+    return nodes.length > 0 ? ExitCode.OK : ExitCode.NOT_FOUND
+  } finally {
+    await dht.close()
+  }
+}
+
+async function crawl(args: Args, out: Output) {
+  const maxNodes = args.nodes !== undefined ? Number(args.nodes) : 100
+  if (!Number.isInteger(maxNodes) || maxNodes < 1) {
+    throw new UsageError(`--nodes should be an integer >= 1, but got ${args.nodes}`)
+  }
+
+  const dht = await start(args, 0)
+  try {
+    const { infoHashes, queried, skipped } = await dht.sampleInfoHashes(maxNodes)
+    for (const infoHash of infoHashes) {
+      out.print('infoHash', { infoHash }, infoHash)
+    }
+    out.print(
+      'done',
+      { infoHashes: infoHashes.length, queried, skipped },
+      `sampled ${infoHashes.length} info hashes from ${queried} nodes, ${skipped} skipped`
+    )
+    return infoHashes.length > 0 ? ExitCode.OK : ExitCode.NOT_FOUND
+  } finally {
+    await dht.close()
+  }
+}
+
+function printStats(dht: DHT, out: Output) {
+  const stats = dht.stats()
+  const lines = Object.entries(stats.families).map(
+    ([family, table]) =>
+      `${family}: ${table!.nodes} nodes (${table!.good} good, ${table!.questionable} questionable) in ${
+        table!.buckets
+      } buckets, id ${table!.id}, address ${table!.addr}`
+  )
+  lines.push(
+    `stored: ${stats.infoHashes} info hashes, ${stats.peers} peers, ${stats.items} items`,
+    `in flight: ${stats.transcations} queries, banned: ${stats.bannedIps} ips`
+  )
+  if (stats.portMapping) {
+    const { method, externalIp, externalPort } = stats.portMapping
+    lines.push(`port mapping: ${externalIp ?? '?'}:${externalPort} with ${method}`)
+  }
+  out.print('stats', stats, lines.join('\n'))
+}
+
+async function stats(args: Args, out: Output) {
+  const dht = await start(args, 0)
+  try {
+    printStats(dht, out)
+    return ExitCode.OK
+  } finally {
+    await dht.close()
+  }
+}
+
+async function daemon(args: Args, out: Output) {
+  const http = args.http !== undefined ? parseHostPort(args.http) : undefined
+  const dht = await start(args, 6881, './dht_state.json')
+
+  // the token is not an argument, the arguments of a process are visible to the other users
+  const api = http && new HttpApi(dht, { hostname: http.addr, port: http.port, token: Deno.env.get('DHT_HTTP_TOKEN') })
+  if (api) {
+    const { hostname, port } = api.listen()
+    out.print('http', { hostname, port }, `the HTTP API listens on ${hostname}:${port}`)
+  }
+
+  dht.addEventListener('port-mapped', ({ detail }) =>
+    out.print('port-mapped', { ...detail }, `the port is mapped to ${detail.externalIp ?? '?'}:${detail.externalPort}`)
+  )
+  dht.addEventListener('external-ip', ({ detail }) =>
+    out.print(
+      'external-ip',
+      { ...detail, id: detail.id.toString() },
+      `the external ${detail.family} ip is ${detail.ip}`
+    )
+  )
+  const families = dht.families.map((family: AddrFamily) => `${family} ${dht.routingTable(family).nodeCount} nodes`)
+  out.print('ready', { port: dht.options.port }, `listening on ${dht.options.port}, ${families.join(', ')}`)
+
+  // close on ctrl-c or kill, the state is saved on close
+  await new Promise<void>((resolve) => {
+    for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+      Deno.addSignalListener(signal, () => resolve())
+    }
+  })
+
+  printStats(dht, out)
+  await api?.close()
+  await dht.close()
+  return ExitCode.OK
+}
+
+const COMMANDS: Record<string, (args: Args, out: Output) => Promise<ExitCode>> = {
+  lookup,
+  announce,
+  ping,
+  'find-node': findNode,
+  crawl,
+  stats,
+  daemon
+}
+
+/**
+ * run the command of the arguments
+ * @param args the command line arguments, e.g. ['lookup', '<infohash>', '--json']
+ * @returns the exit code
+ */
+export async function run(args: string[]): Promise<ExitCode> {
+  const parsed = parseCliArgs(args)
+  const out = new Output(parsed.json)
+  const command = COMMANDS[String(parsed._[0])]
+
+  if (parsed.help) {
+    console.log(USAGE)
+    return ExitCode.OK
+  }
+
+  try {
+    if (!command) {
+      throw new UsageError(parsed._.length > 0 ? `unknown command ${parsed._[0]}` : 'no command is given')
+    }
+    return await command(parsed, out)
+  } catch (e) {
+    if (e instanceof UsageError) {
+      out.error(e.message)
+      if (!parsed.json) console.error(`\n${USAGE}`)
+      return ExitCode.USAGE
+    }
+    out.error(e instanceof Error ? e.message : String(e))
+    return ExitCode.ERROR
+  }
+}
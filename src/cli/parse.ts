@@ -0,0 +1,43 @@
+import Id from '~/src/id.ts'
+import { isAddr } from '~/src/util/net.ts'
+import { UsageError } from '~/src/util/parse.ts'
+import { decodeHex } from 'std/encoding/hex.ts'
+import { NetUtil } from 'toolkit'
+
+/**
+ * parse a node id
+ * @param value 40 hex chars
+ */
+export function parseId(value: string): Id {
+  if (!/^[0-9a-fA-F]{40}$/.test(value)) {
+    throw new UsageError(`the id should be 40 hex chars, but got ${value}`)
+  }
+  return Id.fromUnit8Array(decodeHex(value))
+}
+
+/**
+ * parse the address and port of a node
+ * @param value host:port, the IPv6 address is in brackets, e.g. [::1]:6881
+ */
+export function parseHostPort(value: string): { addr: string; port: number } {
+  const match = value.match(/^\[([^\]]+)\]:(\d+)$/) ?? value.match(/^([^:]+):(\d+)$/)
+  const addr = match?.[1]
+  const port = Number(match?.[2])
+  if (!addr || !isAddr(addr) || !NetUtil.isNetPort(port)) {
+    throw new UsageError(`the node should be host:port, e.g. router.bittorrent.com:6881, but got ${value}`)
+  }
+  return { addr, port }
+}
+
+/**
+ * parse a port
+ * @param name the name of the option, for the error message
+ * @param value
+ */
+export function parsePort(name: string, value: string | number) {
+  const port = Number(value)
+  if (!Number.isInteger(port) || !NetUtil.isNetPort(port)) {
+    throw new UsageError(`--${name} should be in range [0, 65535], but got ${value}`)
+  }
+  return port
+}
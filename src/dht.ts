@@ -1,122 +1,723 @@
+import BlackListManager from '~/src/black_list_manager.ts'
+import DHTEvents from '~/src/dht_events.ts'
+import ExternalIpManager from '~/src/external_ip_manager.ts'
 import Id from '~/src/id.ts'
+import InfoHashManager from '~/src/info_hash_manager.ts'
+import Item, { ItemValue } from '~/src/item.ts'
+import ItemManager from '~/src/item_manager.ts'
+import { KRPCContext } from '~/src/krpc/context.ts'
+import { ClosedError } from '~/src/krpc/error.ts'
 import { KRPC } from '~/src/krpc/krpc.ts'
+import TranscationManager, { Request } from '~/src/krpc/transcation_manager.ts'
 import LocalNode from '~/src/local_node.ts'
+import Lookup, { LookupNode, LookupResult, LookupType } from '~/src/lookup.ts'
+import { QueryType } from '~/src/message_factory.ts'
+import Metrics from '~/src/metrics.ts'
+import Node, { NodeState } from '~/src/node.ts'
+import Peer from '~/src/peer.ts'
+import { Mapping } from '~/src/port_mapping/port_mapper.ts'
+import PortMappingManager from '~/src/port_mapping/port_mapping_manager.ts'
+import RateLimiter from '~/src/rate_limiter.ts'
+import { DHTConfig, DHTOptions, resolveOptions } from '~/src/options.ts'
 import RoutingTable from '~/src/routing_table.ts'
-import logger from '~/src/util/log.ts'
+import TokenManager from '~/src/token_manager.ts'
+import Sampler, { SampleResult } from '~/src/sampler.ts'
+import StateStore, { DHTState } from '~/src/state_store.ts'
+import UdpTransport from '~/src/transport/udp_transport.ts'
+import { Logger, Loggers, sharedLoggers } from '~/src/util/log.ts'
+import { AddrFamily, familyOf, getIP, resolveAddr } from '~/src/util/net.ts'
+import { crypto } from 'std/crypto/mod.ts'
+import { encodeHex } from 'std/encoding/hex.ts'
 import { NetUtil } from 'toolkit'
 
+export type AnnounceOptions = {
+  port?: number // the port of the peer, default is the port of the dht
+  impliedPort?: boolean // true means the nodes should use the source port of the udp packet as the port of the peer
+}
+
+export type PutMutableOptions = {
+  salt?: Uint8Array // the salt, used to store multiple items with the same key pair
+  seq?: number // the sequence number, default is the newest one in the dht plus 1
+  cas?: number // only replace the item whose sequence number is this
+}
+
+export type CloseOptions = {
+  save?: boolean // save the state before closing, only if the state options are given on listen, default is true
+}
+
+export type PingResult = {
+  id: Id // the id of the node
+  addr: string
+  port: number
+  rtt: number // the round trip time in milliseconds
+}
+
+export type DHTStats = {
+  families: Partial<
+    Record<
+      AddrFamily,
+      {
+        id: string // the local node id, hex string
+        addr: string // the external address, unspecified until it's known
+        nodes: number
+        good: number
+        questionable: number
+        buckets: number
+      }
+    >
+  >
+  infoHashes: number // the info hashes announced to us
+  peers: number // the peers announced to us
+  items: number // the items put to us
+  transcations: number // the queries waiting for the response
+  bannedIps: number
+  portMapping?: Mapping
+}
+
+export type PutResult = {
+  target: Id // the target of the item, use it to get the item
+  seq?: number // the sequence number of the mutable item
+  count: number // the count of nodes which stored the item
+}
+
 /**
  * the host node of the dht network
+ * it emits the typed events of DHTEventDetails, e.g. dht.addEventListener('announce', (event) => event.detail.peer)
  */
-export default class DHT {
-  static #DEFAULT_BOOTSTRAP_NODES = [
-    {
-      addr: 'router.bittorrent.com',
-      port: 6881
-    },
-    {
-      addr: 'dht.transmissionbt.com',
-      port: 6881
-    },
-    {
-      addr: 'router.utorrent.com',
-      port: 6881
-    },
-    {
-      addr: 'dht.aelitis.com',
-      port: 6881
-    }
-  ]
-  #bootstrapNodes: { addr: string; port: number }[] // the bootstrap nodes
-  #krpc: KRPC // the krpc protocol
-
-  private constructor(port: number, localNode: LocalNode, bootstrapNodes: { addr: string; port: number }[]) {
-    // check the port
-    if (!NetUtil.isNetPort(port)) {
-      throw new Error('invalid port, should be in range [0, 65535], but got ' + port)
+export default class DHT extends DHTEvents {
+  #options: Readonly<DHTConfig> // the resolved settings, see DEFAULT_OPTIONS for the defaults
+  #krpcs = new Map<AddrFamily, KRPC>() // the krpc protocol of each address family
+  #store?: StateStore // saves the state, only if the state options are given
+  #timers: ReturnType<typeof setInterval>[] = [] // the background maintenance and saving
+  #tasks = new Set<Promise<unknown>>() // the background work in flight, waited for on close
+  #onUnload?: () => void // saves the state when the process exits
+  #closing?: Promise<void>
+  #context: KRPCContext // the state owned by this dht, shared by the krpc of each family
+  #sampler: Sampler // remembers the sample interval of each node across walks
+  #logger: Logger
+  #portMapping?: PortMappingManager // forwards the port on the NAT gateway, only if the portMapping option is given
+
+  private constructor(
+    options: Readonly<DHTConfig>,
+    localNodes: Map<AddrFamily, LocalNode>,
+    loggers: Loggers,
+    store?: StateStore,
+    state?: DHTState
+  ) {
+    super()
+
+    this.#options = options
+    this.#logger = loggers.get('dht')
+    this.#context = {
+      options,
+      routingTables: new Map(),
+      transcations: new TranscationManager<Request>(options.timeouts.transaction, loggers.get('krpc')),
+      infoHashes: new InfoHashManager(options.storage.peers, loggers.get('storage')),
+      items: new ItemManager(options.storage.items, loggers.get('storage')),
+      tokens: new TokenManager(),
+      externalIps: new ExternalIpManager(),
+      events: this,
+      blackList: new BlackListManager(loggers.get('krpc')),
+      inboundLimiter: new RateLimiter(options.rateLimits.inbound),
+      outboundLimiter: new RateLimiter(options.rateLimits.outbound),
+      metrics: new Metrics(),
+      loggers
+    }
+    this.#sampler = new Sampler(this.#krpcs, loggers.get('lookup'))
+
+    // the IPv4 and IPv6 dht networks have their own routing table and socket, see BEP 32
+    for (const [family, localNode] of localNodes) {
+      // initilize the routing table
+      this.#logger.info('initilize the routing table', { family })
+      this.#context.routingTables.set(
+        family,
+        new RoutingTable(localNode, family, options.security, this.#context.externalIps, this, {
+          capacity: options.k,
+          goodRange: options.timeouts.nodeGood,
+          logger: loggers.get('routing')
+        })
+      )
     }
 
-    // check the bootstrap nodes
-    if (!bootstrapNodes || bootstrapNodes.length == 0) {
-      throw new Error('you should provide at least one bootstrap node, or use the default bootstrap nodes')
+    // the default udp sockets, the IPv4 and IPv6 dht share a dual-stack socket if both listen on all interfaces
+    const families = [...localNodes.keys()]
+    const transports = options.transport
+      ? new Map(families.map((family) => [family, options.transport!(family, options.port)]))
+      : UdpTransport.listen(options.port, families, options.bind)
+
+    for (const family of families) {
+      // initilize the krpc protocol
+      this.#logger.info('initilize the krpc protocol', { family })
+      const krpc = KRPC.create(options.port, family, this.#context, transports.get(family))
+      this.#krpcs.set(family, krpc)
+
+      // the oldest node of a full bucket is pinged before it is evicted
+      krpc.routingTable.setPinger((node) => krpc.ping(node))
     }
 
-    // initilize the routing table
-    logger.info('initilize the routing table')
-    RoutingTable.init(localNode)
+    // restore the saved nodes, or ping the bootstrap nodes, the listeners are added after listen() returns
+    this.track(
+      this.bootstrap(state).then(() => {
+        if (this.#closing) return
+        const nodes = this.families.reduce((count, family) => count + this.routingTable(family).nodeCount, 0)
+        this.emit('ready', { nodes })
+      })
+    )
 
-    // initilize the bootstrap nodes
-    logger.info('initilize the bootstrap nodes')
-    this.#bootstrapNodes = bootstrapNodes
+    // the gateways of home networks only forward IPv4 ports
+    if (options.portMapping && localNodes.has('ipv4')) {
+      this.#portMapping = new PortMappingManager(options.port, options.portMapping, this, loggers.get('nat'))
+      this.track(this.#portMapping.start())
+    }
 
-    // initilize the krpc protocol
-    logger.info('initilize the krpc protocol')
-    this.#krpc = KRPC.create(port)
+    // keep the routing tables healthy
+    this.#timers.push(setInterval(() => this.track(this.maintain()), options.timeouts.maintain))
 
-    // ping the bootstrap nodes
-    this.pingBootstrapNodes()
+    // save the state on an interval and on exit
+    if (store) {
+      this.#store = store
+      this.#timers.push(setInterval(() => this.track(this.save()), store.interval))
+      this.#onUnload = () => store.saveSync(this.#context)
+      globalThis.addEventListener('unload', this.#onUnload)
+    }
   }
 
   /**
    * create a dht network and listen on the port
-   * @param port the port to listen on
-   * @param bootstrapNodes the bootstrap nodes
+   * @param options the port, bootstrap nodes, families, limits and so on, the missing ones are taken from DEFAULT_OPTIONS
    * @returns
+   * @throws Error if an option is invalid
+   */
+  static async listen(options: DHTOptions = {}) {
+    const config = resolveOptions(options)
+
+    // the dht given the log options has its own loggers, so it doesn't change the logs of the other dhts
+    const loggers = Object.values(config.log).some((value) => value !== undefined)
+      ? new Loggers(config.log)
+      : sharedLoggers()
+
+    const store = config.state ? new StateStore(config.state, loggers.get('state')) : undefined
+    const state = await store?.load()
+
+    // the id of each family is generated from the external ip of the family, the saved id is kept if it still matches,
+    // if the ip is unknown, the id is replaced once the responding nodes agree on our ip
+    const localNodes = new Map<AddrFamily, LocalNode>()
+    for (const family of config.families) {
+      const id = config.ids[family] ?? StateStore.idOf(state, family)
+      const addr =
+        config.addrs[family] ?? (config.ipLookup ? await DHT.lookupIp(family, loggers.get('dht')) : undefined)
+      localNodes.set(family, LocalNode.createLocalNode(config.port, family, id, addr))
+    }
+
+    return new DHT(config, localNodes, loggers, store, state)
+  }
+
+  /**
+   * ask ipify for the external ip, the failure is not fatal, the ip is voted by the responding nodes then
+   * @param family
+   * @param logger
+   * @returns undefined if the request failed
+   */
+  private static async lookupIp(family: AddrFamily, logger: Logger) {
+    try {
+      const ip = await getIP(family)
+      return familyOf(ip) === family ? ip : undefined
+    } catch (e) {
+      logger.warn('lookup the external ip failed, wait for the votes', { family, error: e })
+      return undefined
+    }
+  }
+
+  /**
+   * the resolved settings of the dht, they can't be changed
+   */
+  get options() {
+    return this.#options
+  }
+
+  /**
+   * the loggers of the dht, the shared ones unless the log options are given on listen
+   */
+  get loggers() {
+    return this.#context.loggers
+  }
+
+  /**
+   * the port forwarded by the NAT gateway, undefined if the port mapping is off or no gateway gave one
+   */
+  get portMapping() {
+    return this.#portMapping?.mapping
+  }
+
+  /**
+   * the enabled address families
+   */
+  get families() {
+    return [...this.#krpcs.keys()]
+  }
+
+  /**
+   * the routing table of the family
+   * @param family default is ipv4
+   */
+  routingTable(family: AddrFamily = 'ipv4') {
+    const routingTable = this.#context.routingTables.get(family)
+    if (!routingTable) {
+      throw new Error(`the ${family} family is not enabled`)
+    }
+    return routingTable
+  }
+
+  /**
+   * the counts of the routing tables and the stores
+   */
+  stats(): DHTStats {
+    const families: DHTStats['families'] = {}
+    for (const family of this.families) {
+      const table = this.routingTable(family)
+      families[family] = {
+        id: table.localNode.id.toString(),
+        addr: table.localNode.addr,
+        nodes: table.nodeCount,
+        good: table.getNodesByState(NodeState.GOOD).length,
+        questionable: table.getNodesByState(NodeState.QUESTIONABLE).length,
+        buckets: table.buckets.length
+      }
+    }
+
+    const { infoHashes, items, transcations, blackList } = this.#context
+    return {
+      families,
+      infoHashes: infoHashes.size,
+      peers: infoHashes.peerCount,
+      items: items.size,
+      transcations: transcations.size,
+      bannedIps: blackList.size,
+      portMapping: this.portMapping
+    }
+  }
+
+  /**
+   * the counters of the messages, errors and timeouts, and the gauges of the routing tables and the stores
+   * @returns the Prometheus text format
+   */
+  metrics() {
+    return this.#context.metrics.render(this.#context)
+  }
+
+  /**
+   * the live peers announced to us for the info hash, no lookup is done
+   * @param infoHash
+   */
+  storedPeers(infoHash: Uint8Array): Peer[] {
+    return this.#context.infoHashes.find(encodeHex(infoHash)) ?? []
+  }
+
+  /**
+   * stop the dht, it can't be used again
+   *
+   * the background maintenance is stopped, the state is saved, the port mapping is deleted, the sockets are closed,
+   * and the pending queries are rejected with a ClosedError, so the running lookups finish with what they have found
+   *
+   * @param options save the state or not
+   * @returns resolves when the background work has finished
+   */
+  close({ save = true }: CloseOptions = {}) {
+    this.#closing ??= (async () => {
+      for (const timer of this.#timers) {
+        clearInterval(timer)
+      }
+      if (this.#onUnload) {
+        globalThis.removeEventListener('unload', this.#onUnload)
+      }
+
+      if (save) {
+        await this.save()
+      }
+
+      await this.#portMapping?.stop()
+
+      await Promise.all([...this.#krpcs.values()].map((krpc) => krpc.close()))
+
+      for (const request of this.#context.transcations.clear()) {
+        request.reject?.(
+          new ClosedError(`${request.type} query to ${request.addr}:${request.port} is canceled, the dht is closed`)
+        )
+      }
+
+      await Promise.allSettled(this.#tasks)
+      this.#logger.info('the dht is closed')
+      if (this.#context.loggers !== sharedLoggers()) {
+        this.#context.loggers.close()
+      }
+    })()
+
+    return this.#closing
+  }
+
+  /**
+   * keep the background work until it settles, so close() can wait for it
+   * @param task
+   */
+  private track(task: Promise<unknown>) {
+    this.#tasks.add(task)
+    task
+      .catch((e) => this.emit('error', { error: e instanceof Error ? e : new Error(String(e)) }))
+      .finally(() => this.#tasks.delete(task))
+  }
+
+  /**
+   * save the state now, only if the state options are given on listen
+   */
+  async save() {
+    if (!this.#store) return
+
+    try {
+      await this.#store.save(this.#context)
+    } catch (e) {
+      this.#context.loggers.get('state').error('save the state failed', { error: e })
+      this.emit('error', { error: e instanceof Error ? e : new Error(String(e)) })
+    }
+  }
+
+  /**
+   * ping the saved nodes, they are added to the routing table when they answer,
+   * then ping the bootstrap nodes if the routing tables are still almost empty
+   * @param state the saved state
    */
-  static async listen(port: number, bootstrapNodes: { addr: string; port: number }[] = DHT.#DEFAULT_BOOTSTRAP_NODES) {
-    const localNdoe = await LocalNode.createLocalNode(port)
+  private async bootstrap(state?: DHTState) {
+    if (state) {
+      const logger = this.#context.loggers.get('state')
+      StateStore.restorePeers(state, this.#context.infoHashes, logger)
+
+      const pings = [...this.#krpcs].flatMap(([family, krpc]) =>
+        StateStore.nodesOf(state, family, logger).map((node) => krpc.ping(node))
+      )
+      logger.info('ping the saved nodes', { nodes: pings.length })
+      await Promise.allSettled(pings)
+    }
 
-    return new DHT(port, localNdoe, bootstrapNodes)
+    if (this.families.some((family) => this.routingTable(family).nodeCount < this.#options.k)) {
+      await this.pingBootstrapNodes()
+    }
   }
 
   /**
-   * ping the bootstrap nodes
+   * ping the bootstrap nodes, and ask them for the nodes close to a random id
    */
   async pingBootstrapNodes() {
-    logger.info(`start pingBootstrapNodes`)
-    for (const bootstrapNode of this.#bootstrapNodes) {
-      logger.info(`ping the bootstrap node ${bootstrapNode.addr}:${bootstrapNode.port}`)
-      // async ping the bootstrap node
-      // TODO pre resolve dns of the bootstrap node, to improve the performance
-      await this.#krpc.sendPingBootrapNodesRequest(bootstrapNode)
-      await this.#krpc.sendFindNodeRequest(bootstrapNode.port, bootstrapNode.addr, Id.random())
+    this.#logger.info('ping the bootstrap nodes', { count: this.#options.bootstrapNodes.length })
+    const pings = [...this.#krpcs.values()].flatMap((krpc) =>
+      this.#options.bootstrapNodes.map(async (bootstrapNode) => {
+        const fields = { addr: bootstrapNode.addr, port: bootstrapNode.port, family: krpc.family }
+        this.#logger.info('ping the bootstrap node', fields)
+        try {
+          const node = new Peer(bootstrapNode.port, await resolveAddr(bootstrapNode.addr, krpc.family))
+          await krpc.ping(node)
+          await krpc.findNode(node, Id.random())
+        } catch (e) {
+          this.#logger.error('ping the bootstrap node failed', { ...fields, error: e })
+        }
+      })
+    )
+    await Promise.allSettled(pings)
+  }
+
+  /**
+   * keep the routing tables healthy, see BEP 5
+   * the questionable nodes are pinged, the bad nodes are dropped when they fail, the stale buckets are refreshed
+   * with a lookup of a random id in their range, and the bootstrap nodes are pinged again if a table is almost empty,
+   * the expired peers and items are dropped from the stores
+   */
+  async maintain() {
+    const tasks: Promise<unknown>[] = []
+    let bootstrap = false
+
+    // the announced peers expire, see BEP 5, so do the items, see BEP 44
+    this.#context.infoHashes.prune()
+    this.#context.items.prune()
+
+    for (const [family, krpc] of this.#krpcs) {
+      const table = this.routingTable(family)
+
+      const questionable = table.getNodesByState(NodeState.QUESTIONABLE)
+      for (const node of questionable) {
+        tasks.push(krpc.ping(node))
+      }
+
+      const stale = table.getStaleBuckets(this.#options.timeouts.bucketRefresh)
+      for (const bucket of stale) {
+        bucket.touch()
+        // the bucket is in the table of this family, the other families are not asked
+        tasks.push(this.lookup(QueryType.FIND_NODE, bucket.randomId(), undefined, [family]))
+      }
+
+      this.#logger.info('maintain the routing table', {
+        family,
+        nodes: table.nodeCount,
+        questionable: questionable.length,
+        stale: stale.length
+      })
+
+      if (table.nodeCount < this.#options.k) {
+        bootstrap = true
+      }
+    }
+
+    if (bootstrap) {
+      tasks.push(this.pingBootstrapNodes())
     }
+
+    await Promise.allSettled(tasks)
   }
 
+  /**
+   * ask all nodes in the routing table for the nodes close to a random id
+   */
   async sendFindNodeRequest() {
-    logger.info(`start sendFindNodeRequest`)
-    // get node from bucket
-    for (const bucket of RoutingTable.get().buckets || []) {
-      if (bucket.isEmpty()) {
-        continue
-      }
-      for (const node of bucket.nodes) {
-        await this.#krpc.sendFindNodeRequest(node.port, node.addr, Id.random())
+    this.#logger.info('ask the nodes of the routing tables for a random id')
+    const queries: Promise<unknown>[] = []
+    for (const [family, krpc] of this.#krpcs) {
+      // get node from bucket
+      for (const bucket of this.routingTable(family).buckets || []) {
+        if (bucket.isEmpty()) {
+          continue
+        }
+        for (const node of bucket.nodes) {
+          queries.push(krpc.findNode(node, Id.random()))
+        }
       }
     }
+    await Promise.allSettled(queries)
   }
 
-  async sendGetPeersRequest(infoHash: Uint8Array) {
-    logger.info(`start sendGetPeersRequest`)
-    if (RoutingTable.get().nodeCount === 0) {
-      logger.info(`no nodes in the routing table, skip sendGetPeersRequest`)
-      return
+  /**
+   * ping the node, e.g. to check it's alive
+   * @param addr the address of the node, its family must be enabled
+   * @param port
+   * @returns the id of the node and the round trip time
+   */
+  async ping(addr: string, port: number): Promise<PingResult> {
+    const krpc = this.#krpcs.get(familyOf(addr))
+    if (!krpc) {
+      throw new Error(`the ${familyOf(addr)} family is not enabled, can't ping ${addr}`)
+    }
+
+    const node = new Peer(port, await resolveAddr(addr, krpc.family))
+    const start = Date.now()
+    const response = await krpc.ping(node)
+    return { id: Id.fromUnit8Array(response.r!.id), addr, port, rtt: Date.now() - start }
+  }
+
+  /**
+   * lookup the peers of the info hash, it's an iterative lookup which converges to the closest nodes of the info hash
+   * if both IPv4 and IPv6 are enabled, the peers and nodes of both families are merged
+   * @param infoHash the info hash of the file
+   * @returns the peers found, the closest nodes and their tokens
+   */
+  getPeers(infoHash: Uint8Array): Promise<LookupResult> {
+    return this.lookup(QueryType.GET_PEERS, Id.fromUnit8Array(infoHash))
+  }
+
+  /**
+   * lookup the closest nodes of the target id
+   * @param targetId the target node id
+   * @returns the closest nodes
+   */
+  findNode(targetId: Id): Promise<LookupResult> {
+    return this.lookup(QueryType.FIND_NODE, targetId)
+  }
+
+  /**
+   * announce that the peer is downloading the file
+   *
+   * it looks up the closest nodes of the info hash with get_peers, and announces to them with the tokens they returned
+   *
+   * @param infoHash the info hash of the file
+   * @param options the port of the peer, or use the implied port
+   * @returns the count of nodes which accepted the announce
+   */
+  async announce(infoHash: Uint8Array, { port = this.#options.port, impliedPort = false }: AnnounceOptions = {}) {
+    if (!NetUtil.isNetPort(port)) {
+      throw new Error('invalid port, should be in range [0, 65535], but got ' + port)
     }
-    const closestNodes = RoutingTable.get().findClosestNodes(Id.fromUnit8Array(infoHash))
 
-    if (closestNodes.length === 0) {
-      logger.info(`[no closest nodes found], sendGetPeersRequest to a random node`)
-      // 随机获取一个node
-      const node = RoutingTable.get().getRandomNode()
-      if (node) {
-        await this.#krpc.sendGetPeersRequest(node, infoHash)
-        return
+    const { nodes } = await this.getPeers(infoHash)
+
+    // only the nodes which returned a token accept the announce
+    const targets = nodes.filter(({ token }) => token)
+
+    this.#logger.info('announce the peer', {
+      infoHash: encodeHex(infoHash),
+      nodes: targets.length,
+      port,
+      impliedPort
+    })
+
+    const results = await Promise.allSettled(
+      targets.map(({ node, token }) =>
+        this.#krpcs.get(familyOf(node.addr))!.announcePeer(node, infoHash, token!, port, impliedPort)
+      )
+    )
+
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        this.#logger.warn('announce the peer failed', { infoHash: encodeHex(infoHash), error: result.reason })
       }
-    } else {
-      logger.info(`[closest nodes found], sendGetPeersRequest to ${closestNodes.length} nodes`)
-      for (const node of closestNodes) {
-        await this.#krpc.sendGetPeersRequest(node, infoHash)
+    }
+
+    return results.filter((result) => result.status === 'fulfilled').length
+  }
+
+  /**
+   * walk the keyspace and collect the info hashes stored by the nodes, see BEP 51
+   * a node is not queried again before the interval it returned has elapsed
+   * @param maxNodes the max count of nodes to query
+   * @returns the sampled info hashes
+   */
+  sampleInfoHashes(maxNodes = 100): Promise<SampleResult> {
+    const seeds = this.families.flatMap((family) => this.routingTable(family).getAllNodes())
+    return this.#sampler.walk(seeds, maxNodes)
+  }
+
+  /**
+   * get the item of the target from the dht, see BEP 44
+   * @param target the sha1 hash of the bencoded value for immutable item, or use Item.mutableTarget() for mutable item
+   * @param salt the salt of the mutable item
+   * @returns the immutable item, or the mutable item with the newest sequence number, undefined if not found
+   */
+  async get(target: Id, salt?: Uint8Array): Promise<Item | undefined> {
+    const { items } = await this.lookup(QueryType.GET, target, salt)
+    return await this.newestItem(items, target)
+  }
+
+  /**
+   * store an immutable item into the dht, see BEP 44
+   * @param value the value, its bencoded length must not exceed 1000 bytes
+   * @returns the target of the item and the count of nodes which stored it
+   */
+  async putImmutable(value: ItemValue): Promise<PutResult> {
+    const item = Item.immutable(value)
+    await this.checkItem(item)
+
+    const target = await item.target()
+    const { nodes } = await this.lookup(QueryType.GET, target)
+
+    return { target, count: await this.put(item, nodes) }
+  }
+
+  /**
+   * store a mutable item into the dht, see BEP 44
+   * @param keyPair the ed25519 key pair, the item is keyed by the public key and the salt
+   * @param value the value, its bencoded length must not exceed 1000 bytes
+   * @param options the salt, the sequence number and the cas
+   * @returns the target and the sequence number of the item and the count of nodes which stored it
+   */
+  async putMutable(
+    keyPair: CryptoKeyPair,
+    value: ItemValue,
+    { salt, seq, cas }: PutMutableOptions = {}
+  ): Promise<PutResult> {
+    if (salt && salt.length > Item.MAX_SALT_LENGTH) {
+      throw new Error(`the salt is too big, should not exceed ${Item.MAX_SALT_LENGTH} bytes, but got ${salt.length}`)
+    }
+
+    const publicKey = new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey))
+    const target = Item.mutableTarget(publicKey, salt)
+    const { nodes, items } = await this.lookup(QueryType.GET, target, salt)
+
+    // the sequence number must be greater than the stored one
+    const newest = await this.newestItem(items, target)
+    const item = await Item.mutable(keyPair, value, seq ?? (newest ? newest.seq! + 1 : 0), salt)
+    await this.checkItem(item)
+
+    return { target, seq: item.seq, count: await this.put(item, nodes, cas) }
+  }
+
+  /**
+   * put the item to the nodes which returned a token
+   * @returns the count of nodes which stored the item
+   */
+  private async put(item: Item, nodes: LookupNode[], cas?: number) {
+    const targets = nodes.filter(({ token }) => token)
+
+    const target = await item.target()
+    this.#logger.info('put the item', { target, nodes: targets.length })
+
+    const results = await Promise.allSettled(
+      targets.map(({ node, token }) => this.#krpcs.get(familyOf(node.addr))!.put(node, token!, item, cas))
+    )
+
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        this.#logger.warn('put the item failed', { target, error: result.reason })
       }
     }
+
+    return results.filter((result) => result.status === 'fulfilled').length
+  }
+
+  private async checkItem(item: Item) {
+    const length = (await item.bencodedValue()).length
+    if (length > Item.MAX_VALUE_LENGTH) {
+      throw new Error(`the value is too big, should not exceed ${Item.MAX_VALUE_LENGTH} bytes, but got ${length}`)
+    }
+  }
+
+  /**
+   * the valid item of the target, the mutable item with the greatest sequence number wins
+   */
+  private async newestItem(items: Item[], target: Id) {
+    let newest: Item | undefined = undefined
+    for (const item of items) {
+      if (!(await item.isValidFor(target))) continue
+      if (!item.isMutable) return item
+      if (!newest || item.seq! > newest.seq!) newest = item
+    }
+    return newest
+  }
+
+  /**
+   * @param type
+   * @param target
+   * @param salt
+   * @param families the families to ask, default is all
+   */
+  private async lookup(
+    type: LookupType,
+    target: Id,
+    salt?: Uint8Array,
+    families = this.families
+  ): Promise<LookupResult> {
+    let seeds = families.flatMap((family) => this.routingTable(family).findClosestNodes(target, this.#options.k))
+
+    // the bootstrap may have failed, e.g. its datagrams were lost, so the lookup doesn't wait for the next maintain
+    if (seeds.length === 0) {
+      this.#logger.info('no nodes in the routing table, the lookup starts from the bootstrap nodes', { target })
+      seeds = await this.bootstrapSeeds(families)
+    }
+
+    const senders = new Map(families.map((family) => [family, this.#krpcs.get(family)!]))
+    return await new Lookup(type, target, senders, salt).run(seeds)
+  }
+
+  /**
+   * the bootstrap nodes of the families as the seeds of a lookup, their ids are unknown until they answer,
+   * so a random one is used, not the target, since the lookup of our own id skips the nodes of our id
+   */
+  private async bootstrapSeeds(families: AddrFamily[]) {
+    const seeds = await Promise.all(
+      families.flatMap((family) =>
+        this.#options.bootstrapNodes.map(async ({ addr, port }) => {
+          try {
+            return new Node(Id.random(), port, await resolveAddr(addr, family))
+          } catch (e) {
+            this.#logger.warn('resolve the bootstrap node failed', { family, addr, error: e })
+            return undefined
+          }
+        })
+      )
+    )
+    return seeds.filter((node): node is Node => node !== undefined)
   }
 }
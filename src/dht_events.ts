@@ -0,0 +1,76 @@
+import Id from '~/src/id.ts'
+import { QueryType } from '~/src/message_factory.ts'
+import Node from '~/src/node.ts'
+import Peer from '~/src/peer.ts'
+import { Mapping } from '~/src/port_mapping/port_mapper.ts'
+import { AddrFamily } from '~/src/util/net.ts'
+
+/**
+ * the detail of each event emitted by the dht
+ */
+export type DHTEventDetails = {
+  ready: { nodes: number } // the bootstrap is done, with the count of nodes in the routing tables
+  peer: { infoHash: Uint8Array; peer: Peer } // a peer of the info hash is found by a get_peers lookup
+  'node-added': { family: AddrFamily; node: Node } // a node is added to the routing table of the family
+  'node-removed': { family: AddrFamily; node: Node } // a node is removed from the routing table of the family
+  announce: { infoHash: Uint8Array; peer: Peer; id: Id } // a node announced the peer to us, the id is of the node
+  query: { type: QueryType; addr: string; port: number; id: Id } // a node sent a query to us
+  'external-ip': { family: AddrFamily; ip: string; id: Id } // the responding nodes agreed on our ip, the id is our new id
+  'port-mapped': Mapping // the gateway forwards the external port to the port of the dht, it's renewed before it expires
+  error: { error: Error } // an error that can't be returned to a caller, e.g. handling a message failed
+}
+
+export type DHTEventType = keyof DHTEventDetails
+
+export type DHTEvent<K extends DHTEventType = DHTEventType> = CustomEvent<DHTEventDetails[K]>
+
+/**
+ * DHTEvents is an EventTarget whose listeners know the detail type of each event
+ * e.g. dht.addEventListener('peer', (event) => console.log(event.detail.peer))
+ */
+export default class DHTEvents extends EventTarget {
+  /**
+   * dispatch the event to the listeners
+   * @param type
+   * @param detail
+   */
+  emit<K extends DHTEventType>(type: K, detail: DHTEventDetails[K]) {
+    this.dispatchEvent(new CustomEvent(type, { detail }))
+  }
+
+  addEventListener<K extends DHTEventType>(
+    type: K,
+    listener: ((event: DHTEvent<K>) => void) | null,
+    options?: boolean | AddEventListenerOptions
+  ): void
+  addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject | null,
+    options?: boolean | AddEventListenerOptions
+  ): void
+  addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject | ((event: DHTEvent) => void) | null,
+    options?: boolean | AddEventListenerOptions
+  ) {
+    super.addEventListener(type, listener as EventListenerOrEventListenerObject | null, options)
+  }
+
+  removeEventListener<K extends DHTEventType>(
+    type: K,
+    listener: ((event: DHTEvent<K>) => void) | null,
+    options?: boolean | EventListenerOptions
+  ): void
+  removeEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject | null,
+    options?: boolean | EventListenerOptions
+  ): void
+  removeEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject | ((event: DHTEvent) => void) | null,
+    options?: boolean | EventListenerOptions
+  ) {
+    super.removeEventListener(type, listener as EventListenerOrEventListenerObject | null, options)
+  }
+}
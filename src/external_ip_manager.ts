@@ -0,0 +1,67 @@
+import { AddrFamily, familyOf } from '~/src/util/net.ts'
+
+/**
+ * ExternalIpManager collects the votes of our external ip, see BEP 42
+ *
+ * the responding nodes tell us the ip they saw in the "ip" field of the response, each node has one vote,
+ * the ip is agreed when it has at least MIN_VOTES votes and more than half of all votes of the family
+ */
+export default class ExternalIpManager {
+  static MIN_VOTES = 10 // the min count of votes to agree on an ip
+  static MAX_VOTERS = 1000 // the max count of voters of each family, the oldest vote is dropped
+  #votes = new Map<AddrFamily, Map<string, string>>() // <family, <voter ip, voted ip>>
+
+  /**
+   * add the vote of a node, a later vote of the same node replaces the former one
+   * @param voter the ip of the voting node
+   * @param ip our ip seen by the voting node
+   * @returns true if the agreed ip is changed by the vote
+   */
+  vote(voter: string, ip: string): boolean {
+    const family = familyOf(ip)
+    if (familyOf(voter) !== family) {
+      return false
+    }
+
+    const before = this.agreed(family)
+
+    let votes = this.#votes.get(family)
+    if (!votes) {
+      votes = new Map()
+      this.#votes.set(family, votes)
+    }
+
+    // move the voter to the end, the first one is the oldest
+    votes.delete(voter)
+    votes.set(voter, ip)
+    if (votes.size > ExternalIpManager.MAX_VOTERS) {
+      votes.delete(votes.keys().next().value!)
+    }
+
+    return this.agreed(family) !== before
+  }
+
+  /**
+   * the external ip agreed by the voting nodes
+   * @param family
+   * @returns the ip, or undefined if there is no agreement yet
+   */
+  agreed(family: AddrFamily): string | undefined {
+    const votes = this.#votes.get(family)
+    if (!votes) {
+      return undefined
+    }
+
+    const counts = new Map<string, number>()
+    for (const ip of votes.values()) {
+      counts.set(ip, (counts.get(ip) ?? 0) + 1)
+    }
+
+    for (const [ip, count] of counts) {
+      if (count >= ExternalIpManager.MIN_VOTES && count * 2 > votes.size) {
+        return ip
+      }
+    }
+    return undefined
+  }
+}
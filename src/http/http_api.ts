@@ -0,0 +1,287 @@
+import DHT from '~/src/dht.ts'
+import { ClosedError, TimeoutError } from '~/src/krpc/error.ts'
+import Node from '~/src/node.ts'
+import Peer from '~/src/peer.ts'
+import { AddrFamily, familyOf, isAddr } from '~/src/util/net.ts'
+import { parseInfoHash, UsageError } from '~/src/util/parse.ts'
+import { encodeHex } from 'std/encoding/hex.ts'
+
+export type HttpApiOptions = {
+  hostname?: string // the address to listen on, default is 127.0.0.1, so only the local services can use it
+  port?: number // default is 8080
+  token?: string // the bearer token, the requests without it are refused, no auth if it's not given
+}
+
+/**
+ * the error is sent as the status and a JSON body with the message
+ */
+class HttpError extends Error {
+  status: number
+
+  constructor(status: number, message: string) {
+    super(message)
+    this.name = 'HttpError'
+    this.status = status
+  }
+}
+
+type Route = {
+  method: 'GET' | 'POST'
+  path: RegExp // the groups are passed to the handler
+  handler: (request: Request, url: URL, ...params: string[]) => Promise<unknown> | unknown // a Response is sent as it is, the others as JSON
+}
+
+/**
+ * HttpApi serves the state and the queries of a running dht as JSON over HTTP, so other services can use the node
+ * without embedding the library
+ *
+ * GET /stats, GET /routing-table?family=ipv4, GET /peers/:infohash,
+ * POST /lookup {infoHash}, POST /announce {infoHash, port?, impliedPort?}, POST /ping {addr, port},
+ * and GET /metrics in the Prometheus text format
+ */
+export default class HttpApi {
+  #dht: DHT
+  #hostname: string
+  #port: number
+  #token?: Uint8Array
+  #server?: Deno.HttpServer
+  #routes: Route[] = [
+    { method: 'GET', path: /^\/stats$/, handler: () => this.#dht.stats() },
+    { method: 'GET', path: /^\/routing-table$/, handler: (_, url) => this.routingTable(url) },
+    { method: 'GET', path: /^\/peers\/([^/]+)$/, handler: (_, __, infoHash) => this.peers(infoHash) },
+    { method: 'POST', path: /^\/lookup$/, handler: (request) => this.lookup(request) },
+    { method: 'POST', path: /^\/announce$/, handler: (request) => this.announce(request) },
+    { method: 'POST', path: /^\/ping$/, handler: (request) => this.ping(request) },
+    { method: 'GET', path: /^\/metrics$/, handler: () => this.metrics() }
+  ]
+
+  /**
+   * @param dht the running dht
+   * @param options
+   */
+  constructor(dht: DHT, { hostname = '127.0.0.1', port = 8080, token }: HttpApiOptions = {}) {
+    this.#dht = dht
+    this.#hostname = hostname
+    this.#port = port
+    this.#token = token ? new TextEncoder().encode(token) : undefined
+  }
+
+  /**
+   * the address the server listens on, undefined until listen
+   */
+  get addr() {
+    return this.#server?.addr as Deno.NetAddr | undefined
+  }
+
+  /**
+   * start the server
+   * @returns the address it listens on, the port is picked by the system if it's 0
+   */
+  listen() {
+    const hostname = this.#hostname
+    if (!this.#token && hostname !== '127.0.0.1' && hostname !== '::1') {
+      this.logger.warn('listen without a token, anyone who can reach it can use the dht', { hostname })
+    }
+
+    this.#server = Deno.serve({ hostname, port: this.#port, onListen: () => {} }, (request) => this.handle(request))
+    this.logger.info('listen', { hostname, port: this.addr!.port })
+    return this.addr!
+  }
+
+  /**
+   * stop the server, the running requests are finished first
+   */
+  async close() {
+    await this.#server?.shutdown()
+  }
+
+  private get logger() {
+    return this.#dht.loggers.get('http')
+  }
+
+  /**
+   * @param request
+   * @returns the JSON response
+   */
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url)
+    try {
+      this.authorize(request)
+
+      const routes = this.#routes.filter(({ path }) => path.test(url.pathname))
+      if (routes.length === 0) {
+        throw new HttpError(404, `${url.pathname} is not found`)
+      }
+      const route = routes.find(({ method }) => method === request.method)
+      if (!route) {
+        throw new HttpError(405, `${request.method} is not allowed on ${url.pathname}`)
+      }
+
+      const params = url.pathname.match(route.path)!.slice(1).map(decodeParam)
+      const result = await route.handler(request, url, ...params)
+      return result instanceof Response ? result : Response.json(result)
+    } catch (e) {
+      const error = this.toHttpError(e)
+      if (error.status >= 500) {
+        this.logger.error('the request failed', { method: request.method, path: url.pathname, error: error.message })
+      }
+      return Response.json({ error: error.message }, { status: error.status })
+    }
+  }
+
+  private authorize(request: Request) {
+    if (!this.#token) return
+
+    const [scheme, token] = (request.headers.get('authorization') ?? '').split(' ')
+    if (scheme !== 'Bearer' || !token || !this.equals(new TextEncoder().encode(token), this.#token)) {
+      throw new HttpError(401, 'the bearer token is missing or wrong')
+    }
+  }
+
+  /**
+   * compare in constant time, so the token can't be guessed from the response time
+   */
+  private equals(a: Uint8Array, b: Uint8Array) {
+    let diff = a.length ^ b.length
+    for (let i = 0; i < b.length; i++) {
+      diff |= (a[i] ?? 0) ^ b[i]
+    }
+    return diff === 0
+  }
+
+  private toHttpError(e: unknown) {
+    if (e instanceof HttpError) return e
+    if (e instanceof UsageError) return new HttpError(400, e.message)
+    if (e instanceof TimeoutError) return new HttpError(504, e.message)
+    if (e instanceof ClosedError) return new HttpError(503, e.message)
+    return new HttpError(500, e instanceof Error ? e.message : String(e))
+  }
+
+  /**
+   * read the JSON body
+   */
+  private async body(request: Request): Promise<Record<string, unknown>> {
+    try {
+      const body = await request.json()
+      if (typeof body === 'object' && body !== null && !Array.isArray(body)) {
+        return body
+      }
+    } catch {
+      // the error below tells it
+    }
+    throw new HttpError(400, 'the body should be a JSON object')
+  }
+
+  private infoHashOf(body: Record<string, unknown>) {
+    if (typeof body.infoHash !== 'string') {
+      throw new HttpError(400, 'infoHash should be a magnet link, a hex or base32 string')
+    }
+    return parseInfoHash(body.infoHash)
+  }
+
+  /**
+   * the port of a peer or a node, 0 can't be reached
+   */
+  private portOf(port: unknown) {
+    if (typeof port !== 'number' || !Number.isInteger(port) || port < 1 || port > 65535) {
+      throw new HttpError(400, `port should be in range [1, 65535], but got ${port}`)
+    }
+    return port
+  }
+
+  private routingTable(url: URL) {
+    const family = url.searchParams.get('family')
+    if (family !== null && !this.#dht.families.includes(family as AddrFamily)) {
+      throw new HttpError(400, `the family should be one of ${this.#dht.families.join(', ')}, but got ${family}`)
+    }
+
+    const now = Date.now()
+    const nodeOf = (node: Node) => ({
+      id: node.id.toString(),
+      addr: node.addr,
+      port: node.port,
+      state: node.getState(this.#dht.options.timeouts.nodeGood),
+      age: now - node.activedAt, // milliseconds since the node was last active
+      failures: node.failures
+    })
+
+    const families = family ? [family as AddrFamily] : this.#dht.families
+    return families.map((family) => {
+      const table = this.#dht.routingTable(family)
+      return {
+        family,
+        id: table.localNode.id.toString(),
+        addr: table.localNode.addr,
+        nodes: table.nodeCount,
+        buckets: table.buckets.map((bucket) => ({
+          start: bucket.start.toBigInt().toString(16).padStart(40, '0'),
+          end: bucket.end.toBigInt().toString(16).padStart(40, '0'),
+          age: now - bucket.updatedAt, // milliseconds since the bucket changed
+          nodes: bucket.nodes.map(nodeOf),
+          replacements: bucket.replacements.map(nodeOf)
+        }))
+      }
+    })
+  }
+
+  private metrics() {
+    return new Response(this.#dht.metrics(), {
+      headers: { 'content-type': 'text/plain; version=0.0.4; charset=utf-8' }
+    })
+  }
+
+  private peers(infoHash: string) {
+    const bytes = parseInfoHash(infoHash)
+    return { infoHash: encodeHex(bytes), peers: this.#dht.storedPeers(bytes).map(peerOf) }
+  }
+
+  private async lookup(request: Request) {
+    const infoHash = this.infoHashOf(await this.body(request))
+    const { peers, nodes, queried, hops } = await this.#dht.getPeers(infoHash)
+    return {
+      infoHash: encodeHex(infoHash),
+      peers: peers.map(peerOf),
+      nodes: nodes.map(({ node }) => ({ id: node.id.toString(), addr: node.addr, port: node.port })),
+      queried,
+      hops
+    }
+  }
+
+  private async announce(request: Request) {
+    const body = await this.body(request)
+    const infoHash = this.infoHashOf(body)
+    const port = this.portOf(body.port ?? this.#dht.options.port)
+    const impliedPort = body.impliedPort === true
+
+    const nodes = await this.#dht.announce(infoHash, { port, impliedPort })
+    return { infoHash: encodeHex(infoHash), port, impliedPort, nodes }
+  }
+
+  private async ping(request: Request) {
+    const { addr, port } = await this.body(request)
+    if (typeof addr !== 'string' || !isAddr(addr)) {
+      throw new HttpError(400, `addr should be an ip address, but got ${addr}`)
+    }
+    if (!this.#dht.families.includes(familyOf(addr))) {
+      throw new HttpError(400, `the ${familyOf(addr)} family is not enabled`)
+    }
+
+    const result = await this.#dht.ping(addr, this.portOf(port))
+    return { ...result, id: result.id.toString() }
+  }
+}
+
+function peerOf(peer: Peer) {
+  return { addr: peer.addr, port: peer.port }
+}
+
+/**
+ * decode a parameter of the path, e.g. the magnet link of /peers/:infohash
+ */
+function decodeParam(param: string) {
+  try {
+    return decodeURIComponent(param)
+  } catch {
+    throw new HttpError(400, `the path has a malformed escape: ${param}`)
+  }
+}
@@ -1,5 +1,6 @@
 import { BitArray, BytesUtil, NetUtil } from 'toolkit'
-import { randomSha1, sha1 } from '~/src/util/hash.ts'
+import { crc32c, randomSha1, sha1 } from '~/src/util/hash.ts'
+import { familyOf, ipStr2Bytes, isLocalAddr } from '~/src/util/net.ts'
 
 /**
  * node's id or infohash, 20 bytes sha1 hash
@@ -7,6 +8,8 @@ import { randomSha1, sha1 } from '~/src/util/hash.ts'
 export default class Id {
   static readonly BYTES_LENGTH = 20 // max size of the id in bytes
   static readonly BIT_LENGTH = Id.BYTES_LENGTH * 8 // max size of the id in bits
+  static readonly #IPV4_MASK = [0x03, 0x0f, 0x3f, 0xff] // the mask of the IPv4 address in BEP 42
+  static readonly #IPV6_MASK = [0x01, 0x03, 0x07, 0x0f, 0x1f, 0x3f, 0x7f, 0xff] // the mask of the first 8 bytes of the IPv6 address in BEP 42
   #value: BitArray // the value of the id
 
   /**
@@ -46,6 +49,15 @@ export default class Id {
     return this.#value.equals(other.#value)
   }
 
+  /**
+   * the xor distance between this id and the other id
+   * @param other
+   * @returns
+   */
+  distance(other: Id): BitArray {
+    return this.#value.xor(other.#value)
+  }
+
   /**
    * hex string
    */
@@ -72,4 +84,61 @@ export default class Id {
     }
     return Id.fromUnit8Array(sha1(new TextEncoder().encode(macAddrs[0])))
   }
+
+  /**
+   * create a id by the external ip address, see BEP 42
+   *
+   * the first 21 bits are the crc32c of the masked ip and a random number r, the last byte is random and its
+   * lowest 3 bits are r, so other nodes can verify the id belongs to the ip
+   *
+   * @param ip the external IPv4 or IPv6 address of the node
+   * @param random 20 random bytes, the bits not fixed by the ip are taken from them
+   * @returns
+   */
+  static createIdByIp(ip: string, random: Uint8Array = randomSha1()) {
+    const bytes = random.slice(0, 20)
+    const r = bytes[19] & 0x07
+    const crc = Id.ipCrc(ip, r)
+
+    bytes[0] = (crc >>> 24) & 0xff
+    bytes[1] = (crc >>> 16) & 0xff
+    bytes[2] = ((crc >>> 8) & 0xf8) | (bytes[2] & 0x07)
+
+    return Id.fromUnit8Array(bytes)
+  }
+
+  /**
+   * check the id is allowed for the ip address, see BEP 42
+   * the local addresses are exempt, any id is allowed
+   * @param ip the ip address of the node
+   * @returns
+   */
+  isValidFor(ip: string) {
+    if (isLocalAddr(ip)) {
+      return true
+    }
+
+    const bytes = this.#value.bytes
+    const crc = Id.ipCrc(ip, bytes[19] & 0x07)
+
+    return (
+      bytes[0] === ((crc >>> 24) & 0xff) &&
+      bytes[1] === ((crc >>> 16) & 0xff) &&
+      (bytes[2] & 0xf8) === ((crc >>> 8) & 0xf8)
+    )
+  }
+
+  /**
+   * the crc32c of the masked ip, the random number r is put into the top 3 bits
+   * @param ip IPv4 or IPv6 address
+   * @param r the random number in [0, 7]
+   */
+  private static ipCrc(ip: string, r: number) {
+    const mask = familyOf(ip) === 'ipv6' ? Id.#IPV6_MASK : Id.#IPV4_MASK
+    const masked = ipStr2Bytes(ip)
+      .slice(0, mask.length)
+      .map((byte, i) => byte & mask[i])
+    masked[0] |= r << 5
+    return crc32c(masked)
+  }
 }
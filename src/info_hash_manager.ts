@@ -1,93 +1,164 @@
 import Peer from '~/src/peer.ts'
-import logger from '~/src/util/log.ts'
+import { getLogger, Logger } from '~/src/util/log.ts'
 
+export type PeerStoreOptions = {
+  peerTTL?: number // how long an announced peer is kept in milliseconds, default is 30 minutes, see BEP 5
+  maxPeers?: number // the max number of peers of an infoHash, default is 100
+  maxBytes?: number // the memory budget of the store, the least recently used infoHashes are evicted, default is 64MB
+}
+
+export type StoredPeer = {
+  peer: Peer
+  expiredAt: number // the timestamp the peer expires at
+}
+
+/**
+ * InfoHashManager stores the peers announced to us
+ *
+ * an infoHash keeps one peer of an address, so a host can't fill it, the later announced port replaces the former,
+ * a peer expires if it is not announced again in the peer ttl,
+ * the infoHashes are kept in the order they are used, the least recently used one is evicted when the store
+ * exceeds the memory budget
+ */
 export default class InfoHashManager {
-  static #INSTANCE = new InfoHashManager()
-  #infoHashes: Map<string, Set<Peer>> = new Map()
-  #tokenMap: Map<string, string> = new Map()
-  #MAX_PEER_NUM_EACH_INFO_HASH = 100 // the max number of peers of a infoHash
-  #MAX_INFO_HASH_NUM = 1024 * 1024 // the max number of infoHashes
-  private constructor() {}
-
-  static get() {
-    return this.#INSTANCE
+  static INFO_HASH_BYTES = 200 // the estimated memory of an infoHash entry
+  static PEER_BYTES = 150 // the estimated memory of a peer entry
+  #infoHashes = new Map<string, Map<string, StoredPeer>>() // <infoHash hex string, <addr, peer>>
+  #peerTTL: number
+  #maxPeers: number
+  #maxBytes: number
+  #peerCount = 0
+  #logger: Logger
+
+  /**
+   * @param options
+   * @param logger default is the shared storage logger
+   */
+  constructor(
+    { peerTTL = 30 * 60 * 1000, maxPeers = 100, maxBytes = 64 * 1024 * 1024 }: PeerStoreOptions = {},
+    logger = getLogger('storage')
+  ) {
+    this.#logger = logger
+    this.#peerTTL = peerTTL
+    this.#maxPeers = maxPeers
+    this.#maxBytes = maxBytes
   }
 
   /**
-   * get all peers of the infoHash
-   * @param infoHash hex string
-   * @returns
+   * the number of infoHashes
    */
-  find(infoHash: string) {
-    if (!this.#infoHashes.has(infoHash)) {
-      logger.error(`the infoHash ${infoHash} does not exist`)
-      return undefined
-    }
+  get size() {
+    return this.#infoHashes.size
+  }
+
+  /**
+   * the number of peers of all infoHashes
+   */
+  get peerCount() {
+    return this.#peerCount
+  }
 
-    return Array.from(this.#infoHashes.get(infoHash)!)
+  /**
+   * the estimated memory used by the store
+   */
+  get bytes() {
+    return this.#infoHashes.size * InfoHashManager.INFO_HASH_BYTES + this.#peerCount * InfoHashManager.PEER_BYTES
   }
 
-  findToken(infoHash: string) {
-    return this.#tokenMap.get(infoHash)
+  /**
+   * get all infoHashes and their live peers with the expiry
+   * @returns [infoHash hex string, peers]
+   */
+  entries(): [string, StoredPeer[]][] {
+    this.prune()
+    return Array.from(this.#infoHashes, ([infoHash, peers]) => [
+      infoHash,
+      Array.from(peers.values(), (p) => ({ ...p }))
+    ])
   }
 
-  addList(infoHash: string, peers: Peer[], token: string) {
-    for (const peer of peers) {
-      this.add(infoHash, peer, token)
+  /**
+   * get a random sample of the infoHashes
+   * @param count the max number of infoHashes in the sample
+   * @returns hex strings
+   */
+  sample(count: number) {
+    const infoHashes = Array.from(this.#infoHashes.keys())
+
+    // partial fisher-yates shuffle, only the first count items are shuffled
+    const size = Math.min(count, infoHashes.length)
+    for (let i = 0; i < size; i++) {
+      const j = i + Math.floor(Math.random() * (infoHashes.length - i))
+      ;[infoHashes[i], infoHashes[j]] = [infoHashes[j], infoHashes[i]]
     }
+
+    return infoHashes.slice(0, size)
   }
 
   /**
-   * add a peer to the infoHash
+   * get the live peers of the infoHash, the infoHash becomes the most recently used
    * @param infoHash hex string
-   * @param peer Peer
+   * @returns undefined if the infoHash has no live peer
    */
-  add(infoHash: string, peer: Peer, token: string) {
-    if (this.#infoHashes.size >= this.#MAX_INFO_HASH_NUM) {
-      logger.error(
-        `the number of infoHashes exceeds the limit ${this.#MAX_INFO_HASH_NUM}, ignore ${infoHash}:${peer.addr}:${
-          peer.port
-        }`
-      )
-      return
+  find(infoHash: string) {
+    const peers = this.#infoHashes.get(infoHash)
+    if (!peers) {
+      return undefined
     }
 
-    const prevToken = this.#tokenMap.get(infoHash)
-
-    // check token
-    if (prevToken && prevToken !== token) {
-      logger.error(
-        `the token of ${infoHash} [${token}] is not equal to [${prevToken}], ignore ${peer.addr}:${peer.port}`
-      )
-      return
+    this.dropExpired(infoHash, peers, Date.now())
+    if (peers.size === 0) {
+      return undefined
     }
 
-    let peers = this.#infoHashes.get(infoHash)
+    this.touch(infoHash, peers)
+    return Array.from(peers.values(), (p) => p.peer)
+  }
 
-    // check the number of peers
-    if (peers && peers.size >= this.#MAX_PEER_NUM_EACH_INFO_HASH) {
-      logger.error(
-        `the number of peers of ${infoHash} exceeds the limit ${this.#MAX_PEER_NUM_EACH_INFO_HASH}, ignore ${
-          peer.addr
-        }:${peer.port}`
-      )
-      return
+  addList(infoHash: string, peers: Peer[]) {
+    for (const peer of peers) {
+      this.add(infoHash, peer)
     }
+  }
 
-    // create a new set if the infoHash does not exist
+  /**
+   * add a peer to the infoHash, the peer of the same address is refreshed with the new port
+   * @param infoHash hex string
+   * @param peer Peer
+   * @param expiredAt default is the peer ttl from now, the restored peers keep their saved one,
+   * they are added in the order of it, since the first peers are expected to expire first
+   */
+  add(infoHash: string, peer: Peer, expiredAt = Date.now() + this.#peerTTL) {
+    let peers = this.#infoHashes.get(infoHash)
     if (!peers) {
-      peers = new Set()
-      this.#infoHashes.set(infoHash, peers)
+      peers = new Map()
     }
 
-    // set token
-    if (!prevToken) {
-      this.#tokenMap.set(infoHash, token)
+    const key = peer.addr
+    const known = peers.delete(key)
+
+    if (!known && peers.size >= this.#maxPeers) {
+      // the live peers are kept, the new peer is ignored
+      this.dropExpired(infoHash, peers, Date.now())
+      if (peers.size >= this.#maxPeers) {
+        this.#logger.debug('the number of peers exceeds the limit, ignore the peer', {
+          infoHash,
+          peer: `${peer.addr}:${peer.port}`,
+          limit: this.#maxPeers
+        })
+        this.touch(infoHash, peers)
+        return
+      }
     }
 
-    peers.add(peer)
+    // the latest announced peer is the last
+    peers.set(key, { peer, expiredAt })
+    if (!known) {
+      this.#peerCount++
+    }
+    this.touch(infoHash, peers)
 
-    logger.info(`current number of infoHashes: ${this.#infoHashes.size}`)
+    this.evict()
   }
 
   /**
@@ -95,11 +166,57 @@ export default class InfoHashManager {
    * @param infoHash hex string
    */
   remove(infoHash: string) {
-    if (!this.#infoHashes.has(infoHash)) {
-      logger.warn(`the infoHash ${infoHash} does not exist, delete failed`)
+    const peers = this.#infoHashes.get(infoHash)
+    if (!peers) {
+      this.#logger.warn('the infoHash does not exist, delete failed', { infoHash })
       return
     }
+    this.#peerCount -= peers.size
+    this.#infoHashes.delete(infoHash)
+  }
+
+  /**
+   * drop the expired peers of all infoHashes, and the infoHashes without peers
+   */
+  prune() {
+    const now = Date.now()
+    for (const [infoHash, peers] of this.#infoHashes) {
+      this.dropExpired(infoHash, peers, now)
+    }
+  }
+
+  /**
+   * move the infoHash to the end, the first one is the least recently used
+   */
+  private touch(infoHash: string, peers: Map<string, StoredPeer>) {
     this.#infoHashes.delete(infoHash)
-    this.#tokenMap.delete(infoHash)
+    this.#infoHashes.set(infoHash, peers)
+  }
+
+  private dropExpired(infoHash: string, peers: Map<string, StoredPeer>, now: number) {
+    // the peers are in the order they are announced, so the expired ones are the first
+    for (const [key, { expiredAt }] of peers) {
+      if (expiredAt >= now) break
+      peers.delete(key)
+      this.#peerCount--
+    }
+
+    if (peers.size === 0) {
+      this.#infoHashes.delete(infoHash)
+    }
+  }
+
+  /**
+   * evict the least recently used infoHashes until the store is within the memory budget
+   */
+  private evict() {
+    while (this.bytes > this.#maxBytes && this.#infoHashes.size > 1) {
+      const infoHash = this.#infoHashes.keys().next().value!
+      this.#logger.debug('the peer store exceeds the memory budget, evict the info hash', {
+        infoHash,
+        maxBytes: this.#maxBytes
+      })
+      this.remove(infoHash)
+    }
   }
 }
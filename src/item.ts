@@ -0,0 +1,168 @@
+import { Bencoder } from 'bencode'
+import { concat } from 'std/bytes/concat.ts'
+import { crypto } from 'std/crypto/mod.ts'
+import Id from '~/src/id.ts'
+import { sha1 } from '~/src/util/hash.ts'
+
+/**
+ * any bencodable value
+ */
+export type ItemValue = Uint8Array | string | number | ItemValue[] | { [key: string]: ItemValue }
+
+/**
+ * Item is the arbitrary data stored in the dht, see BEP 44
+ *
+ * an immutable item is keyed by the sha1 hash of the bencoded value,
+ * a mutable item is keyed by the sha1 hash of the ed25519 public key and the salt, and signed with the sequence number
+ */
+export default class Item {
+  static MAX_VALUE_LENGTH = 1000 // the max length of the bencoded value in bytes
+  static MAX_SALT_LENGTH = 64 // the max length of the salt in bytes
+  static PUBLIC_KEY_LENGTH = 32 // the length of the ed25519 public key in bytes
+  static SIGNATURE_LENGTH = 64 // the length of the ed25519 signature in bytes
+  static #encoder = new Bencoder()
+  readonly value: ItemValue // the value, "v"
+  readonly publicKey?: Uint8Array // the ed25519 public key, "k", only for mutable item
+  readonly salt?: Uint8Array // the salt, "salt", only for mutable item
+  readonly seq?: number // the sequence number, "seq", only for mutable item
+  readonly signature?: Uint8Array // the signature of the salt, the seq and the value, "sig", only for mutable item
+
+  constructor(
+    value: ItemValue,
+    mutable?: { publicKey: Uint8Array; seq: number; signature: Uint8Array; salt?: Uint8Array }
+  ) {
+    this.value = value
+    this.publicKey = mutable?.publicKey
+    this.seq = mutable?.seq
+    this.signature = mutable?.signature
+    // an empty salt is the same as no salt
+    this.salt = mutable?.salt && mutable.salt.length > 0 ? mutable.salt : undefined
+  }
+
+  get isMutable() {
+    return this.publicKey !== undefined
+  }
+
+  /**
+   * create an item from the fields of a put query or a get response
+   * @param fields the v, k, sig and seq fields
+   * @param salt the salt of the mutable item
+   * @returns the item, or undefined if there is no value
+   */
+  static from(
+    fields: { v?: ItemValue; k?: Uint8Array; sig?: Uint8Array; seq?: number },
+    salt?: Uint8Array
+  ): Item | undefined {
+    const { v, k, sig, seq } = fields
+    if (v === undefined) {
+      return undefined
+    }
+    if (k === undefined) {
+      return new Item(v)
+    }
+    return new Item(v, { publicKey: k, seq: seq ?? -1, signature: sig ?? new Uint8Array(), salt })
+  }
+
+  /**
+   * create an immutable item
+   * @param value
+   */
+  static immutable(value: ItemValue) {
+    return new Item(value)
+  }
+
+  /**
+   * create a mutable item signed by the key pair
+   * @param keyPair the ed25519 key pair
+   * @param value
+   * @param seq the sequence number, must be increased on each update
+   * @param salt the salt, used to store multiple items with the same key pair
+   */
+  static async mutable(keyPair: CryptoKeyPair, value: ItemValue, seq: number, salt?: Uint8Array) {
+    const publicKey = new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey))
+    const payload = await Item.signaturePayload(value, seq, salt)
+    const signature = new Uint8Array(await crypto.subtle.sign('Ed25519', keyPair.privateKey, payload))
+
+    return new Item(value, { publicKey, seq, signature, salt })
+  }
+
+  /**
+   * the target of the mutable item
+   * @param publicKey the ed25519 public key
+   * @param salt
+   */
+  static mutableTarget(publicKey: Uint8Array, salt?: Uint8Array) {
+    return Id.fromUnit8Array(sha1(salt ? concat(publicKey, salt) : publicKey))
+  }
+
+  /**
+   * the key of the item in the dht
+   */
+  async target(): Promise<Id> {
+    if (this.publicKey) {
+      return Item.mutableTarget(this.publicKey, this.salt)
+    }
+    return Id.fromUnit8Array(sha1(await this.bencodedValue()))
+  }
+
+  async bencodedValue(): Promise<Uint8Array> {
+    return await Item.#encoder.e(this.value)
+  }
+
+  /**
+   * check the item is signed by its public key, the immutable item is always valid
+   * @returns
+   */
+  async isSigned(): Promise<boolean> {
+    if (!this.isMutable) {
+      return true
+    }
+
+    if (
+      this.publicKey!.length !== Item.PUBLIC_KEY_LENGTH ||
+      this.signature?.length !== Item.SIGNATURE_LENGTH ||
+      typeof this.seq !== 'number'
+    ) {
+      return false
+    }
+
+    try {
+      const key = await crypto.subtle.importKey('raw', this.publicKey!, 'Ed25519', false, ['verify'])
+      const payload = await Item.signaturePayload(this.value, this.seq, this.salt)
+      return await crypto.subtle.verify('Ed25519', key, this.signature, payload)
+    } catch (_) {
+      return false
+    }
+  }
+
+  /**
+   * check the item belongs to the target and is signed
+   * @param target
+   */
+  async isValidFor(target: Id): Promise<boolean> {
+    return (await this.target()).equals(target) && (await this.isSigned())
+  }
+
+  /**
+   * check the mutable item can replace the stored one of the same target, see BEP 44
+   * an older sequence number is rejected, so is an equal one with a different value, the cas doesn't change it
+   * @param stored the stored item
+   */
+  async canReplace(stored: Item): Promise<boolean> {
+    if (this.seq! !== stored.seq!) {
+      return this.seq! > stored.seq!
+    }
+    const [value, storedValue] = await Promise.all([this.bencodedValue(), stored.bencodedValue()])
+    return value.length === storedValue.length && value.every((byte, i) => byte === storedValue[i])
+  }
+
+  /**
+   * the signed bytes are the bencoded salt, seq and v without the outer dictionary,
+   * e.g. 4:salt6:foobar3:seqi1e1:v12:Hello World!
+   */
+  private static async signaturePayload(value: ItemValue, seq: number, salt?: Uint8Array) {
+    const encoder = new TextEncoder()
+    const saltPart = salt && salt.length > 0 ? concat(encoder.encode(`4:salt${salt.length}:`), salt) : new Uint8Array()
+    return concat(saltPart, encoder.encode(`3:seqi${seq}e1:v`), await Item.#encoder.e(value))
+  }
+}
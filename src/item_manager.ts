@@ -0,0 +1,98 @@
+import Item from '~/src/item.ts'
+import { getLogger, Logger } from '~/src/util/log.ts'
+
+export type ItemStoreOptions = {
+  ttl?: number // how long an item is kept if it is not put again in milliseconds, default is 2 hours
+  maxItems?: number // the max number of items, default is 65536
+}
+
+/**
+ * ItemManager stores the items put by other nodes, see BEP 44
+ * an item expires if it is not put again in the ttl
+ */
+export default class ItemManager {
+  #items: Map<string, { item: Item; expiredAt: number }> = new Map() // <target hex string, item>
+  #ttl: number
+  #maxItems: number
+  #logger: Logger
+
+  /**
+   * @param options
+   * @param logger default is the shared storage logger
+   */
+  constructor(
+    { ttl = 2 * 60 * 60 * 1000, maxItems = 64 * 1024 }: ItemStoreOptions = {},
+    logger = getLogger('storage')
+  ) {
+    this.#logger = logger
+    this.#ttl = ttl
+    this.#maxItems = maxItems
+  }
+
+  /**
+   * the number of items
+   */
+  get size() {
+    return this.#items.size
+  }
+
+  /**
+   * get the item of the target
+   * @param target hex string
+   * @returns
+   */
+  find(target: string) {
+    const stored = this.#items.get(target)
+    if (!stored) {
+      return undefined
+    }
+
+    if (stored.expiredAt < Date.now()) {
+      this.#items.delete(target)
+      return undefined
+    }
+
+    return stored.item
+  }
+
+  /**
+   * store the item, replace the former one of the same target
+   * the expired items are dropped first when the store is full
+   * @param target hex string
+   * @param item
+   * @returns false if the store is full and the item is ignored
+   */
+  put(target: string, item: Item) {
+    if (!this.#items.has(target) && this.#items.size >= this.#maxItems) {
+      this.prune()
+    }
+
+    if (!this.#items.has(target) && this.#items.size >= this.#maxItems) {
+      this.#logger.warn('the number of items exceeds the limit, ignore the item', { target, limit: this.#maxItems })
+      return false
+    }
+
+    this.#items.set(target, { item, expiredAt: Date.now() + this.#ttl })
+    return true
+  }
+
+  /**
+   * drop the expired items
+   */
+  prune() {
+    const now = Date.now()
+    for (const [target, { expiredAt }] of this.#items) {
+      if (expiredAt < now) {
+        this.#items.delete(target)
+      }
+    }
+  }
+
+  /**
+   * delete the item of the target
+   * @param target hex string
+   */
+  remove(target: string) {
+    this.#items.delete(target)
+  }
+}
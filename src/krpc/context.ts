@@ -0,0 +1,32 @@
+import BlackListManager from '~/src/black_list_manager.ts'
+import DHTEvents from '~/src/dht_events.ts'
+import ExternalIpManager from '~/src/external_ip_manager.ts'
+import InfoHashManager from '~/src/info_hash_manager.ts'
+import ItemManager from '~/src/item_manager.ts'
+import Metrics from '~/src/metrics.ts'
+import TokenManager from '~/src/token_manager.ts'
+import { Loggers } from '~/src/util/log.ts'
+import TranscationManager, { Request } from '~/src/krpc/transcation_manager.ts'
+import { DHTConfig } from '~/src/options.ts'
+import RateLimiter from '~/src/rate_limiter.ts'
+import RoutingTable from '~/src/routing_table.ts'
+import { AddrFamily } from '~/src/util/net.ts'
+
+/**
+ * the state owned by a dht instance, shared by its krpc of each family and their handlers
+ */
+export type KRPCContext = {
+  options: Readonly<DHTConfig> // the settings of the dht
+  routingTables: Map<AddrFamily, RoutingTable> // the routing table of each enabled family
+  transcations: TranscationManager<Request> // the queries waiting for the response
+  infoHashes: InfoHashManager // the peers announced to us
+  items: ItemManager // the items put to us, see BEP 44
+  tokens: TokenManager // the tokens of get_peers and get responses
+  externalIps: ExternalIpManager // the votes of our external ip, see BEP 42
+  events: DHTEvents // emits what happened, it's the dht itself
+  blackList: BlackListManager // the banned ips, their queries are dropped
+  inboundLimiter: RateLimiter // limits the queries received
+  outboundLimiter: RateLimiter // limits the messages sent
+  metrics: Metrics // counts the messages, errors and timeouts
+  loggers: Loggers // the loggers of the dht, the shared ones unless the log options are given
+}
@@ -0,0 +1,44 @@
+import { ErrorType } from '~/src/message_factory.ts'
+
+/**
+ * the queried node answered with a krpc error message
+ */
+export class KRPCError extends Error {
+  readonly code: ErrorType | number // the error code of the krpc error message
+
+  constructor(code: ErrorType | number, message: string) {
+    super(`${code} ${message}`)
+    this.name = 'KRPCError'
+    this.code = code
+  }
+}
+
+/**
+ * the dht is closed before the query is answered
+ */
+export class ClosedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ClosedError'
+  }
+}
+
+/**
+ * the message is not sent, it exceeds the outbound rate limit
+ */
+export class RateLimitError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RateLimitError'
+  }
+}
+
+/**
+ * the queried node did not answer in time
+ */
+export class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TimeoutError'
+  }
+}
@@ -1,7 +1,6 @@
+import { KRPCError } from '~/src/krpc/error.ts'
 import { MessageHandler } from '~/src/krpc/krpc.ts'
-import TranscationManager from '~/src/krpc/transcation_manager.ts'
-import { Message, MessageType } from '~/src/message_factory.ts'
-import logger from '~/src/util/log.ts'
+import { ErrorType, Message, MessageType } from '~/src/message_factory.ts'
 import Sender from '~/src/krpc/sender.ts'
 
 export default class ErrorResponseHandler implements MessageHandler {
@@ -10,28 +9,47 @@ export default class ErrorResponseHandler implements MessageHandler {
     return MessageType.ERROR
   }
 
-  handle(response: Message, address: string, port: number, client: Sender): Promise<void> {
-    logger.warn(`[<======ERROR] received invalid error from ${address}:${port}`)
+  private get logger() {
+    return this.#sender.context.loggers.get('krpc')
+  }
 
+  handle(response: Message, address: string, port: number, client: Sender): Promise<void> {
     if (!this.#sender) {
       this.#sender = client
     }
 
     const { e: error, t: tid } = response
 
-    if (!tid || TranscationManager.get().isValid(tid)) {
-      logger.warn(`[${tid}] received invalid error from ${address}:${port}`)
+    if (!tid || !this.#sender.context.transcations.isValid(tid)) {
+      this.logger.warn('drop the error of an unknown or expired tid', { tid, addr: address, port })
+      return Promise.resolve()
+    }
+
+    const request = this.#sender.context.transcations.getData(tid)
+
+    // only the queried node can answer, otherwise anyone could guess the tid and fail the query
+    if (request && (request.addr !== address || request.port !== port)) {
+      this.logger.warn('drop the error which is not from the queried node', {
+        tid,
+        query: request.type,
+        addr: address,
+        port
+      })
       return Promise.resolve()
     }
 
     // finish transcation
-    TranscationManager.get().finish(tid)
+    this.#sender.context.transcations.finish(tid)
 
     if (error) {
       const [errorCode, errorMessage] = error
-      logger.error(`[${tid}] received error from ${address}:${port}: ${errorCode} ${errorMessage}`)
+      this.logger.debug('received the error', { tid, query: request?.type, addr: address, port, code: errorCode })
+      // the error message may be decoded as bytes
+      const text = typeof errorMessage === 'string' ? errorMessage : new TextDecoder().decode(errorMessage)
+      request?.reject?.(new KRPCError(errorCode, text))
     } else {
-      logger.error(`[${tid}] received error from ${address}:${port}: unknown error`)
+      this.logger.debug('received the error without code', { tid, query: request?.type, addr: address, port })
+      request?.reject?.(new KRPCError(ErrorType.GENERIC, 'unknown error'))
     }
 
     return Promise.resolve()
@@ -1,21 +1,27 @@
 import Id from '~/src/id.ts'
-import InfoHashManager from '~/src/info_hash_manager.ts'
+import Item from '~/src/item.ts'
 import { MessageHandler } from '~/src/krpc/krpc.ts'
 import Sender from '~/src/krpc/sender.ts'
 import MessageFactory, { ErrorType, Message, MessageType, QueryType } from '~/src/message_factory.ts'
 import Node from '~/src/node.ts'
 import Peer from '~/src/peer.ts'
-import RoutingTable from '~/src/routing_table.ts'
-import logger from '~/src/util/log.ts'
+import { AddrFamily, familyOf } from '~/src/util/net.ts'
+import { decodeHex } from 'std/encoding/hex.ts'
 import { BytesUtil } from 'toolkit'
 
 export default class RequestHandler implements MessageHandler {
+  static SAMPLE_INTERVAL = 6 * 60 * 60 // 6 hours in seconds, the interval of sample_infohashes, see BEP 51
+  static MAX_SAMPLES = 20 // the max count of info hashes in a sample, to keep the response in a udp packet
   #sender!: Sender
 
   getHandleMessageType(): MessageType {
     return MessageType.QUERY
   }
 
+  private get logger() {
+    return this.#sender.context.loggers.get('krpc')
+  }
+
   async handle(reqMsg: Message, addr: string, port: number, sender: Sender): Promise<void> {
     if (!this.#sender) {
       this.#sender = sender
@@ -26,7 +32,7 @@ export default class RequestHandler implements MessageHandler {
     const reqNodeId = data?.id as Uint8Array
 
     if (!Id.isValidId(reqNodeId)) {
-      logger.warn(`invalid node id: ${reqNodeId}, which from ${addr}:${port}]`)
+      this.logger.warn('invalid node id', { tid, query: type, addr, port })
 
       await sender.sendMessage(port, addr, MessageFactory.responseError(tid, ErrorType.PROTOCOL, 'invalid node id'))
       return Promise.resolve()
@@ -34,44 +40,54 @@ export default class RequestHandler implements MessageHandler {
 
     const reqNode = new Node(Id.fromUnit8Array(reqNodeId), port, addr)
 
+    // the querying node is learned, and the one which ever responded to us stays good
+    this.#sender.routingTable.markQueried(reqNode)
+    this.#sender.context.events.emit('query', { type: type!, addr, port, id: reqNode.id })
+
+    // the handler is awaited, so its error is caught by the krpc instead of crashing the process
     switch (type) {
       case QueryType.PING:
-        this.handlePingQueryRequest(reqMsg, reqNode, tid)
+        await this.handlePingQueryRequest(reqMsg, reqNode, tid)
         break
       case QueryType.FIND_NODE:
-        this.handleFindNodeQueryRequest(reqMsg, reqNode, tid)
+        await this.handleFindNodeQueryRequest(reqMsg, reqNode, tid)
         break
       case QueryType.GET_PEERS:
-        this.handleGetPeersQueryRequest(reqMsg, reqNode, tid)
+        await this.handleGetPeersQueryRequest(reqMsg, reqNode, tid)
         break
       case QueryType.ANNOUNCE_PEER:
-        this.handleAnnouncePeerQueryRequest(reqMsg, reqNode, tid)
+        await this.handleAnnouncePeerQueryRequest(reqMsg, reqNode, tid)
+        break
+      case QueryType.GET:
+        await this.handleGetQueryRequest(reqMsg, reqNode, tid)
+        break
+      case QueryType.PUT:
+        await this.handlePutQueryRequest(reqMsg, reqNode, tid)
+        break
+      case QueryType.SAMPLE_INFOHASHES:
+        await this.handleSampleInfoHashesQueryRequest(reqMsg, reqNode, tid)
         break
       default:
-        logger.error(`unknown query type: ${type}`)
+        this.logger.warn('unknown query type', { tid, query: type, addr, port })
     }
 
     return Promise.resolve()
   }
 
   // handle the ping query request from other node
-  async handlePingQueryRequest(reqMsg: Message, reqNode: Node, tid: string) {
-    logger.info(`[<======QUERY-PING-${reqMsg.q}] received from ${reqNode.addr}:${reqNode.port}`)
-
+  async handlePingQueryRequest(_reqMsg: Message, reqNode: Node, tid: string) {
     // return local node id
-    const response = MessageFactory.responsePing(tid)
+    const response = MessageFactory.responsePing(tid, this.#sender.localId)
 
     await this.#sender.sendMessage(reqNode.port, reqNode.addr, response)
   }
 
   async handleFindNodeQueryRequest(reqMsg: Message, reqNode: Node, tid: string) {
-    logger.info(`[<======QUERY-FIND_NODE-${reqMsg.q}] received from ${reqNode.addr}:${reqNode.port}`)
-
     // find closest nodes from k-buckets by request target node id
     const targetIdBytes = reqMsg.a?.target
 
     if (!targetIdBytes) {
-      logger.error(`[${tid}]: invalid target id: ${targetIdBytes}`)
+      this.logger.warn('invalid target id', { tid, query: reqMsg.q, addr: reqNode.addr, port: reqNode.port })
       await this.#sender.sendMessage(
         reqNode.port,
         reqNode.addr,
@@ -81,7 +97,7 @@ export default class RequestHandler implements MessageHandler {
     }
 
     if (!Id.isValidId(targetIdBytes)) {
-      logger.error(`[${tid}]: invalid target id: ${targetIdBytes}`)
+      this.logger.warn('invalid target id', { tid, query: reqMsg.q, addr: reqNode.addr, port: reqNode.port })
       await this.#sender.sendMessage(
         reqNode.port,
         reqNode.addr,
@@ -92,10 +108,11 @@ export default class RequestHandler implements MessageHandler {
 
     const targetId = Id.fromUnit8Array(targetIdBytes)
 
-    const cloestNodes = RoutingTable.get().findClosestNodes(targetId, 8)
+    const { nodes, nodes6 } = this.findClosestNodes(reqMsg, targetId)
+    const cloestNodes = [...nodes, ...nodes6]
 
-    if (!cloestNodes || cloestNodes.length === 0) {
-      logger.error(`[${tid}]: not found closest nodes for target id: ${targetId}`)
+    if (cloestNodes.length === 0) {
+      this.logger.warn('no closest node is found', { tid, query: reqMsg.q, target: targetId })
       await this.#sender.sendMessage(
         reqNode.port,
         reqNode.addr,
@@ -103,35 +120,62 @@ export default class RequestHandler implements MessageHandler {
       )
       return
     } else {
-      logger.info(`[${tid}]: find ${cloestNodes.length} closest nodes for target id: ${targetId}`)
+      this.logger.debug('found the closest nodes', {
+        tid,
+        query: reqMsg.q,
+        target: targetId,
+        nodes: cloestNodes.length
+      })
     }
 
     // response to request node
-    await this.#sender.sendMessage(reqNode.port, reqNode.addr, MessageFactory.responseFindNode(tid, cloestNodes))
+    await this.#sender.sendMessage(
+      reqNode.port,
+      reqNode.addr,
+      MessageFactory.responseFindNode(tid, this.#sender.localId, nodes, nodes6)
+    )
   }
 
   async handleGetPeersQueryRequest(reqMsg: Message, reqNode: Node, tid: string) {
-    logger.info(`[<======QUERY-GET_PEERS-${reqMsg.q}] received from ${reqNode.addr}:${reqNode.port}`)
-
     const infoHash = reqMsg.a?.info_hash as Uint8Array
+
+    if (!Id.isValidId(infoHash)) {
+      this.logger.warn('invalid info hash', { tid, query: reqMsg.q, addr: reqNode.addr, port: reqNode.port })
+      await this.#sender.sendMessage(
+        reqNode.port,
+        reqNode.addr,
+        MessageFactory.responseError(tid, ErrorType.PROTOCOL, 'invalid info hash')
+      )
+      return
+    }
+
     const infoHashHex = BytesUtil.bytes2HexStr(infoHash)
-    const peers = InfoHashManager.get().find(infoHashHex)
-    const token = InfoHashManager.get().findToken(infoHashHex)
+    // only the peers of the same family as the request node are returned
+    const peers = this.#sender.context.infoHashes
+      .find(infoHashHex)
+      ?.filter((peer) => familyOf(peer.addr) === this.#sender.family)
+    // the token is bound to the ip of the request node, it must be sent back in the announce_peer query
+    const token = this.#sender.context.tokens.generate(reqNode.addr)
 
     let response: MessageFactory
     if (peers && peers.length > 0) {
-      logger.info(`[${tid}]: find ${peers.length} peers for info hash: ${infoHashHex}}`)
-      // return closest nodes
-      response = MessageFactory.responseGetPeers(tid, peers, undefined, token)
+      this.logger.debug('found the peers', { tid, query: reqMsg.q, infoHash: infoHashHex, peers: peers.length })
+      // return peers
+      response = MessageFactory.responseGetPeers(tid, this.#sender.localId, token, peers)
     } else {
-      const cloestNodes = RoutingTable.get().findClosestNodes(Id.fromUnit8Array(infoHash), 8)
+      const { nodes, nodes6 } = this.findClosestNodes(reqMsg, Id.fromUnit8Array(infoHash))
 
-      if (cloestNodes && cloestNodes.length > 0) {
-        logger.info(`[${tid}]: find ${cloestNodes.length} nodes for info hash: ${infoHashHex}}`)
-        // return peers
-        response = MessageFactory.responseGetPeers(tid, undefined, cloestNodes, undefined)
+      if (nodes.length + nodes6.length > 0) {
+        this.logger.debug('found the closest nodes', {
+          tid,
+          query: reqMsg.q,
+          infoHash: infoHashHex,
+          nodes: nodes.length + nodes6.length
+        })
+        // return closest nodes
+        response = MessageFactory.responseGetPeers(tid, this.#sender.localId, token, undefined, nodes, nodes6)
       } else {
-        logger.error(`[${tid}]: can not find peers or nodes for info hash: ${infoHashHex}}`)
+        this.logger.warn('no peer or node is found', { tid, query: reqMsg.q, infoHash: infoHashHex })
         response = MessageFactory.responseError(
           tid,
           ErrorType.GENERIC,
@@ -145,14 +189,12 @@ export default class RequestHandler implements MessageHandler {
   }
 
   async handleAnnouncePeerQueryRequest(reqMsg: Message, reqNode: Node, tid: string) {
-    logger.info(`[<======QUERY-ANNOUNCE_PEER-${reqMsg.q}] received from ${reqNode.addr}:${reqNode.port}`)
-
     const infoHash = reqMsg.a?.info_hash as Uint8Array
     const port = reqMsg.a?.port as number // reqNode download port for bittorrent
-    const token = reqMsg.t as string // token of the info hash
+    const token = reqMsg.a?.token // token received in the get_peers response
 
     if (!Id.isValidId(infoHash)) {
-      logger.error(`[${tid}]: invalid info hash: ${infoHash}`)
+      this.logger.warn('invalid info hash', { tid, query: reqMsg.q, addr: reqNode.addr, port: reqNode.port })
       await this.#sender.sendMessage(
         reqNode.port,
         reqNode.addr,
@@ -161,8 +203,9 @@ export default class RequestHandler implements MessageHandler {
       return
     }
 
-    if (!port) {
-      logger.error(`[${tid}]: invalid port: ${port}`)
+    // the port is checked even if the implied port is used, it's required by BEP 5
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      this.logger.warn('invalid port', { tid, query: reqMsg.q, addr: reqNode.addr, port: reqNode.port, peerPort: port })
       await this.#sender.sendMessage(
         reqNode.port,
         reqNode.addr,
@@ -171,13 +214,15 @@ export default class RequestHandler implements MessageHandler {
       return
     }
 
-    if (!token) {
-      logger.error(`[${tid}]: invalid token: ${token}`)
+    // the token must be generated for the ip of the request node in the recent get_peers response
+    if (!this.#sender.context.tokens.isValid(reqNode.addr, token)) {
+      this.logger.warn('invalid token', { tid, query: reqMsg.q, addr: reqNode.addr, port: reqNode.port })
+      this.#sender.context.blackList.strike(reqNode.addr, 'bad token')
 
       await this.#sender.sendMessage(
         reqNode.port,
         reqNode.addr,
-        MessageFactory.responseError(tid, ErrorType.PROTOCOL, 'invalid token')
+        MessageFactory.responseError(tid, ErrorType.PROTOCOL, 'bad token')
       )
 
       return
@@ -187,28 +232,185 @@ export default class RequestHandler implements MessageHandler {
     // if the node is behind a NAT, the sender port is the public port, the download port is the private port, at this time, the implied_port should be 1
     const impliedPort = (reqMsg.a?.implied_port as number) || 0
 
-    // validate the token of the info hash
-    const tokenOfInfoHash = InfoHashManager.get().findToken(BytesUtil.bytes2HexStr(infoHash))
+    const infoHashHex = BytesUtil.bytes2HexStr(infoHash)
+
+    const downloadPort = impliedPort === 1 ? reqNode.port : port
+
+    // store the peer
+    const peer = new Peer(downloadPort, reqNode.addr)
+    this.#sender.context.infoHashes.add(infoHashHex, peer)
+    this.#sender.context.events.emit('announce', { infoHash, peer, id: reqNode.id })
 
-    if (tokenOfInfoHash && tokenOfInfoHash !== token) {
-      logger.error(`[${tid}]: invalid token: ${token}`)
+    // response to the request node
+    await this.#sender.sendMessage(
+      reqNode.port,
+      reqNode.addr,
+      MessageFactory.responseAnnouncePeer(tid, this.#sender.localId)
+    )
+  }
 
+  async handleGetQueryRequest(reqMsg: Message, reqNode: Node, tid: string) {
+    const targetBytes = reqMsg.a?.target
+
+    if (!Id.isValidId(targetBytes)) {
+      this.logger.warn('invalid target', { tid, query: reqMsg.q, addr: reqNode.addr, port: reqNode.port })
       await this.#sender.sendMessage(
         reqNode.port,
         reqNode.addr,
-        MessageFactory.responseError(tid, ErrorType.PROTOCOL, 'token not match')
+        MessageFactory.responseError(tid, ErrorType.PROTOCOL, 'invalid target')
       )
       return
     }
 
-    const infoHashHex = BytesUtil.bytes2HexStr(infoHash)
+    const target = Id.fromUnit8Array(targetBytes!)
+    const item = this.#sender.context.items.find(target.toString())
+    const { nodes, nodes6 } = this.findClosestNodes(reqMsg, target)
+    // the token is bound to the ip of the request node, it must be sent back in the put query
+    const token = this.#sender.context.tokens.generate(reqNode.addr)
 
-    const downloadPort = impliedPort === 1 ? reqNode.port : port
+    // the querier already has the newest mutable item, only return the sequence number
+    const seq = reqMsg.a?.seq
+    const onlySeq = !!item?.isMutable && typeof seq === 'number' && item.seq! <= seq
 
-    // store the peer
-    InfoHashManager.get().add(infoHashHex, new Peer(downloadPort, reqNode.addr), token)
+    this.logger.debug(item ? 'found the item' : 'the item is not found', { tid, query: reqMsg.q, target })
 
-    // response to the request node
-    await this.#sender.sendMessage(reqNode.port, reqNode.addr, MessageFactory.responseAnnouncePeer(tid))
+    await this.#sender.sendMessage(
+      reqNode.port,
+      reqNode.addr,
+      MessageFactory.responseGet(tid, this.#sender.localId, token, item, nodes, nodes6, onlySeq)
+    )
+  }
+
+  async handlePutQueryRequest(reqMsg: Message, reqNode: Node, tid: string) {
+    const sendError = (errorType: ErrorType, errorMessage: string) => {
+      this.logger.warn('put failed', {
+        tid,
+        query: reqMsg.q,
+        addr: reqNode.addr,
+        port: reqNode.port,
+        error: errorMessage
+      })
+      return this.#sender.sendMessage(
+        reqNode.port,
+        reqNode.addr,
+        MessageFactory.responseError(tid, errorType, errorMessage)
+      )
+    }
+
+    // the token must be generated for the ip of the request node in the recent get response
+    if (!this.#sender.context.tokens.isValid(reqNode.addr, reqMsg.a?.token)) {
+      this.#sender.context.blackList.strike(reqNode.addr, 'bad token')
+      await sendError(ErrorType.PROTOCOL, 'bad token')
+      return
+    }
+
+    const salt = reqMsg.a?.salt
+    if (salt && salt.length > Item.MAX_SALT_LENGTH) {
+      await sendError(ErrorType.SALT_TOO_BIG, 'salt too big')
+      return
+    }
+
+    const item = Item.from(reqMsg.a!, salt)
+    if (!item) {
+      await sendError(ErrorType.PROTOCOL, 'missing value')
+      return
+    }
+
+    if ((await item.bencodedValue()).length > Item.MAX_VALUE_LENGTH) {
+      await sendError(ErrorType.MESSAGE_TOO_BIG, 'message too big')
+      return
+    }
+
+    if (!(await item.isSigned())) {
+      await sendError(ErrorType.INVALID_SIGNATURE, 'invalid signature')
+      return
+    }
+
+    const target = (await item.target()).toString()
+    const stored = this.#sender.context.items.find(target)
+
+    if (item.isMutable && stored) {
+      const cas = reqMsg.a?.cas
+      if (typeof cas === 'number' && stored.seq !== cas) {
+        await sendError(ErrorType.CAS_MISMATCH, 'cas mismatch')
+        return
+      }
+
+      // the equal sequence number with a different value is rejected too
+      if (!(await item.canReplace(stored))) {
+        await sendError(ErrorType.SEQUENCE_TOO_OLD, 'sequence number less than current')
+        return
+      }
+    }
+
+    // store the item, or refresh the expiry of the same item
+    if (!this.#sender.context.items.put(target, item)) {
+      await sendError(ErrorType.SERVER, 'storage full')
+      return
+    }
+
+    await this.#sender.sendMessage(reqNode.port, reqNode.addr, MessageFactory.responsePut(tid, this.#sender.localId))
+  }
+
+  async handleSampleInfoHashesQueryRequest(reqMsg: Message, reqNode: Node, tid: string) {
+    const targetBytes = reqMsg.a?.target
+
+    if (!Id.isValidId(targetBytes)) {
+      this.logger.warn('invalid target', { tid, query: reqMsg.q, addr: reqNode.addr, port: reqNode.port })
+      await this.#sender.sendMessage(
+        reqNode.port,
+        reqNode.addr,
+        MessageFactory.responseError(tid, ErrorType.PROTOCOL, 'invalid target')
+      )
+      return
+    }
+
+    const samples = this.#sender.context.infoHashes
+      .sample(RequestHandler.MAX_SAMPLES)
+      .map((infoHashHex) => decodeHex(infoHashHex))
+    const { nodes, nodes6 } = this.findClosestNodes(reqMsg, Id.fromUnit8Array(targetBytes!))
+
+    this.logger.debug('sampled the info hashes', {
+      tid,
+      query: reqMsg.q,
+      samples: samples.length,
+      infoHashes: this.#sender.context.infoHashes.size
+    })
+
+    await this.#sender.sendMessage(
+      reqNode.port,
+      reqNode.addr,
+      MessageFactory.responseSampleInfoHashes(
+        tid,
+        this.#sender.localId,
+        RequestHandler.SAMPLE_INTERVAL,
+        this.#sender.context.infoHashes.size,
+        samples,
+        nodes,
+        nodes6
+      )
+    )
+  }
+
+  /**
+   * find the closest nodes of the families wanted by the request node, see BEP 32
+   * if the request node doesn't specify the want argument, only the nodes of the same family as the request are returned
+   * @param reqMsg the find_node or get_peers query
+   * @param target the target id or info hash
+   * @returns the closest IPv4 nodes and IPv6 nodes
+   */
+  private findClosestNodes(reqMsg: Message, target: Id) {
+    const want = MessageFactory.parseWant(reqMsg)
+    const families = want.length > 0 ? want : [this.#sender.family]
+
+    const closest = (family: AddrFamily) =>
+      (families.includes(family) &&
+        this.#sender.context.routingTables.get(family)?.findClosestNodes(target, this.#sender.context.options.k)) ||
+      []
+
+    return {
+      nodes: closest('ipv4'),
+      nodes6: closest('ipv6')
+    }
   }
 }
@@ -1,15 +1,19 @@
-import { BytesUtil } from 'toolkit'
 import Id from '~/src/id.ts'
-import InfoHashManager from '~/src/info_hash_manager.ts'
 import { MessageHandler } from '~/src/krpc/krpc.ts'
 import Sender from '~/src/krpc/sender.ts'
-import TranscationManager, { Request } from '~/src/krpc/transcation_manager.ts'
+import { Request } from '~/src/krpc/transcation_manager.ts'
+import LocalNode from '~/src/local_node.ts'
 import { Message, MessageType, QueryType } from '~/src/message_factory.ts'
 import Node from '~/src/node.ts'
-import Peer from '~/src/peer.ts'
-import RoutingTable from '~/src/routing_table.ts'
-import logger from '~/src/util/log.ts'
-import { COMPAT_ADDR_V4_LEN, COMPAT_NODE_LEN } from '~/src/util/net.ts'
+import {
+  AddrFamily,
+  COMPAT_ADDR_V4_LEN,
+  COMPAT_ADDR_V6_LEN,
+  COMPAT_NODE_LEN,
+  COMPAT_NODE_V6_LEN,
+  compactNodeLength,
+  extractCompactAddr
+} from '~/src/util/net.ts'
 
 export default class ResponseHandler implements MessageHandler {
   #sender!: Sender
@@ -19,6 +23,10 @@ export default class ResponseHandler implements MessageHandler {
     return MessageType.RESPONSE
   }
 
+  private get logger() {
+    return this.#sender.context.loggers.get('krpc')
+  }
+
   /**
    * handle the response message
    * @param response the response message
@@ -35,35 +43,42 @@ export default class ResponseHandler implements MessageHandler {
     const { t: tid, r: data, q: type } = response
 
     // check tid is valid
-    if (!TranscationManager.get().isValid(tid)) {
-      logger.warn(`[${tid}}]received a invalid tid: ${tid}, drop the message, which from ${addr}:${port}`)
+    if (!this.#sender.context.transcations.isValid(tid)) {
+      this.logger.warn('drop the response of an unknown or expired tid', { tid, addr, port })
       return
     }
 
-    // check response node id
+    // get the request message from transcation,if not exist, drop the message, because the message is not requested by this node
+    const request = this.#sender.context.transcations.getData(tid)
 
-    if (!Id.isValidId(data?.id)) {
-      logger.warn(`[${tid}}]response without node id or invalid, drop the message, which from ${addr}:${port}`)
+    // only the queried node can answer, otherwise anyone could guess the tid and forge the response,
+    // the transcation is kept for the real one
+    if (request && (request.addr !== addr || request.port !== port)) {
+      this.logger.warn('drop the response which is not from the queried node', { tid, query: request.type, addr, port })
       return
     }
 
-    const responseNodeId = data?.id!
-
-    // get the request message from transcation,if not exist, drop the message, because the message is not requested by this node
-    const request = TranscationManager.get().getData(tid)
-
     // finish the transcation
-    TranscationManager.get().finish(response.t)
+    this.#sender.context.transcations.finish(response.t)
 
     if (!request) {
-      logger.warn(
-        `[${tid}}]received a response which is not requested by this node, drop the message, which from ${addr}:${port}`
-      )
+      this.logger.warn('drop the response which is not requested by us', { tid, addr, port })
       return
     }
 
+    // check response node id
+    if (!Id.isValidId(data?.id)) {
+      this.logger.warn('drop the response without a valid node id', { tid, query: request.type, addr, port })
+      request.reject?.(new Error(`response without node id or invalid, which from ${addr}:${port}`))
+      return
+    }
+
+    const responseNodeId = data?.id!
+
     const respNode = new Node(Id.fromUnit8Array(responseNodeId), port, addr)
 
+    this.voteExternalIp(response, addr, tid)
+
     // by the request message query type to handle the response
     switch (request.type) {
       case QueryType.PING: {
@@ -82,142 +97,268 @@ export default class ResponseHandler implements MessageHandler {
         this.handleAnnouncePeerResponse(request, response, respNode, tid)
         break
       }
+      case QueryType.GET: {
+        this.handleGetResponse(request, response, respNode, tid)
+        break
+      }
+      case QueryType.PUT: {
+        this.handlePutResponse(request, response, respNode, tid)
+        break
+      }
+      case QueryType.SAMPLE_INFOHASHES: {
+        this.handleSampleInfoHashesResponse(request, response, respNode, tid)
+        break
+      }
       default:
-        logger.error(`unknown query type: ${type}`)
+        this.logger.error('unknown query type', { tid, query: type, addr, port })
     }
   }
 
   private handlePingResponse(request: Request, response: Message, respNode: Node, tid: string) {
-    logger.info(`[<======RESPONSE-PING-${tid}] received from ${respNode.addr}:${respNode.port}`)
+    // the response node is good, add or refresh it in the routing table
+    this.addResponseNode(respNode, tid)
 
-    // add the node into the routing table
-    if (!RoutingTable.get().add(respNode)) {
-      logger.error(`[${tid}] add node ${respNode} to routing table failed`)
-    }
+    request.resolve?.(response)
   }
 
   private handleFindNodeResponse(request: Request, response: Message, respNode: Node, tid: string) {
-    logger.info(`[<======RESPONSE-FIND_NODE-${tid}] received from ${respNode.addr}:${respNode.port}`)
-
     const nodesBytes = response.r?.nodes
+    const nodes6Bytes = response.r?.nodes6
 
-    // must have nodes
-    if (!nodesBytes) {
-      logger.error(`[${tid}] invalid nodes bytes: ${nodesBytes}`)
+    // must have nodes or nodes6
+    if (!nodesBytes && !nodes6Bytes) {
+      this.logger.warn('invalid nodes bytes', { tid, query: request.type, addr: respNode.addr, port: respNode.port })
+      request.reject?.(new Error(`find_node response without nodes, which from ${respNode.addr}:${respNode.port}`))
       return
     }
 
     // check nodes bytes length
-    if (nodesBytes.length % COMPAT_NODE_LEN != 0) {
-      logger.error(
-        `[${tid}] invalid nodes bytes: ${nodesBytes}, because the length is not a multiple of ${COMPAT_NODE_LEN}`
-      )
+    if (!this.checkNodesBytes(nodesBytes, nodes6Bytes, tid)) {
+      request.reject?.(new Error(`invalid nodes bytes, which from ${respNode.addr}:${respNode.port}`))
       return
     }
 
-    // chunk the nodes bytes to node bytes list
-    const nodesBytesList: Uint8Array[] = BytesUtil.chunkBytes(nodesBytes, COMPAT_NODE_LEN)
+    this.addNodes(nodesBytes, 'ipv4', tid)
+    this.addNodes(nodes6Bytes, 'ipv6', tid)
 
-    for (const nodeBytes of nodesBytesList) {
-      const node = Node.fromCompact(nodeBytes)
-      if (!RoutingTable.get().add(node)) {
-        logger.error(`[${tid}] insert node ${node} to routing table failed`)
-      }
-    }
+    // the response node is good, add or refresh it in the routing table
+    this.addResponseNode(respNode, tid)
 
-    // update the response node
-    if (!RoutingTable.get().add(respNode)) {
-      logger.error(`[${tid}] add node ${respNode} to routing table failed`)
-    }
+    request.resolve?.(response)
   }
 
-  private async handleGetPeersResponse(request: Request, response: Message, respNode: Node, tid: string) {
-    logger.info(`[<======RESPONSE-GET_PEERS-${tid}] received from ${respNode.addr}:${respNode.port}`)
+  private handleGetPeersResponse(request: Request, response: Message, respNode: Node, tid: string) {
     // get infoHash from reqeust message
     const infoHash = request.infoHash
 
     // check info hash length
     if (!infoHash) {
-      logger.error(`[${tid}] cached info hash is not exist`)
+      this.logger.error('the info hash of the query is missing', { tid, query: request.type })
+      request.reject?.(new Error('cached info hash is not exist'))
       return
     }
 
-    // token is a short binary string, always exsits
-    const token = response.t
+    // token is a short binary string, used to announce to the response node later
+    const token = response.r?.token
     // there are two types of response, one is nodes, the other is values
     // nodes means the response node don't have peers which have the info hash, so it return the closer nodes
     const nodesBytes = response.r?.nodes
+    const nodes6Bytes = response.r?.nodes6
     // values means the response node have peers which have the info hash,and values is a list of compact address of peers
     const peersBytesList = response.r?.values
 
     if (!token) {
-      logger.error(`[${tid}] invalid token: ${token}`)
+      this.logger.debug('the response has no token', {
+        tid,
+        query: request.type,
+        addr: respNode.addr,
+        port: respNode.port
+      })
+    }
+
+    // check peerBytes, 6 bytes for IPv4 peer, 18 bytes for IPv6 peer
+    if (
+      peersBytesList &&
+      peersBytesList.some((bytes) => bytes.length !== COMPAT_ADDR_V4_LEN && bytes.length !== COMPAT_ADDR_V6_LEN)
+    ) {
+      this.logger.warn('invalid peer bytes', { tid, query: request.type, addr: respNode.addr, port: respNode.port })
+      request.reject?.(new Error(`invalid peer bytes, which from ${respNode.addr}:${respNode.port}`))
       return
     }
 
-    // check peerBytes
-    if (peersBytesList && peersBytesList.some((bytes) => bytes.length !== COMPAT_ADDR_V4_LEN)) {
-      logger.error(`[${tid}] invalid peer bytes: ${peersBytesList}`)
+    // check nodes bytes length
+    if (!this.checkNodesBytes(nodesBytes, nodes6Bytes, tid)) {
+      request.reject?.(new Error(`invalid nodes bytes, which from ${respNode.addr}:${respNode.port}`))
       return
     }
 
-    if (peersBytesList) {
-      const peers: Peer[] = []
+    if (!peersBytesList && !nodesBytes && !nodes6Bytes) {
+      this.logger.warn('the response has no nodes or values', {
+        tid,
+        query: request.type,
+        addr: respNode.addr,
+        port: respNode.port
+      })
+      request.reject?.(
+        new Error(`get_peers response without nodes or values, which from ${respNode.addr}:${respNode.port}`)
+      )
+      return
+    }
 
-      for (const bytes of peersBytesList) {
-        try {
-          const peer = Peer.fromCompact(bytes)
-          peers.push(peer)
-        } catch (e) {
-          logger.error(`[${tid}] invalid peer bytes: ${bytes}`)
-        }
-      }
+    // the peers are returned to the querier, only the peers announced to this node are stored in the InfoHashManager
+    if (peersBytesList && peersBytesList.length > 0) {
+      this.logger.debug('received the peers', { tid, infoHash, peers: peersBytesList.length })
+    }
 
-      logger.info(
-        `[${tid}] received ${peersBytesList.length} peers for info hash: ${BytesUtil.bytes2HexStr(
-          infoHash
-        )},peers is ${peers}`
-      )
+    const nodeCount = (nodesBytes?.length ?? 0) / COMPAT_NODE_LEN + (nodes6Bytes?.length ?? 0) / COMPAT_NODE_V6_LEN
 
-      if (peers.length <= 0) {
-        logger.info(`[${tid}] no peers found`)
-        return
-      }
+    if (nodeCount > 0) {
+      this.logger.debug('received the nodes', { tid, infoHash, nodes: nodeCount })
+    }
 
-      // store the peers associated with the token and info hash
-      InfoHashManager.get().addList(BytesUtil.bytes2HexStr(infoHash), peers, token)
-    } else if (nodesBytes) {
-      logger.info(
-        `[${tid}] received ${nodesBytes.length / COMPAT_NODE_LEN} nodes for info hash: ${BytesUtil.bytes2HexStr(
-          infoHash
-        )}`
-      )
+    // the response node is good, add or refresh it in the routing table
+    this.addResponseNode(respNode, tid)
 
-      const nodesBytesList: Uint8Array[] = BytesUtil.chunkBytes(nodesBytes, COMPAT_NODE_LEN)
+    request.resolve?.(response)
+  }
 
-      for (const nodeBytes of nodesBytesList) {
-        const node = Node.fromCompact(nodeBytes)
+  private handleAnnouncePeerResponse(request: Request, response: Message, respNode: Node, tid: string) {
+    // the response node is good, add or refresh it in the routing table
+    this.addResponseNode(respNode, tid)
 
-        // send get peers request to the node
-        await this.#sender.sendGetPeersRequest(node, infoHash)
+    request.resolve?.(response)
+  }
+
+  private handleGetResponse(request: Request, response: Message, respNode: Node, tid: string) {
+    const nodesBytes = response.r?.nodes
+    const nodes6Bytes = response.r?.nodes6
+
+    // the item is verified by the querier, because only it knows the target and the salt
+    if (!this.checkNodesBytes(nodesBytes, nodes6Bytes, tid)) {
+      request.reject?.(new Error(`invalid nodes bytes, which from ${respNode.addr}:${respNode.port}`))
+      return
+    }
+
+    this.addNodes(nodesBytes, 'ipv4', tid)
+    this.addNodes(nodes6Bytes, 'ipv6', tid)
+
+    // the response node is good, add or refresh it in the routing table
+    this.addResponseNode(respNode, tid)
+
+    request.resolve?.(response)
+  }
+
+  private handlePutResponse(request: Request, response: Message, respNode: Node, tid: string) {
+    // the response node is good, add or refresh it in the routing table
+    this.addResponseNode(respNode, tid)
+
+    request.resolve?.(response)
+  }
+
+  private handleSampleInfoHashesResponse(request: Request, response: Message, respNode: Node, tid: string) {
+    const samples = response.r?.samples
+    const nodesBytes = response.r?.nodes
+    const nodes6Bytes = response.r?.nodes6
+
+    // the samples are concatenated info hashes
+    if (samples && samples.length % Id.BYTES_LENGTH != 0) {
+      this.logger.warn('invalid samples bytes', { tid, query: request.type, addr: respNode.addr, port: respNode.port })
+      request.reject?.(new Error(`invalid samples bytes, which from ${respNode.addr}:${respNode.port}`))
+      return
+    }
+
+    if (!this.checkNodesBytes(nodesBytes, nodes6Bytes, tid)) {
+      request.reject?.(new Error(`invalid nodes bytes, which from ${respNode.addr}:${respNode.port}`))
+      return
+    }
+
+    this.addNodes(nodesBytes, 'ipv4', tid)
+    this.addNodes(nodes6Bytes, 'ipv6', tid)
+
+    // the response node is good, add or refresh it in the routing table
+    this.addResponseNode(respNode, tid)
+
+    request.resolve?.(response)
+  }
+
+  /**
+   * count the external ip the response node saw, see BEP 42
+   * our id should be generated from the agreed ip, otherwise the other nodes may not trust us,
+   * so the local node is replaced when the agreed ip changes, unless the external address is fixed in the options
+   */
+  private voteExternalIp(response: Message, addr: string, tid: string) {
+    if (!response.ip) return
+
+    let ip: string
+    try {
+      ip = extractCompactAddr(response.ip).addr
+    } catch (_) {
+      this.logger.warn('invalid ip bytes', { tid, addr })
+      return
+    }
+
+    const family = this.#sender.family
+    const externalIps = this.#sender.context.externalIps
+    if (!externalIps.vote(addr, ip) || externalIps.agreed(family) !== ip) return
+
+    this.logger.info('the external ip is agreed on', { tid, family, ip })
+    const { context, routingTable } = this.#sender
+    const fixed = context.options.addrs[family]
+    if (fixed !== undefined) {
+      if (fixed !== ip) {
+        this.logger.warn('the agreed ip is not the external address in the options', { tid, family, ip, fixed })
       }
-    } else {
-      logger.error(`[${tid}] invalid response: ${JSON.stringify(response)}`)
       return
     }
 
-    // update the response node
-    if (!RoutingTable.get().add(respNode)) {
-      logger.error(`[${tid}] add node ${respNode} to routing table failed`)
+    const { localNode } = routingTable
+    if (localNode.addr === ip) return
+
+    // the id is kept if it's still valid for the ip
+    const newLocalNode = LocalNode.createLocalNode(localNode.port, family, localNode.id, ip)
+    routingTable.setLocalNode(newLocalNode)
+    context.events.emit('external-ip', { family, ip, id: newLocalNode.id })
+  }
+
+  private addResponseNode(respNode: Node, tid: string) {
+    if (!this.#sender.routingTable.markResponded(respNode)) {
+      this.logger.debug('the responding node is not added to the routing table', { tid, id: respNode.id })
+    }
+  }
+
+  /**
+   * check the length of nodes bytes and nodes6 bytes is a multiple of the compact node length
+   * @returns true if both are valid or absent
+   */
+  private checkNodesBytes(nodesBytes: Uint8Array | undefined, nodes6Bytes: Uint8Array | undefined, tid: string) {
+    for (const [bytes, family] of [
+      [nodesBytes, 'ipv4'],
+      [nodes6Bytes, 'ipv6']
+    ] as const) {
+      if (bytes && bytes.length % compactNodeLength(family) != 0) {
+        this.logger.warn('the length of the nodes bytes is not a multiple of the compact node length', {
+          tid,
+          family,
+          bytes: bytes.length
+        })
+        return false
+      }
     }
+    return true
   }
 
-  private handleAnnouncePeerResponse(request: Request, response: Message, respNode: Node, tid: string) {
-    logger.info(`[<======RESPONSE-ANNOUNCE_PEER-${tid}] received from ${respNode.addr}:${respNode.port}`)
+  /**
+   * add the referred nodes into the routing table of the family, if the family is not enabled, ignore them,
+   * their addresses are not verified, so they never move a known node, see RoutingTable.addReferral
+   */
+  private addNodes(bytes: Uint8Array | undefined, family: AddrFamily, tid: string) {
+    const routingTable = this.#sender.context.routingTables.get(family)
+    if (!bytes || !routingTable) return
 
-    // update the response node
-    if (!RoutingTable.get().add(respNode)) {
-      logger.error(`[${tid}] add node ${respNode} to routing table failed`)
+    for (const node of Node.fromCompactList(bytes, family)) {
+      if (!routingTable.addReferral(node)) {
+        this.logger.debug('the node is not added to the routing table', { tid, id: node.id })
+      }
     }
   }
 }
@@ -1,15 +1,25 @@
 import Id from '~/src/id.ts'
+import Item from '~/src/item.ts'
+import { ClosedError, RateLimitError, TimeoutError } from '~/src/krpc/error.ts'
+import { KRPCContext } from '~/src/krpc/context.ts'
 import ErrorResponseHandler from '~/src/krpc/handler/error_handler.ts'
 import RequestHandler from '~/src/krpc/handler/request_handler.ts'
 import ResponseHandler from '~/src/krpc/handler/response_handler.ts'
 import Sender from '~/src/krpc/sender.ts'
-import TranscationManager from '~/src/krpc/transcation_manager.ts'
-import MessageFactory, { Message, MessageType, QueryType } from '~/src/message_factory.ts'
-import Node from '~/src/node.ts'
-import RoutingTable from '~/src/routing_table.ts'
-import logger from '~/src/util/log.ts'
+import MessageFactory, { ErrorType, Message, MessageType, QueryType } from '~/src/message_factory.ts'
+import { knownLabel } from '~/src/metrics.ts'
+import Peer from '~/src/peer.ts'
+import Transport from '~/src/transport/transport.ts'
+import UdpTransport from '~/src/transport/udp_transport.ts'
+import { Logger } from '~/src/util/log.ts'
+import { AddrFamily, isIPv4MappedIPv6Str, packageCompactAddr } from '~/src/util/net.ts'
 import { NetUtil } from 'toolkit'
 
+// the values of the metric labels, the others sent by the remote nodes are counted as other
+const MESSAGE_TYPES: readonly string[] = Object.values(MessageType)
+const QUERY_TYPES: readonly string[] = Object.values(QueryType)
+const ERROR_CODES: readonly number[] = Object.values(ErrorType).filter((code) => typeof code === 'number')
+
 export interface MessageHandler {
   /**
    * get the message type, then the dispatcher will call the handle() method
@@ -21,33 +31,81 @@ export interface MessageHandler {
 
 /**
  * KRPC protocol implementation for DHT
+ * each address family has its own KRPC, they listen on the bind address of their family in the options
  */
 export class KRPC implements Sender {
   #port: number
-  #udp: Deno.DatagramConn
+  #family: AddrFamily
+  #context: KRPCContext
+  #transport: Transport
+  #receiving: Promise<void> // the loop handling the received datagrams, it ends when the transport is closed
+  #closed = false
+  #logger: Logger
   #messageHandlers: MessageHandler[] = [new ResponseHandler(), new RequestHandler(), new ErrorResponseHandler()]
 
-  private constructor(port: number) {
-    this.#port = port
+  private constructor(port: number, family: AddrFamily, context: KRPCContext, transport: Transport) {
+    if (!context.routingTables.has(family)) {
+      throw new Error(`the routing table of ${family} is not in the context`)
+    }
 
-    // initilize the a udp listener and sender
-    this.#udp = Deno.listenDatagram({
-      port: this.#port,
-      transport: 'udp',
-      hostname: '0.0.0.0' // listen on all interfaces
-    })
+    this.#port = port
+    this.#family = family
+    this.#context = context
+    this.#transport = transport
+    this.#logger = context.loggers.get('krpc')
 
     // async handle response
-    this.handlePacket()
+    this.#receiving = this.handlePacket()
   }
   /**
    * create a KRPC instance
    * @param port
+   * @param family the address family of the socket
+   * @param context the state of the dht, it must contain the routing table of the family
+   * @param transport sends and receives the datagrams, default is a udp socket listening on the bind address and the port
    * @returns
    */
-  static create(port: number) {
+  static create(port: number, family: AddrFamily, context: KRPCContext, transport?: Transport) {
     if (!NetUtil.isNetPort(port)) throw new Error('invalid port, should be in range [0, 65535], but got ' + port)
-    return new KRPC(port)
+    return new KRPC(port, family, context, transport ?? new UdpTransport(port, family, context.options.bind[family]))
+  }
+
+  get family() {
+    return this.#family
+  }
+
+  /**
+   * the id of the local node
+   */
+  get localId() {
+    return this.routingTable.localNode.id
+  }
+
+  get context() {
+    return this.#context
+  }
+
+  get closed() {
+    return this.#closed
+  }
+
+  /**
+   * close the transport, resolves when the message being handled is done
+   * the pending queries are not rejected here, they are shared by the krpc of each family
+   */
+  async close() {
+    if (this.#closed) return
+    this.#closed = true
+
+    this.#transport.close()
+    await this.#receiving
+  }
+
+  /**
+   * the routing table of the family
+   */
+  get routingTable() {
+    return this.#context.routingTables.get(this.#family)!
   }
 
   /**
@@ -68,23 +126,46 @@ export class KRPC implements Sender {
   }
 
   /**
-   * handle udp packet
+   * handle the datagrams received by the transport
    */
   async handlePacket() {
-    for await (const packet of this.#udp) {
-      // unpack the packet
-      const [data, addr] = packet as [Uint8Array, Deno.NetAddr]
-      const address = addr.hostname
-      const port = addr.port
-      const message = await MessageFactory.decode(data)
+    for await (const { data, addr: address, port } of this.#transport.receive()) {
+      // the IPv6 socket may receive IPv4 packets as IPv4-mapped address, they belong to the IPv4 dht network
+      if (this.#family === 'ipv6' && isIPv4MappedIPv6Str(address)) {
+        continue
+      }
 
-      if (!message) {
-        // write bytes to local
-        logger.error(`[<======UDP-handlePacket] decode data failed: ${data}, from ${address}:${port}`)
+      const message = await MessageFactory.decode(data, this.#logger)
 
+      if (!message) {
         // remove the node from routing table
-        logger.info(`[<======UDP-handlePacket]  remove node ${address}:${port} from routing table`)
-        RoutingTable.get().removeByIp(address)
+        this.#logger.warn('drop the malformed packet, remove the node from the routing table', {
+          addr: address,
+          port,
+          bytes: data.length
+        })
+        this.routingTable.removeByIp(address)
+        this.#context.blackList.strike(address, 'malformed packet')
+        this.#context.metrics.inc('decode_failures_total', { family: this.#family })
+        continue
+      }
+
+      // the responses of a banned ip are still handled, they only come to our queries, see BlackListManager
+      if (message.y === MessageType.QUERY && this.#context.blackList.isBaned(address)) {
+        continue
+      }
+
+      // the responses are limited by our own queries, only the queries are limited here
+      const exceeded = message.y === MessageType.QUERY ? this.#context.inboundLimiter.exceeded(address) : undefined
+      if (exceeded) {
+        // only the ip sending too much is striked, no ip is to blame when all of them together exceed the limit
+        if (exceeded === 'ip') {
+          this.#logger.warn('drop the query, rate limit of the ip exceeded', { query: message.q, addr: address, port })
+          this.#context.blackList.strike(address, 'flood')
+        } else {
+          this.#logger.debug('drop the query, total rate limit exceeded', { query: message.q, addr: address, port })
+        }
+        this.#context.metrics.inc('dropped_queries_total', { family: this.#family, limit: exceeded })
         continue
       }
 
@@ -94,37 +175,133 @@ export class KRPC implements Sender {
       }
 
       const tid = message.t
+      const query = this.countMessage('messages_received_total', message)
 
       try {
-        logger.info(`╔============================= HANDLE MESSAFGE START ===========================╗${tid}`)
+        this.#logger.debug('received', { tid, type: message.y, query, addr: address, port })
         await this.dispatchMessage(message, address, port)
-        logger.info(`╚============================= HANDLE MESSAFGE END   ===========================╝${tid}\n`)
       } catch (e) {
-        logger.error(`[<======UDP-handlePacket] dispatch message failed: ${e}`)
+        this.#logger.error('handle the message failed', { tid, type: message.y, addr: address, port, error: e })
+        this.#context.events.emit('error', { error: e instanceof Error ? e : new Error(String(e)) })
       }
     }
   }
 
   /**
-   * // TODO handle timeout request
-   * send a message to a node
+   * send a message to a node, the error of sending is logged and ignored
    * @param port port of the node
    * @param addr address of the node
    * @param messageFc the message to send
    */
   async sendMessage(port: number, addr: string, messageFc: MessageFactory) {
-    const bencodeMessage = await messageFc.bencode()
+    if (this.#closed) return
 
     try {
-      await this.#udp.send(bencodeMessage, {
-        transport: 'udp',
-        hostname: addr,
-        port: port
-      })
-      // logger.info(`[======>SEND] send message to ${addr}:${port} success: (${JSON.stringify(message)}`)
+      await this.send(port, addr, messageFc)
     } catch (e) {
-      logger.error(`[======>SEND] send message to ${addr}:${port} failed`, e)
+      const { t: tid, y: type } = messageFc.message()
+      this.#logger.warn('send the message failed', { tid, type, addr, port, error: e })
+    }
+  }
+
+  private async send(port: number, addr: string, messageFc: MessageFactory) {
+    if (!this.#context.outboundLimiter.allow(addr)) {
+      throw new RateLimitError(`the message to ${addr}:${port} exceeds the outbound rate limit`)
+    }
+
+    // tell the querying node its external address
+    if (messageFc.message().y === MessageType.RESPONSE) {
+      messageFc.ip = packageCompactAddr(addr, port)
+    }
+
+    const bencodeMessage = await messageFc.bencode()
+
+    await this.#transport.send(bencodeMessage, addr, port)
+
+    const message = messageFc.message()
+    const query = this.countMessage('messages_sent_total', message)
+    this.#logger.debug('sent', { tid: message.t, type: message.y, query, addr, port })
+  }
+
+  /**
+   * count the message by its type and its query type, and the error by its code
+   * @param name messages_received_total or messages_sent_total
+   * @param message
+   * @returns the query type label, unknown for the responses and the errors we send, other for an unknown one
+   */
+  private countMessage(name: 'messages_received_total' | 'messages_sent_total', message: Message) {
+    const { metrics, transcations } = this.#context
+    const family = this.#family
+
+    // a response or an error received is of our query, the query type is remembered by the transaction
+    let query = message.q
+    if (!query && name === 'messages_received_total' && transcations.isValid(message.t)) {
+      query = transcations.getData(message.t)?.type
+    }
+    const label = query === undefined ? 'unknown' : knownLabel(query, QUERY_TYPES)
+    metrics.inc(name, { family, type: knownLabel(message.y, MESSAGE_TYPES), query: label })
+
+    if (message.y === MessageType.ERROR) {
+      const code = message.e?.[0] === undefined ? 'unknown' : knownLabel(message.e[0], ERROR_CODES)
+      metrics.inc(name === 'messages_received_total' ? 'errors_received_total' : 'errors_sent_total', { family, code })
     }
+    return label
+  }
+
+  /**
+   * send a query to the node and wait for the response
+   *
+   * the transaction id of the query is allocated here, the promise resolves with the response message,
+   * or rejects with a KRPCError if the node answered with an error, or with a TimeoutError if the node did not answer in time
+   *
+   * @param node which node to ask
+   * @param messageFc the query message
+   * @param timeout how long to wait for the response, in milliseconds, default is the query timeout of the options
+   * @returns the response message
+   */
+  query(node: Peer, messageFc: MessageFactory, timeout = this.#context.options.timeouts.query): Promise<Message> {
+    const { q: type, a: args } = messageFc.message()
+
+    if (this.#closed) {
+      return Promise.reject(
+        new ClosedError(`${type} query to ${node.addr}:${node.port} after the ${this.#family} krpc closed`)
+      )
+    }
+
+    return new Promise((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined = undefined
+
+      const tid = this.#context.transcations.create({
+        type: type!,
+        addr: node.addr,
+        port: node.port,
+        infoHash: args?.info_hash,
+        resolve: (response: Message) => {
+          clearTimeout(timer)
+          resolve(response)
+        },
+        reject: (error: Error) => {
+          clearTimeout(timer)
+          reject(error)
+        }
+      })
+
+      timer = setTimeout(() => {
+        this.#context.transcations.finish(tid)
+        // the node becomes bad after failing multiple queries in a row
+        this.routingTable.markFailed(node.addr, node.port)
+        this.#context.metrics.inc('query_timeouts_total', { family: this.#family, query: type! })
+        reject(new TimeoutError(`[${tid}] ${type} query to ${node.addr}:${node.port} timeout after ${timeout}ms`))
+      }, timeout)
+
+      messageFc.tid = tid
+
+      this.send(node.port, node.addr, messageFc).catch((e) => {
+        clearTimeout(timer)
+        this.#context.transcations.finish(tid)
+        reject(e)
+      })
+    })
   }
 
   /**
@@ -138,21 +315,11 @@ export class KRPC implements Sender {
    * Response = {"t":"aa", "y":"r", "r": {"id":"<hex string>"}}
    * the id is the node which response the ping query
    *
-   * @param targetNode which node to ask
-   * @param nodeId the node id of the local node
-   *
+   * @param targetNode which node to ask, for bootstrap node, we don't know the node id, so it's just a peer
+   * @returns the response message
    */
-  async sendPingRequest(targetNode: Node) {
-    const tid = TranscationManager.get().create({
-      type: QueryType.PING,
-      addr: targetNode.addr,
-      port: targetNode.port
-    })
-
-    const messageFC = MessageFactory.requestPing(tid, RoutingTable.get().localNode.id)
-
-    // send the message
-    await this.sendMessage(targetNode.port, targetNode.addr, messageFC)
+  ping(targetNode: Peer): Promise<Message> {
+    return this.query(targetNode, MessageFactory.requestPing(this.localId))
   }
 
   /**
@@ -163,69 +330,97 @@ export class KRPC implements Sender {
    *
    * Response = {"t":"aa", "y":"r", "r": {"id":"<hex string>", "nodes": "<hex string>"}}
    *
-   * @param port
-   * @param addr
+   * @param targetNode which node to ask
+   * @param targetId the node id sought
+   * @param want the families of nodes wanted, see BEP 32
+   * @returns the response message
    */
-  async sendFindNodeRequest(port: number, addr: string, targetId: Id) {
-    const tid = TranscationManager.get().create({
-      type: QueryType.FIND_NODE,
-      addr: addr,
-      port: port
-    })
-
-    const messageFC = MessageFactory.requestFindNode(tid, RoutingTable.get().localNode.id, targetId)
-    await this.sendMessage(port, addr, messageFC)
+  findNode(targetNode: Peer, targetId: Id, want?: AddrFamily[]): Promise<Message> {
+    return this.query(targetNode, MessageFactory.requestFindNode(this.localId, targetId, want))
   }
 
   /**
    * send a get_peers query to target node to get peers of the file
    *
-   * @param targetNode which node to get peers from, the node must be in the routing table
+   * get_peers Query = {"t":"aa", "y":"q", "q":"get_peers", "a": {"id":"<hex string>", "info_hash":"<hex string>"}}
+   * Response with closest nodes = {"t":"aa", "y":"r", "r": {"id":"<hex string>", "token":"<token>", "nodes": "<hex string>"}}
+   *
+   * @param targetNode which node to get peers from
    * @param infoHash the info hash of the file
+   * @param want the families of nodes wanted, see BEP 32
+   * @returns the response message
    */
-  async sendGetPeersRequest(targetNode: Node, infoHash: Uint8Array) {
-    const tid = TranscationManager.get().create({
-      type: QueryType.GET_PEERS,
-      infoHash: infoHash,
-      addr: targetNode.addr,
-      port: targetNode.port
-    })
-    const messageFC = MessageFactory.requestGetPeers(tid, RoutingTable.get().localNode.id, infoHash)
-    await this.sendMessage(targetNode.port, targetNode.addr, messageFC)
+  getPeers(targetNode: Peer, infoHash: Uint8Array, want?: AddrFamily[]): Promise<Message> {
+    return this.query(targetNode, MessageFactory.requestGetPeers(this.localId, infoHash, want))
   }
 
   /**
    * send a announce_peer query to target node to announce the peer, means tell the node that I have the file
    *
-   * get_peers Query = {"t":"aa", "y":"q", "q":"get_peers", "a": {"id":"<hex string>", "info_hash":"<hex string>"}}
-   * Response with closest nodes = {"t":"aa", "y":"r", "r": {"id":"<hex string>", "token":"<token>", "nodes": "<hex string>"}}
+   * announce_peer Query = {"t":"aa", "y":"q", "q":"announce_peer", "a": {"id":"<hex string>", "implied_port": <0 or 1>, "info_hash":"<hex string>", "port": <port number>, "token": "<opaque token>"}}
+   * Response = {"t":"aa", "y":"r", "r": {"id":"<hex string>"}}
    *
-   * @param targetNode which node to announce to, the node must be in the routing table
+   * @param targetNode which node to announce to
    * @param infoHash the info hash of the file
-   * @param token the token of the node
-   */
-  async sendAnnouncePeerRequest(targetNode: Node, infoHash: Uint8Array) {
-    const tid = TranscationManager.get().create({
-      type: QueryType.ANNOUNCE_PEER,
-      infoHash: infoHash,
-      addr: targetNode.addr,
-      port: targetNode.port
-    })
-    const messageFC = MessageFactory.requestAnnouncePeer(tid, RoutingTable.get().localNode.id, infoHash, this.#port)
-    await this.sendMessage(targetNode.port, targetNode.addr, messageFC)
+   * @param token the token received in the get_peers response of the target node
+   * @param port the port of the peer, default is the port of the krpc
+   * @param impliedPort true means the target node should use the source port of the udp packet instead of the port
+   * @returns the response message
+   */
+  announcePeer(
+    targetNode: Peer,
+    infoHash: Uint8Array,
+    token: Uint8Array,
+    port = this.#port,
+    impliedPort = false
+  ): Promise<Message> {
+    return this.query(targetNode, MessageFactory.requestAnnouncePeer(this.localId, infoHash, token, port, impliedPort))
   }
 
   /**
-   * same as ping, but send to a specific port and addr, because for bootstrap node, we don't know the node id
-   * @param bootstrapNode {addr: string, port: number}
+   * send a get query to target node to get the item, see BEP 44
+   *
+   * get Query = {"t":"aa", "y":"q", "q":"get", "a": {"id":"<hex string>", "target":"<hex string>", "seq": <optional>}}
+   * Response = {"t":"aa", "y":"r", "r": {"id":"<hex string>", "token":"<token>", "nodes": "<hex string>", "v": <value>, "k": <key>, "seq": <seq>, "sig": <signature>}}
+   *
+   * @param targetNode which node to get the item from
+   * @param target the target of the item
+   * @param seq only return the mutable item if its sequence number is greater than this
+   * @param want the families of nodes wanted, see BEP 32
+   * @returns the response message
    */
-  async sendPingBootrapNodesRequest({ addr, port }: { addr: string; port: number }) {
-    const tid = TranscationManager.get().create({
-      type: QueryType.PING,
-      addr: addr,
-      port: port
-    })
-    const messageFC = MessageFactory.requestPing(tid, RoutingTable.get().localNode.id)
-    await this.sendMessage(port, addr, messageFC)
+  get(targetNode: Peer, target: Id, seq?: number, want?: AddrFamily[]): Promise<Message> {
+    return this.query(targetNode, MessageFactory.requestGet(this.localId, target, seq, want))
+  }
+
+  /**
+   * send a put query to target node to store the item, see BEP 44
+   *
+   * put Query = {"t":"aa", "y":"q", "q":"put", "a": {"id":"<hex string>", "token":"<token>", "v": <value>, "k": <key>, "seq": <seq>, "sig": <signature>, "salt": <optional>, "cas": <optional>}}
+   * Response = {"t":"aa", "y":"r", "r": {"id":"<hex string>"}}
+   *
+   * @param targetNode which node to store the item
+   * @param token the token received in the get response of the target node
+   * @param item the item to store
+   * @param cas only store the mutable item if the current sequence number is this
+   * @returns the response message
+   */
+  put(targetNode: Peer, token: Uint8Array, item: Item, cas?: number): Promise<Message> {
+    return this.query(targetNode, MessageFactory.requestPut(this.localId, token, item, cas))
+  }
+
+  /**
+   * send a sample_infohashes query to target node to get a sample of the info hashes it stores, see BEP 51
+   *
+   * sample_infohashes Query = {"t":"aa", "y":"q", "q":"sample_infohashes", "a": {"id":"<hex string>", "target":"<hex string>"}}
+   * Response = {"t":"aa", "y":"r", "r": {"id":"<hex string>", "interval": <seconds>, "nodes": "<hex string>", "num": <count>, "samples": "<info hashes>"}}
+   *
+   * @param targetNode which node to ask
+   * @param target the target id, the node returns the closest nodes of it
+   * @param want the families of nodes wanted, see BEP 32
+   * @returns the response message
+   */
+  sampleInfoHashes(targetNode: Peer, target: Id, want?: AddrFamily[]): Promise<Message> {
+    return this.query(targetNode, MessageFactory.requestSampleInfoHashes(this.localId, target, want))
   }
 }
@@ -1,11 +1,29 @@
 import Id from '~/src/id.ts'
-import Node from '~/src/node.ts'
-import MessageFactory from '~/src/message_factory.ts'
+import { KRPCContext } from '~/src/krpc/context.ts'
+import Item from '~/src/item.ts'
+import MessageFactory, { Message } from '~/src/message_factory.ts'
+import Peer from '~/src/peer.ts'
+import RoutingTable from '~/src/routing_table.ts'
+import { AddrFamily } from '~/src/util/net.ts'
 
 export default interface Sender {
+  readonly family: AddrFamily // the address family of the socket
+  readonly localId: Id // the id of the local node
+  readonly context: KRPCContext // the state of the dht
+  readonly routingTable: RoutingTable // the routing table of the family
   sendMessage(port: number, addr: string, message: MessageFactory): Promise<void>
-  sendPingRequest(targetNode: Node): Promise<void>
-  sendFindNodeRequest(port: number, addr: string, targetId: Id): Promise<void>
-  sendGetPeersRequest(targetNode: Node, infoHash: Uint8Array): Promise<void>
-  sendAnnouncePeerRequest(targetNode: Node, infoHash: Uint8Array): Promise<void>
+  query(node: Peer, message: MessageFactory, timeout?: number): Promise<Message>
+  ping(targetNode: Peer): Promise<Message>
+  findNode(targetNode: Peer, targetId: Id, want?: AddrFamily[]): Promise<Message>
+  getPeers(targetNode: Peer, infoHash: Uint8Array, want?: AddrFamily[]): Promise<Message>
+  announcePeer(
+    targetNode: Peer,
+    infoHash: Uint8Array,
+    token: Uint8Array,
+    port?: number,
+    impliedPort?: boolean
+  ): Promise<Message>
+  get(targetNode: Peer, target: Id, seq?: number, want?: AddrFamily[]): Promise<Message>
+  put(targetNode: Peer, token: Uint8Array, item: Item, cas?: number): Promise<Message>
+  sampleInfoHashes(targetNode: Peer, target: Id, want?: AddrFamily[]): Promise<Message>
 }
@@ -1,11 +1,13 @@
-import { QueryType } from '~/src/message_factory.ts'
-import logger from '~/src/util/log.ts'
+import { Message, QueryType } from '~/src/message_factory.ts'
+import { getLogger, Logger } from '~/src/util/log.ts'
 
 export type Request = {
   type: QueryType
   addr: string
   port: number
   infoHash?: Uint8Array // only for get_peers query and announce_peer query
+  resolve?: (response: Message) => void // called with the response of the query
+  reject?: (error: Error) => void // called with the error of the query
 }
 
 /**
@@ -13,13 +15,13 @@ export type Request = {
  * @description handle krpc transcation
  */
 export default class TranscationManager<T> {
-  static #INSTANCE = new TranscationManager<Request>()
-  #EXPIRED_TIME = 1000 * 60 * 60 * 24 // 5 minutes, the borrowed tid will be returned to pool after 5 minutes
+  #EXPIRED_TIME = 1000 * 60 * 5 // 5 minutes, the borrowed tid will be returned to pool after 5 minutes
   #CHARS = '0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ'
-  #ID_COUNT_MAX = this.#CHARS.length ^ 2 // max tid count
+  #ID_COUNT_MAX = this.#CHARS.length ** 2 // max tid count
   #ID_COUNT_HALF = this.#ID_COUNT_MAX / 2 // half of max tid count
   #tidPool!: Set<string> // tid pool
   #expiredTime: number // expired time of a tid
+  #logger: Logger
   #transcations = new Map<
     string, // tid
     {
@@ -31,14 +33,19 @@ export default class TranscationManager<T> {
   /**
    * create a transcation manager
    * @param expredTime the expired time of a transcation
+   * @param logger default is the shared krpc logger
    */
-  private constructor(expredTime?: number) {
+  constructor(expredTime?: number, logger = getLogger('krpc')) {
     this.#expiredTime = expredTime || this.#EXPIRED_TIME
+    this.#logger = logger
     this.initIdPool()
   }
 
-  static get() {
-    return TranscationManager.#INSTANCE
+  /**
+   * the count of transcations in flight
+   */
+  get size() {
+    return this.#transcations.size
   }
 
   /**
@@ -62,7 +69,7 @@ export default class TranscationManager<T> {
    */
   getData(tid: string): T | undefined {
     if (!this.isValid(tid)) {
-      logger.warn(`tid ${tid} is not valid, can not get data`)
+      this.#logger.warn('the tid is not valid, can not get data', { tid })
       return
     }
 
@@ -75,7 +82,7 @@ export default class TranscationManager<T> {
    */
   finish(tid: string) {
     if (!this.isValid(tid)) {
-      logger.warn(`tid ${tid} is not valid, can not finish`)
+      this.#logger.warn('the tid is not valid, can not finish', { tid })
       return
     }
 
@@ -83,6 +90,18 @@ export default class TranscationManager<T> {
     this.putbackTid(tid)
   }
 
+  /**
+   * finish all transcations, e.g. when the dht is closed
+   * @returns the attached data of the transcations
+   */
+  clear(): T[] {
+    const data = [...this.#transcations.values()].flatMap((transcation) => (transcation.data ? [transcation.data] : []))
+    for (const tid of [...this.#transcations.keys()]) {
+      this.putbackTid(tid)
+    }
+    return data
+  }
+
   private initIdPool() {
     const collection = new Set<string>()
     for (let i = 0; i < this.#CHARS.length; i++) {
@@ -147,7 +166,7 @@ export default class TranscationManager<T> {
    */
   private putbackTid(tid: string) {
     if (!this.#transcations.has(tid)) {
-      logger.warn(`tid ${tid} is not borrowed, can not return`)
+      this.#logger.warn('the tid is not borrowed, can not return', { tid })
       return
     }
     this.#transcations.delete(tid)
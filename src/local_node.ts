@@ -1,6 +1,6 @@
 import Id from '~/src/id.ts'
 import Node from '~/src/node.ts'
-import { getIP } from '~/src/util/net.ts'
+import { AddrFamily, familyOf, unspecifiedAddr } from '~/src/util/net.ts'
 
 /**
  * LocalNode must be a Node, and it contains the node's routing table and file info hashs
@@ -15,15 +15,32 @@ export default class LocalNode extends Node {
     return true
   }
 
+  /**
+   * whether the external address is known, it's unspecified until it's given or agreed by the responding nodes
+   */
+  get hasExternalAddr() {
+    return this.addr !== unspecifiedAddr(familyOf(this.addr))
+  }
+
   /**
    * create a local node
    * @param port the port of the node
+   * @param family the address family of the node, default is ipv4
+   * @param id the preferred id, e.g. the restored one, it's only used if it matches the external ip, see BEP 42
+   * @param externalAddr the external address of the node, if it's unknown, the preferred id or a random id is used
+   * until the responding nodes agree on our address
    * @returns the local node
    */
-  static async createLocalNode(port: number) {
-    // generate a relatively stable nodeId, through the mac address
-    const idByMacAddr = await Id.createIdByMacAddr()
-    const addr = await getIP()
-    return new LocalNode(idByMacAddr, port, addr)
+  static createLocalNode(port: number, family: AddrFamily = 'ipv4', id?: Id, externalAddr?: string) {
+    if (externalAddr === undefined) {
+      return new LocalNode(id ?? Id.random(), port, unspecifiedAddr(family))
+    }
+
+    if (familyOf(externalAddr) !== family) {
+      throw new Error(`the external address should be an ${family} address, but got ${externalAddr}`)
+    }
+    // the other nodes only trust the id generated from our external ip
+    const nodeId = id && id.isValidFor(externalAddr) ? id : Id.createIdByIp(externalAddr)
+    return new LocalNode(nodeId, port, externalAddr)
   }
 }
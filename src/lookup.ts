@@ -0,0 +1,332 @@
+import { BitArray } from 'toolkit'
+import Id from '~/src/id.ts'
+import Item from '~/src/item.ts'
+import Sender from '~/src/krpc/sender.ts'
+import { Message, QueryType } from '~/src/message_factory.ts'
+import Node from '~/src/node.ts'
+import Peer from '~/src/peer.ts'
+import { Logger } from '~/src/util/log.ts'
+import { AddrFamily, familyOf } from '~/src/util/net.ts'
+
+/**
+ * the query types which can drive a lookup
+ */
+export type LookupType = QueryType.FIND_NODE | QueryType.GET_PEERS | QueryType.GET
+
+/**
+ * a node which answered the lookup, with the token it returned (only for get_peers and get)
+ */
+export type LookupNode = {
+  node: Node
+  token?: Uint8Array
+}
+
+export type LookupResult = {
+  target: Id // the target id or info hash of the lookup
+  peers: Peer[] // the peers found, only for get_peers lookup
+  items: Item[] // the items returned, not verified yet, only for get lookup
+  nodes: LookupNode[] // the k closest nodes of each family which answered, sorted by distance to the target
+  queried: number // how many queries have been sent
+  hops: number // the most referrals from a seed to one of the closest nodes, a seed is 0 hops
+}
+
+enum CandidateState {
+  PENDING, // not queried yet
+  QUERYING, // the query is in flight
+  RESPONDED, // the node answered the query
+  FAILED // the node timed out or answered with an error
+}
+
+type Candidate = {
+  node: Node
+  distance: BitArray // xor distance to the target
+  state: CandidateState
+  token?: Uint8Array
+  hops: number // how many referrals from a seed to the node
+}
+
+/**
+ * Lookup is an iterative kademlia lookup for find_node, get_peers or get
+ *
+ * it keeps a shortlist of candidates sorted by xor distance to the target, queries the closest unqueried candidates,
+ * at most α queries in flight, and finishes when the k closest candidates which did not fail have all answered
+ *
+ * a lookup can run on the IPv4 and IPv6 dht networks together, each family has its own shortlist and converges alone,
+ * the nodes of both families are requested with the want argument of BEP 32, and the results are merged
+ */
+export default class Lookup {
+  #type: LookupType
+  #target: Id
+  #senders: Map<AddrFamily, Sender> // the sender of each family
+  #shortlists = new Map<AddrFamily, Candidate[]>() // sorted by distance to the target, the closest is the first
+  #candidates = new Map<string, Candidate>() // <addr:port, candidate>
+  #peers = new Map<string, Peer>() // <addr:port, peer>
+  #salt?: Uint8Array
+  #k: number // the count of closest nodes the lookup converges to
+  #alpha: number // the max count of queries in flight
+  #items: Item[] = []
+  #queried = 0
+  #done = false
+  #logger: Logger
+  #resolve!: (result: LookupResult) => void
+  #promise: Promise<LookupResult>
+
+  /**
+   * @param type find_node, get_peers or get
+   * @param target the target node id, the info hash for get_peers, or the target of the item for get
+   * @param senders the sender of each family to send queries with, k and α are taken from their options
+   * @param salt the salt of the mutable item, only for get
+   */
+  constructor(type: LookupType, target: Id, senders: Map<AddrFamily, Sender>, salt?: Uint8Array) {
+    this.#type = type
+    this.#target = target
+    this.#senders = senders
+    this.#salt = salt
+    const { options, loggers } = senders.values().next().value!.context
+    this.#k = options.k
+    this.#alpha = options.alpha
+    this.#logger = loggers.get('lookup')
+    for (const family of senders.keys()) {
+      this.#shortlists.set(family, [])
+    }
+    this.#promise = new Promise((resolve) => (this.#resolve = resolve))
+  }
+
+  get type() {
+    return this.#type
+  }
+
+  get target() {
+    return this.#target
+  }
+
+  get isDone() {
+    return this.#done
+  }
+
+  /**
+   * start the lookup from the seed nodes
+   * @param seeds the start nodes, commonly the closest nodes in the routing table
+   * @returns the result when the lookup is done
+   */
+  run(seeds: Node[]): Promise<LookupResult> {
+    this.#logger.debug('start', { query: this.#type, target: this.#target, seeds: seeds.length })
+
+    for (const node of seeds) {
+      this.addCandidate(node, 0)
+    }
+
+    this.next()
+
+    return this.#promise
+  }
+
+  /**
+   * the queried node answered
+   * @param candidate the queried candidate
+   * @param response the response message
+   */
+  private onResponse(candidate: Candidate, response: Message) {
+    if (this.#done) return
+
+    candidate.state = CandidateState.RESPONDED
+    candidate.token = response.r?.token
+    // the node id may be unknown or wrong before it answered, e.g. the bootstrap node,
+    // so the candidate is ranked again by the id it answered with
+    candidate.node = new Node(Id.fromUnit8Array(response.r!.id), candidate.node.port, candidate.node.addr)
+    candidate.distance = candidate.node.id.distance(this.#target)
+    const shortlist = this.#shortlists.get(familyOf(candidate.node.addr))!
+    shortlist.splice(shortlist.indexOf(candidate), 1)
+    this.insert(shortlist, candidate)
+
+    for (const bytes of response.r?.values ?? []) {
+      try {
+        const peer = Peer.fromCompact(bytes)
+        const key = Lookup.key(peer)
+        if (!this.#peers.has(key)) {
+          this.#peers.set(key, peer)
+          this.senderOf(candidate.node).context.events.emit('peer', { infoHash: this.#target.bits.bytes, peer })
+        }
+      } catch (_) {
+        this.#logger.warn('invalid peer bytes', {
+          query: this.#type,
+          addr: candidate.node.addr,
+          port: candidate.node.port
+        })
+      }
+    }
+
+    const item = this.#type === QueryType.GET ? Item.from(response.r!, this.#salt) : undefined
+    if (item) {
+      this.#items.push(item)
+    }
+
+    if (response.r?.nodes) {
+      for (const node of Node.fromCompactList(response.r.nodes, 'ipv4')) {
+        this.addCandidate(node, candidate.hops + 1)
+      }
+    }
+
+    if (response.r?.nodes6) {
+      for (const node of Node.fromCompactList(response.r.nodes6, 'ipv6')) {
+        this.addCandidate(node, candidate.hops + 1)
+      }
+    }
+
+    this.next()
+  }
+
+  /**
+   * the queried node timed out, answered with an error, or the query can not be sent
+   * @param candidate the queried candidate
+   * @param error the error of the query
+   */
+  private onFailure(candidate: Candidate, error: Error) {
+    if (this.#done) return
+
+    this.#logger.debug('the query failed', {
+      query: this.#type,
+      addr: candidate.node.addr,
+      port: candidate.node.port,
+      error
+    })
+    candidate.state = CandidateState.FAILED
+
+    this.next()
+  }
+
+  private senderOf(node: Peer) {
+    return this.#senders.get(familyOf(node.addr))!
+  }
+
+  private static key(peer: Peer) {
+    return `${peer.addr}:${peer.port}`
+  }
+
+  /**
+   * add a node to the shortlist of its family, keep the shortlist sorted by distance to the target
+   * @param node
+   * @param hops how many referrals from a seed to the node
+   */
+  private addCandidate(node: Node, hops: number) {
+    const key = Lookup.key(node)
+    const family = familyOf(node.addr)
+    const shortlist = this.#shortlists.get(family)
+
+    // skip the nodes of the family which is not enabled, and the local node
+    if (!shortlist || this.#candidates.has(key) || node.id.equals(this.#senders.get(family)!.localId)) {
+      return
+    }
+
+    const candidate: Candidate = {
+      node,
+      distance: node.id.distance(this.#target),
+      state: CandidateState.PENDING,
+      hops
+    }
+    this.#candidates.set(key, candidate)
+    this.insert(shortlist, candidate)
+  }
+
+  /**
+   * insert the candidate into the shortlist by distance
+   */
+  private insert(shortlist: Candidate[], candidate: Candidate) {
+    const index = shortlist.findIndex((c) => candidate.distance.lessThan(c.distance))
+    if (index === -1) {
+      shortlist.push(candidate)
+    } else {
+      shortlist.splice(index, 0, candidate)
+    }
+  }
+
+  /**
+   * send queries to the closest pending candidates, or finish the lookup if all families converged
+   */
+  private next() {
+    if (this.#done) return
+
+    let converged = true
+
+    for (const shortlist of this.#shortlists.values()) {
+      const closest = shortlist.filter((c) => c.state !== CandidateState.FAILED).slice(0, this.#k)
+
+      // the k closest nodes have all answered, the lookup of the family is converged
+      if (closest.every((c) => c.state === CandidateState.RESPONDED)) {
+        continue
+      }
+
+      converged = false
+
+      let inflight = shortlist.filter((c) => c.state === CandidateState.QUERYING).length
+
+      for (const candidate of closest) {
+        if (inflight >= this.#alpha) break
+        if (candidate.state !== CandidateState.PENDING) continue
+
+        this.query(candidate)
+        inflight++
+      }
+    }
+
+    if (converged) {
+      this.finish()
+    }
+  }
+
+  private query(candidate: Candidate) {
+    candidate.state = CandidateState.QUERYING
+    this.#queried++
+
+    const { node } = candidate
+    const sender = this.senderOf(node)
+    // ask for the nodes of all enabled families
+    const want = [...this.#senders.keys()]
+    let querying: Promise<Message>
+    switch (this.#type) {
+      case QueryType.GET_PEERS:
+        querying = sender.getPeers(node, this.#target.bits.bytes, want)
+        break
+      case QueryType.GET:
+        querying = sender.get(node, this.#target, undefined, want)
+        break
+      default:
+        querying = sender.findNode(node, this.#target, want)
+    }
+
+    querying
+      .then(
+        (response) => this.onResponse(candidate, response),
+        (error) => this.onFailure(candidate, error)
+      )
+      // a response which can't be handled, e.g. a malformed item, is the same as a failed query
+      .catch((error) => this.onFailure(candidate, error))
+  }
+
+  private finish() {
+    this.#done = true
+
+    // the k closest nodes of each family, merged by distance
+    const closest = [...this.#shortlists.values()]
+      .flatMap((shortlist) => shortlist.filter((c) => c.state === CandidateState.RESPONDED).slice(0, this.#k))
+      .sort((a, b) => (a.distance.lessThan(b.distance) ? -1 : 1))
+    const nodes = closest.map((c) => ({ node: c.node, token: c.token }))
+
+    this.#logger.info('done', {
+      query: this.#type,
+      target: this.#target,
+      queried: this.#queried,
+      peers: this.#peers.size,
+      nodes: nodes.length
+    })
+
+    this.#resolve({
+      target: this.#target,
+      peers: [...this.#peers.values()],
+      items: this.#items,
+      nodes,
+      queried: this.#queried,
+      hops: Math.max(0, ...closest.map((c) => c.hops))
+    })
+  }
+}
@@ -1,10 +1,11 @@
 import { Bdecoder, Bencoder } from 'bencode'
 import { concat } from 'std/bytes/concat.ts'
 import Id from '~/src/id.ts'
+import Item, { ItemValue } from '~/src/item.ts'
 import Node from '~/src/node.ts'
 import Peer from '~/src/peer.ts'
-import RoutingTable from '~/src/routing_table.ts'
-import logger from '~/src/util/log.ts'
+import { getLogger } from '~/src/util/log.ts'
+import { AddrFamily } from '~/src/util/net.ts'
 
 export type Message = {
   t: string // transaction id, 2 bytes string
@@ -16,14 +17,30 @@ export type Message = {
     info_hash?: Uint8Array // info hash, only for get_peers or announce_peer query
     implied_port?: number // 0 or 1, 0 means port is the real port, 1 means port is the implied port, only for announce_peer query
     port?: number // port of the peer, only for announce_peer query
-    token?: string // token for announce_peer, only for announce_peer query
+    token?: Uint8Array // token for announce_peer, only for announce_peer query
+    want?: (string | Uint8Array)[] // n4 and/or n6, which families of nodes are wanted, only for find_node or get_peers query, see BEP 32
+    v?: ItemValue // the value of the item, only for put query, see BEP 44
+    k?: Uint8Array // ed25519 public key, only for mutable put query
+    sig?: Uint8Array // ed25519 signature, only for mutable put query
+    seq?: number // sequence number, for mutable get or put query
+    cas?: number // compare and swap, the expected current sequence number, only for mutable put query
+    salt?: Uint8Array // the salt of the mutable item, only for mutable put query
   } // arguments, only for query message
   r?: {
     id: Uint8Array // node id of the responding node
-    nodes?: Uint8Array // compact node info, only for find_node response
+    nodes?: Uint8Array // compact node info, only for find_node or get_peers response
+    nodes6?: Uint8Array // compact IPv6 node info, only for find_node or get_peers response, see BEP 32
     values?: Uint8Array[] // compact peer info, only for get_peers response
-    token?: string // token for announce_peer, only for get_peers response
+    token?: Uint8Array // token for announce_peer or put, only for get_peers or get response
+    v?: ItemValue // the value of the item, only for get response, see BEP 44
+    k?: Uint8Array // ed25519 public key, only for mutable get response
+    sig?: Uint8Array // ed25519 signature, only for mutable get response
+    seq?: number // sequence number, only for mutable get response
+    interval?: number // seconds to wait before querying the node again, only for sample_infohashes response, see BEP 51
+    num?: number // the count of info hashes stored by the node, only for sample_infohashes response
+    samples?: Uint8Array // concatenated 20 bytes info hashes, only for sample_infohashes response
   } // response data, only for response message
+  ip?: Uint8Array // compact address of the querying node seen by the responding node, only for response, see BEP 42
   e?: [number, string] // error,first is the error code, second is the error message
   v?: string // version of the DHT protocol, only for response or error,  The string should be a two character client identifier registered in BEP 20 [3] followed by a two character version identifier. Not all implementations include a "v" key so clients should not assume its presence.
 }
@@ -44,14 +61,22 @@ export enum QueryType {
   PING = 'ping', // to test whether a node is reachable
   FIND_NODE = 'find_node', // to find the closest nodes to a given target id
   GET_PEERS = 'get_peers', // to get the peers who have announced to download a torrent
-  ANNOUNCE_PEER = 'announce_peer' // to add yourself to the peer list for a torrent
+  ANNOUNCE_PEER = 'announce_peer', // to add yourself to the peer list for a torrent
+  GET = 'get', // to get an item, see BEP 44
+  PUT = 'put', // to store an item, see BEP 44
+  SAMPLE_INFOHASHES = 'sample_infohashes' // to get a sample of the info hashes stored by a node, see BEP 51
 }
 
 export enum ErrorType {
   GENERIC = 201, // generic error
   SERVER = 202, // server error
   PROTOCOL = 203, // protocol error, such as malformed packet, invalid arguments, or bad token
-  METHOD_UNKNOWN = 204 // method unknown
+  METHOD_UNKNOWN = 204, // method unknown
+  MESSAGE_TOO_BIG = 205, // the value of the item is too big, see BEP 44
+  INVALID_SIGNATURE = 206, // the signature of the mutable item is invalid
+  SALT_TOO_BIG = 207, // the salt of the mutable item is too big
+  CAS_MISMATCH = 301, // the cas doesn't match the current sequence number
+  SEQUENCE_TOO_OLD = 302 // the sequence number is less than the current one
 }
 
 /**
@@ -69,8 +94,9 @@ export default class MessageFactory {
   /**
    * decode the message,if the message is invalid, return undefined
    * @param message
+   * @param logger default is the shared krpc logger
    */
-  static async decode(data: Uint8Array): Promise<Message | undefined> {
+  static async decode(data: Uint8Array, logger = getLogger('krpc')): Promise<Message | undefined> {
     try {
       const message = (await MessageFactory.#decoder.d(data)) as Message
 
@@ -80,7 +106,7 @@ export default class MessageFactory {
 
       return message
     } catch (e) {
-      logger.error(`[Bencode] decode message error: ${e}`)
+      logger.debug('decode the message failed', { error: e })
       return undefined
     }
   }
@@ -93,6 +119,20 @@ export default class MessageFactory {
     return await MessageFactory.#encoder.e(this.#message)
   }
 
+  /**
+   * set the transaction id of the message, the tid of a query is allocated when it is sent
+   */
+  set tid(tid: string) {
+    this.#message.t = tid
+  }
+
+  /**
+   * set the address of the querying node seen by us, the querying node can learn its external ip from it, see BEP 42
+   */
+  set ip(compactAddr: Uint8Array) {
+    this.#message.ip = compactAddr
+  }
+
   /**
    * krpc message for request or response
    * @returns
@@ -102,14 +142,13 @@ export default class MessageFactory {
   }
 
   /**
-   * create a ping query message
-   * @param tid transactionId of the message, 2 bytes string
+   * create a ping query message, the tid is allocated when it is sent
    * @param nodeId hex string of node id
    * @return MessageFactory
    */
-  static requestPing(tid: string, nodeId: Id): MessageFactory {
+  static requestPing(nodeId: Id): MessageFactory {
     return new MessageFactory({
-      t: tid,
+      t: '', // allocated when it is sent
       y: MessageType.QUERY,
       q: QueryType.PING,
       a: {
@@ -119,109 +158,243 @@ export default class MessageFactory {
   }
 
   /**
-   * create a find_node query message
-   * @param tid transactionId of the message, 2 bytes string
+   * create a find_node query message, the tid is allocated when it is sent
    * @param nodeId current node id, commonly the local node id, hex string
    * @param targetId which node id you want to find, hex string
+   * @param want the families of nodes wanted, default is the family of the target node
    * @returns MessageFactory
    */
-  static requestFindNode(tid: string, nodeId: Id, targetId: Id): MessageFactory {
+  static requestFindNode(nodeId: Id, targetId: Id, want?: AddrFamily[]): MessageFactory {
     return new MessageFactory({
-      t: tid,
+      t: '', // allocated when it is sent
       y: MessageType.QUERY,
       q: QueryType.FIND_NODE,
       a: {
         id: nodeId.bits.bytes,
-        target: targetId.bits.bytes
+        target: targetId.bits.bytes,
+        ...MessageFactory.wantOf(want)
       }
     })
   }
 
   /**
-   * create a get_peers query message
-   * @param tid transactionId of the message, 2 bytes string
+   * create a get_peers query message, the tid is allocated when it is sent
    * @param nodeId hex string of node id
    * @param infoHash hex string of info hash, 20 bytes string
+   * @param want the families of nodes wanted, default is the family of the target node
    * @returns MessageFactory
    */
-  static requestGetPeers(tid: string, nodeId: Id, infoHash: Uint8Array): MessageFactory {
+  static requestGetPeers(nodeId: Id, infoHash: Uint8Array, want?: AddrFamily[]): MessageFactory {
     return new MessageFactory({
-      t: tid,
+      t: '', // allocated when it is sent
       y: MessageType.QUERY,
       q: QueryType.GET_PEERS,
       a: {
         id: nodeId.bits.bytes,
-        info_hash: infoHash
+        info_hash: infoHash,
+        ...MessageFactory.wantOf(want)
       }
     })
   }
 
   /**
-   * create a announce_peer query message
-   * @param tid transactionId of the message, 2 bytes string
+   * the want argument of find_node and get_peers query, see BEP 32
+   * @param want the families of nodes wanted
+   * @returns
+   */
+  private static wantOf(want?: AddrFamily[]) {
+    if (!want || want.length === 0) return {}
+    return { want: want.map((family) => (family === 'ipv6' ? 'n6' : 'n4')) }
+  }
+
+  /**
+   * parse the want argument of find_node and get_peers query, see BEP 32
+   * @param message the query message
+   * @returns the families of nodes wanted, empty if the querier doesn't specify
+   */
+  static parseWant(message: Message): AddrFamily[] {
+    const want = message.a?.want
+    if (!Array.isArray(want)) return []
+
+    const families = new Set<AddrFamily>()
+    for (const item of want) {
+      const value = typeof item === 'string' ? item : new TextDecoder().decode(item)
+      if (value === 'n4') families.add('ipv4')
+      if (value === 'n6') families.add('ipv6')
+    }
+    return [...families]
+  }
+
+  /**
+   * create a announce_peer query message, the tid is allocated when it is sent
    * @param nodeId hex string of node id
    * @param infoHash hex string of info hash, 20 bytes string
+   * @param token the token received in the get_peers response of the target node
    * @param port port of the peer
+   * @param impliedPort true means the target node should use the source port of the udp packet instead of the port
    * @returns MessageFactory
    */
-  static requestAnnouncePeer(tid: string, nodeId: Id, infoHash: Uint8Array, port: number): MessageFactory {
+  static requestAnnouncePeer(
+    nodeId: Id,
+    infoHash: Uint8Array,
+    token: Uint8Array,
+    port: number,
+    impliedPort = false
+  ): MessageFactory {
     return new MessageFactory({
-      t: tid,
+      t: '', // allocated when it is sent
       y: MessageType.QUERY,
       q: QueryType.ANNOUNCE_PEER,
       a: {
         id: nodeId.bits.bytes,
-        implied_port: 0, // 0 or 1, 0 means port is the real port, 1 means port is the implied port
+        implied_port: impliedPort ? 1 : 0, // 0 or 1, 0 means port is the real port, 1 means port is the implied port
         info_hash: infoHash,
-        port: port
+        port: port,
+        token: token
+      }
+    })
+  }
+
+  /**
+   * create a get query message, the tid is allocated when it is sent, see BEP 44
+   * @param nodeId the local node id
+   * @param target the target of the item
+   * @param seq only return the mutable item if its sequence number is greater than this
+   * @param want the families of nodes wanted, default is the family of the target node
+   * @returns MessageFactory
+   */
+  static requestGet(nodeId: Id, target: Id, seq?: number, want?: AddrFamily[]): MessageFactory {
+    return new MessageFactory({
+      t: '', // allocated when it is sent
+      y: MessageType.QUERY,
+      q: QueryType.GET,
+      a: {
+        id: nodeId.bits.bytes,
+        target: target.bits.bytes,
+        ...(seq !== undefined ? { seq } : {}),
+        ...MessageFactory.wantOf(want)
+      }
+    })
+  }
+
+  /**
+   * create a put query message, the tid is allocated when it is sent, see BEP 44
+   * @param nodeId the local node id
+   * @param token the token received in the get response of the target node
+   * @param item the item to store
+   * @param cas only store the mutable item if the current sequence number is this
+   * @returns MessageFactory
+   */
+  static requestPut(nodeId: Id, token: Uint8Array, item: Item, cas?: number): MessageFactory {
+    return new MessageFactory({
+      t: '', // allocated when it is sent
+      y: MessageType.QUERY,
+      q: QueryType.PUT,
+      a: {
+        id: nodeId.bits.bytes,
+        token: token,
+        v: item.value,
+        ...MessageFactory.mutableFieldsOf(item),
+        ...(item.salt ? { salt: item.salt } : {}),
+        ...(cas !== undefined ? { cas } : {})
+      }
+    })
+  }
+
+  /**
+   * the k, seq and sig fields of the mutable item
+   */
+  private static mutableFieldsOf(item: Item) {
+    if (!item.isMutable) return {}
+    return { k: item.publicKey, seq: item.seq, sig: item.signature }
+  }
+
+  /**
+   * create a sample_infohashes query message, the tid is allocated when it is sent, see BEP 51
+   * @param nodeId the local node id
+   * @param target the target id, the closest nodes of it are returned
+   * @param want the families of nodes wanted, default is the family of the target node
+   * @returns MessageFactory
+   */
+  static requestSampleInfoHashes(nodeId: Id, target: Id, want?: AddrFamily[]): MessageFactory {
+    return new MessageFactory({
+      t: '', // allocated when it is sent
+      y: MessageType.QUERY,
+      q: QueryType.SAMPLE_INFOHASHES,
+      a: {
+        id: nodeId.bits.bytes,
+        target: target.bits.bytes,
+        ...MessageFactory.wantOf(want)
       }
     })
   }
 
-  static responsePing(tid: string): MessageFactory {
+  static responsePing(tid: string, nodeId: Id): MessageFactory {
     return new MessageFactory({
       t: tid,
       y: MessageType.RESPONSE,
       r: {
-        id: RoutingTable.get().localNode.id.bits.bytes // local node id
+        id: nodeId.bits.bytes // local node id
       }
     })
   }
 
-  static responseFindNode(tid: string, nodes: Node[]): MessageFactory {
-    // convert nodes to bytes witch compact node info
-    // 20 bytes node id + 4 bytes ip + 2 bytes port
-    const compactNodeList = nodes.map((node) => node.toCompact())
+  /**
+   * create a find_node response message
+   * @param tid transactionId of the query
+   * @param nodeId the local node id
+   * @param nodes the closest IPv4 nodes
+   * @param nodes6 the closest IPv6 nodes, see BEP 32
+   * @returns MessageFactory
+   */
+  static responseFindNode(tid: string, nodeId: Id, nodes: Node[] = [], nodes6: Node[] = []): MessageFactory {
+    if (nodes.length === 0 && nodes6.length === 0) {
+      throw new Error('must provide nodes or nodes6')
+    }
 
     return new MessageFactory({
       t: tid,
       y: MessageType.RESPONSE,
       r: {
-        id: RoutingTable.get().localNode.id.bits.bytes, // local node id
-        nodes: concat(...compactNodeList)
+        id: nodeId.bits.bytes, // local node id
+        ...MessageFactory.compactNodes(nodes, nodes6)
       }
     })
   }
 
-  static responseGetPeers(tid: string, peers?: Peer[], nodes?: Node[], token?: string): MessageFactory {
-    const hasPeers = peers && peers.length > 0
-    const hasNodes = nodes && nodes.length > 0
+  /**
+   * create a get_peers response message with peers or closest nodes, the token is always returned
+   * @param tid transactionId of the query
+   * @param nodeId the local node id
+   * @param token the token for the next announce_peer query of the request node
+   * @param peers the peers of the info hash
+   * @param nodes the closest IPv4 nodes of the info hash
+   * @param nodes6 the closest IPv6 nodes of the info hash, see BEP 32
+   * @returns MessageFactory
+   */
+  static responseGetPeers(
+    tid: string,
+    nodeId: Id,
+    token: Uint8Array,
+    peers: Peer[] = [],
+    nodes: Node[] = [],
+    nodes6: Node[] = []
+  ): MessageFactory {
+    const hasPeers = peers.length > 0
+    const hasNodes = nodes.length > 0 || nodes6.length > 0
 
     if (!hasPeers && !hasNodes) {
       throw new Error('must provide peers or nodes')
     }
 
     if (hasNodes) {
-      // convert nodes to bytes witch compact node info
-      // 20 bytes node id + 4 bytes ip + 2 bytes port
-      const compcatNodeList = nodes?.map((node) => node.toCompact())
-
       return new MessageFactory({
         t: tid,
         y: MessageType.RESPONSE,
         r: {
-          id: RoutingTable.get().localNode.id.bits.bytes, // local node id
-          nodes: concat(...compcatNodeList)
+          id: nodeId.bits.bytes, // local node id
+          token: token,
+          ...MessageFactory.compactNodes(nodes, nodes6)
         }
       })
     } else {
@@ -229,20 +402,118 @@ export default class MessageFactory {
         t: tid,
         y: MessageType.RESPONSE,
         r: {
-          id: RoutingTable.get().localNode.id.bits.bytes, // local node id
+          id: nodeId.bits.bytes, // local node id
           token: token,
-          values: peers?.map((peer) => peer.toCompact())
+          values: peers.map((peer) => peer.toCompact())
         }
       })
     }
   }
 
-  static responseAnnouncePeer(tid: string): MessageFactory {
+  /**
+   * convert nodes to bytes witch compact node info
+   * nodes: 20 bytes node id + 4 bytes ip + 2 bytes port
+   * nodes6: 20 bytes node id + 16 bytes ip + 2 bytes port
+   */
+  private static compactNodes(nodes: Node[], nodes6: Node[]) {
+    const compact: { nodes?: Uint8Array; nodes6?: Uint8Array } = {}
+    if (nodes.length > 0) {
+      compact.nodes = concat(...nodes.map((node) => node.toCompact()))
+    }
+    if (nodes6.length > 0) {
+      compact.nodes6 = concat(...nodes6.map((node) => node.toCompact()))
+    }
+    return compact
+  }
+
+  /**
+   * create a get response message with the item and the closest nodes, the token is always returned, see BEP 44
+   * @param tid transactionId of the query
+   * @param nodeId the local node id
+   * @param token the token for the next put query of the request node
+   * @param item the stored item of the target
+   * @param nodes the closest IPv4 nodes of the target
+   * @param nodes6 the closest IPv6 nodes of the target
+   * @param onlySeq only return the sequence number of the mutable item, when the querier already has the newest one
+   * @returns MessageFactory
+   */
+  static responseGet(
+    tid: string,
+    nodeId: Id,
+    token: Uint8Array,
+    item?: Item,
+    nodes: Node[] = [],
+    nodes6: Node[] = [],
+    onlySeq = false
+  ): MessageFactory {
+    let itemFields = {}
+    if (item && onlySeq) {
+      itemFields = { seq: item.seq }
+    } else if (item) {
+      itemFields = { v: item.value, ...MessageFactory.mutableFieldsOf(item) }
+    }
+
+    return new MessageFactory({
+      t: tid,
+      y: MessageType.RESPONSE,
+      r: {
+        id: nodeId.bits.bytes, // local node id
+        token: token,
+        ...itemFields,
+        ...MessageFactory.compactNodes(nodes, nodes6)
+      }
+    })
+  }
+
+  static responsePut(tid: string, nodeId: Id): MessageFactory {
+    return new MessageFactory({
+      t: tid,
+      y: MessageType.RESPONSE,
+      r: {
+        id: nodeId.bits.bytes // local node id
+      }
+    })
+  }
+
+  /**
+   * create a sample_infohashes response message, see BEP 51
+   * @param tid transactionId of the query
+   * @param nodeId the local node id
+   * @param interval seconds to wait before querying this node again
+   * @param num the count of info hashes stored by this node
+   * @param samples the sample of the info hashes
+   * @param nodes the closest IPv4 nodes of the target
+   * @param nodes6 the closest IPv6 nodes of the target
+   * @returns MessageFactory
+   */
+  static responseSampleInfoHashes(
+    tid: string,
+    nodeId: Id,
+    interval: number,
+    num: number,
+    samples: Uint8Array[],
+    nodes: Node[] = [],
+    nodes6: Node[] = []
+  ): MessageFactory {
+    return new MessageFactory({
+      t: tid,
+      y: MessageType.RESPONSE,
+      r: {
+        id: nodeId.bits.bytes, // local node id
+        interval: interval,
+        num: num,
+        samples: concat(...samples),
+        ...MessageFactory.compactNodes(nodes, nodes6)
+      }
+    })
+  }
+
+  static responseAnnouncePeer(tid: string, nodeId: Id): MessageFactory {
     return new MessageFactory({
       t: tid,
       y: MessageType.RESPONSE,
       r: {
-        id: RoutingTable.get().localNode.id.bits.bytes // local node id
+        id: nodeId.bits.bytes // local node id
       }
     })
   }
@@ -0,0 +1,152 @@
+import { KRPCContext } from '~/src/krpc/context.ts'
+import { NodeState } from '~/src/node.ts'
+
+type Labels = Record<string, string | number>
+
+type Sample = {
+  labels: Labels
+  value: number
+}
+
+type Family = {
+  name: string
+  help: string
+  type: 'counter' | 'gauge'
+  samples: Sample[]
+}
+
+/**
+ * the label of a value taken from a remote packet
+ * @param value e.g. the query type or the error code
+ * @param known the values of the protocol
+ * @returns the value if it's known, otherwise other
+ */
+export function knownLabel(value: unknown, known: readonly (string | number)[]): string | number {
+  return known.includes(value as string | number) ? (value as string | number) : 'other'
+}
+
+/**
+ * Metrics counts what the krpc of each family sends and receives, and renders the counters together with the
+ * gauges of the routing tables and the stores in the Prometheus text format
+ *
+ * the counters are created at the first increment, the labels taken from the remote packets should be mapped by
+ * knownLabel, so a node can't create unlimited series
+ */
+export default class Metrics {
+  static PREFIX = 'dht_'
+  #counters = new Map<string, Map<string, Sample>>() // <name, <the labels as key, sample>>
+  #help = new Map<string, string>()
+
+  constructor() {
+    this.describe('messages_received_total', 'the messages received, by the message type and the query type')
+    this.describe('messages_sent_total', 'the messages sent, by the message type and the query type')
+    this.describe('errors_received_total', 'the krpc errors received, by the error code')
+    this.describe('errors_sent_total', 'the krpc errors sent, by the error code')
+    this.describe('query_timeouts_total', 'the queries not answered in time, by the query type')
+    this.describe('decode_failures_total', 'the packets which are not valid bencoded krpc messages')
+    this.describe('dropped_queries_total', 'the queries dropped by the inbound rate limit, by the limit, ip or total')
+  }
+
+  /**
+   * add to a counter
+   * @param name the name without the prefix, it should be described in the constructor
+   * @param labels
+   * @param value default is 1
+   */
+  inc(name: string, labels: Labels = {}, value = 1) {
+    let samples = this.#counters.get(name)
+    if (!samples) {
+      samples = new Map()
+      this.#counters.set(name, samples)
+    }
+
+    const key = JSON.stringify(labels)
+    const sample = samples.get(key)
+    if (sample) {
+      sample.value += value
+    } else {
+      samples.set(key, { labels, value })
+    }
+  }
+
+  /**
+   * render the counters and the current gauges of the dht
+   * @param context the state of the dht
+   * @returns the Prometheus text format, version 0.0.4
+   */
+  render(context: KRPCContext) {
+    const families: Family[] = []
+    for (const [name, samples] of this.#counters) {
+      families.push({ name, help: this.#help.get(name) ?? name, type: 'counter', samples: [...samples.values()] })
+    }
+    families.push(...this.gauges(context))
+
+    const lines: string[] = []
+    for (const { name, help, type, samples } of families) {
+      const fullName = Metrics.PREFIX + name
+      lines.push(`# HELP ${fullName} ${help}`, `# TYPE ${fullName} ${type}`)
+      for (const { labels, value } of samples) {
+        lines.push(`${fullName}${this.formatLabels(labels)} ${value}`)
+      }
+    }
+    return lines.join('\n') + '\n'
+  }
+
+  private describe(name: string, help: string) {
+    this.#help.set(name, help)
+  }
+
+  /**
+   * the gauges are read from the state when they are rendered, so they are never stale
+   */
+  private gauges({ routingTables, infoHashes, items, transcations, blackList, options }: KRPCContext): Family[] {
+    const nodes: Sample[] = []
+    const buckets: Sample[] = []
+    for (const [family, table] of routingTables) {
+      const all = table.getAllNodes()
+      for (const state of Object.values(NodeState)) {
+        const count = all.filter((node) => node.getState(options.timeouts.nodeGood) === state).length
+        nodes.push({ labels: { family, state }, value: count })
+      }
+
+      // how many buckets hold each count of nodes, from empty to full
+      const fill = new Array<number>(table.capacity + 1).fill(0)
+      for (const bucket of table.buckets) {
+        fill[Math.min(bucket.size, table.capacity)]++
+      }
+      fill.forEach((value, size) => buckets.push({ labels: { family, nodes: size }, value }))
+    }
+
+    return [
+      {
+        name: 'routing_table_nodes',
+        help: 'the nodes in the routing table, by the state',
+        type: 'gauge',
+        samples: nodes
+      },
+      {
+        name: 'routing_table_buckets',
+        help: 'the buckets of the routing table, by the count of nodes they hold',
+        type: 'gauge',
+        samples: buckets
+      },
+      this.gauge('info_hashes', 'the info hashes announced to us', infoHashes.size),
+      this.gauge('peers', 'the peers announced to us', infoHashes.peerCount),
+      this.gauge('peer_store_bytes', 'the estimated memory of the peer store', infoHashes.bytes),
+      this.gauge('items', 'the items put to us', items.size),
+      this.gauge('transactions', 'the queries waiting for the response', transcations.size),
+      this.gauge('banned_ips', 'the ips whose queries are dropped', blackList.size)
+    ]
+  }
+
+  private gauge(name: string, help: string, value: number): Family {
+    return { name, help, type: 'gauge', samples: [{ labels: {}, value }] }
+  }
+
+  private formatLabels(labels: Labels) {
+    const pairs = Object.entries(labels).map(
+      ([key, value]) => `${key}="${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+    )
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : ''
+  }
+}
@@ -1,14 +1,28 @@
 import Id from '~/src/id.ts'
 import Peer from '~/src/peer.ts'
-import { extractCompactNode, packageCompactNode } from '~/src/util/net.ts'
+import { AddrFamily, compactNodeLength, extractCompactNode, packageCompactNode } from '~/src/util/net.ts'
+import { BytesUtil } from 'toolkit'
+
+/**
+ * the health of a node, see BEP 5
+ */
+export enum NodeState {
+  GOOD = 'good', // responded to our query in 15 minutes, or ever responded and queried us in 15 minutes
+  QUESTIONABLE = 'questionable', // no activity in 15 minutes, it should be pinged
+  BAD = 'bad' // failed to respond to our queries multiple times in a row, it should be dropped
+}
 
 /**
  * Node must be a Peer, and it contains the node's id, routing table and file info hashs
  */
 export default class Node extends Peer {
-  readonly ACTIVE_RANGE = 5 * 60 * 1000 // 5 minutes
+  static GOOD_RANGE = 15 * 60 * 1000 // 15 minutes, the default time a node stays good after it was active
+  static MAX_FAILURES = 2 // the node is bad after failing this many queries in a row
   #id: Id // 20 bytes sha1 hash
   #activedAt!: number // the last active time of the node
+  #respondedAt?: number // the last time the node responded to our query
+  #queriedAt?: number // the last time the node queried us
+  #failures = 0 // the count of failed queries in a row
 
   constructor(id: Id, port: number, addr: string) {
     super(port, addr)
@@ -24,8 +38,58 @@ export default class Node extends Peer {
     return this.#activedAt
   }
 
+  get failures() {
+    return this.#failures
+  }
+
+  get state(): NodeState {
+    return this.getState()
+  }
+
+  /**
+   * get the health of the node
+   * @param goodRange how long the node stays good after it responded, or queried us once it ever responded
+   */
+  getState(goodRange = Node.GOOD_RANGE): NodeState {
+    if (this.#failures >= Node.MAX_FAILURES) {
+      return NodeState.BAD
+    }
+
+    const now = Date.now()
+    if (this.#respondedAt !== undefined) {
+      if (now - this.#respondedAt < goodRange) return NodeState.GOOD
+      if (this.#queriedAt !== undefined && now - this.#queriedAt < goodRange) return NodeState.GOOD
+    }
+
+    return NodeState.QUESTIONABLE
+  }
+
   isActive() {
-    return Date.now() - this.#activedAt < this.ACTIVE_RANGE
+    return this.state === NodeState.GOOD
+  }
+
+  /**
+   * the node responded to our query
+   */
+  responded() {
+    this.#respondedAt = Date.now()
+    this.#failures = 0
+    this.updateActivedAt()
+  }
+
+  /**
+   * the node sent a query to us
+   */
+  queried() {
+    this.#queriedAt = Date.now()
+    this.updateActivedAt()
+  }
+
+  /**
+   * the node failed to respond to our query
+   */
+  failed() {
+    this.#failures++
   }
 
   get id() {
@@ -50,4 +114,18 @@ export default class Node extends Peer {
 
     return new Node(id, port, addr)
   }
+
+  /**
+   * create nodes from concatenated compact node info, e.g. the nodes or nodes6 of find_node response
+   * @param bytes the length must be a multiple of the compact node length of the family
+   * @param family ipv4 for nodes, ipv6 for nodes6
+   */
+  static fromCompactList(bytes: Uint8Array, family: AddrFamily = 'ipv4') {
+    const length = compactNodeLength(family)
+    if (bytes.length % length !== 0) {
+      throw new Error(`bytes length must be a multiple of ${length}, but got ${bytes.length}`)
+    }
+
+    return BytesUtil.chunkBytes(bytes, length).map((nodeBytes: Uint8Array) => Node.fromCompact(nodeBytes))
+  }
 }
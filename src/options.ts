@@ -0,0 +1,312 @@
+import Id from '~/src/id.ts'
+import { PeerStoreOptions } from '~/src/info_hash_manager.ts'
+import { ItemStoreOptions } from '~/src/item_manager.ts'
+import { RateLimits, TokenBucketOptions } from '~/src/rate_limiter.ts'
+import { DEFAULT_PORT_MAPPING, PortMappingConfig, PortMappingOptions } from '~/src/port_mapping/port_mapping_manager.ts'
+import { NodeIdSecurity } from '~/src/routing_table.ts'
+import { StateOptions } from '~/src/state_store.ts'
+import Transport from '~/src/transport/transport.ts'
+import { LOG_LEVELS, LogOptions, Subsystem, SUBSYSTEMS } from '~/src/util/log.ts'
+import { AddrFamily, isAddr, isIPv6Str } from '~/src/util/net.ts'
+import { NetUtil } from 'toolkit'
+
+export type BootstrapNode = { addr: string; port: number }
+
+/**
+ * the resolved settings of a dht, see DEFAULT_OPTIONS for the defaults
+ */
+export type DHTConfig = {
+  port: number // the port to listen on, the IPv4 and IPv6 dht listen on the same port
+  bind: Record<AddrFamily, string> // the local address each family listens on
+  families: AddrFamily[] // the address families to enable, see BEP 32
+  bootstrapNodes: BootstrapNode[] // asked for the first nodes when the routing tables are almost empty
+  ids: Partial<Record<AddrFamily, Id>> // the preferred node id of each family, only used if it matches the external ip
+  addrs: Partial<Record<AddrFamily, string>> // the fixed external address of each family, voted by the responding nodes if unset
+  ipLookup: boolean // ask ipify for the external address on listen if it's not fixed, the votes can still change it
+  transport?: (family: AddrFamily, port: number) => Transport // creates the transport of each family, default is udp
+  portMapping?: PortMappingConfig // forward the port on the NAT gateway with PCP, NAT-PMP or UPnP, off if unset
+  security: NodeIdSecurity // how the node ids of remote nodes are checked, see BEP 42
+  state?: StateOptions // where and how often to save the state, the saved state is restored on listen
+  k: number // the capacity of a bucket, and the count of closest nodes a lookup converges to
+  alpha: number // the max count of queries in flight of a lookup
+  timeouts: {
+    query: number // how long to wait for the response of a query
+    transaction: number // how long the transaction id of a query is reserved
+    nodeGood: number // how long a node stays good after it responded, see BEP 5
+    maintain: number // how often the routing tables are maintained
+    bucketRefresh: number // the bucket which has not changed in this time is refreshed
+  }
+  storage: {
+    peers: Required<PeerStoreOptions> // the announced peers
+    items: Required<ItemStoreOptions> // the items put to us, see BEP 44
+  }
+  rateLimits: {
+    inbound: RateLimits // the queries received per second, the ip exceeding its limit is striked and banned at last
+    outbound: RateLimits // the messages sent per second, the per ip limit stops us being used to flood a spoofed ip
+  }
+  log: LogOptions // the levels of the subsystems, the format and the outputs, unset keeps the logger as it is
+}
+
+/**
+ * the options of DHT.listen, every field is optional, the missing ones are taken from DEFAULT_OPTIONS
+ */
+export type DHTOptions = Partial<Omit<DHTConfig, 'portMapping' | 'timeouts' | 'storage' | 'rateLimits' | 'log'>> & {
+  portMapping?: PortMappingOptions | boolean // true maps with the default options
+  timeouts?: Partial<DHTConfig['timeouts']>
+  storage?: { peers?: PeerStoreOptions; items?: ItemStoreOptions }
+  rateLimits?: { inbound?: RateLimitOptions; outbound?: RateLimitOptions }
+  log?: DHTConfig['log']
+}
+
+/**
+ * the limits of a direction, the missing ones are taken from the defaults
+ */
+export type RateLimitOptions = { perIp?: Partial<TokenBucketOptions>; total?: Partial<TokenBucketOptions> }
+
+/**
+ * the default settings, read them at runtime to see what a missing option means
+ */
+export const DEFAULT_OPTIONS: Readonly<DHTConfig> = freeze<DHTConfig>({
+  port: 6881,
+  bind: { ipv4: '0.0.0.0', ipv6: '::' }, // all interfaces
+  families: ['ipv4'],
+  bootstrapNodes: [
+    { addr: 'router.bittorrent.com', port: 6881 },
+    { addr: 'dht.transmissionbt.com', port: 6881 },
+    { addr: 'router.utorrent.com', port: 6881 },
+    { addr: 'dht.aelitis.com', port: 6881 }
+  ],
+  ids: {},
+  addrs: {},
+  ipLookup: false, // no request to a third party, the responding nodes tell us our ip, see BEP 42
+  security: 'agreed', // check once enough nodes agree on our external ip
+  k: 8,
+  alpha: 3,
+  timeouts: {
+    query: 10 * 1000, // 10 seconds
+    transaction: 5 * 60 * 1000, // 5 minutes
+    nodeGood: 15 * 60 * 1000, // 15 minutes
+    maintain: 60 * 1000, // 1 minute
+    bucketRefresh: 15 * 60 * 1000 // 15 minutes
+  },
+  storage: {
+    peers: { peerTTL: 30 * 60 * 1000, maxPeers: 100, maxBytes: 64 * 1024 * 1024 }, // 30 minutes, 64MB
+    items: { ttl: 2 * 60 * 60 * 1000, maxItems: 64 * 1024 } // 2 hours
+  },
+  rateLimits: {
+    inbound: { perIp: { rate: 5, burst: 20 }, total: { rate: 500, burst: 1000 } },
+    outbound: { perIp: { rate: 20, burst: 50 }, total: { rate: 1000, burst: 2000 } }
+  },
+  log: {}
+})
+
+// the defaults of the port mapping, they are only used if the portMapping option is given
+export { DEFAULT_PORT_MAPPING }
+
+/**
+ * a plain object, not null nor an array
+ */
+function isObject<T>(value: T | null | undefined): value is Exclude<T, null | undefined | boolean> & object {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function check(valid: boolean, message: string) {
+  if (!valid) {
+    throw new Error(`invalid options, ${message}`)
+  }
+}
+
+function isFamilyAddr(addr: string, family: AddrFamily) {
+  return family === 'ipv6' ? isIPv6Str(addr) : NetUtil.isIPv4Str(addr)
+}
+
+function checkPositive(value: number, name: string) {
+  check(
+    typeof value === 'number' && value > 0 && Number.isFinite(value),
+    `${name} should be a positive number, but got ${value}`
+  )
+}
+
+function checkCount(value: number, name: string) {
+  check(Number.isInteger(value) && value >= 1, `${name} should be an integer >= 1, but got ${value}`)
+}
+
+function checkBucket({ rate, burst }: TokenBucketOptions, name: string) {
+  checkPositive(rate, `${name}.rate`)
+  check(typeof burst === 'number' && burst >= 1, `${name}.burst should be >= 1, but got ${burst}`)
+}
+
+function checkString(value: unknown, name: string) {
+  check(typeof value === 'string' && value.length > 0, `${name} should be a non-empty string, but got ${value}`)
+}
+
+function checkBoolean(value: unknown, name: string) {
+  check(value === undefined || typeof value === 'boolean', `${name} should be a boolean, but got ${value}`)
+}
+
+/**
+ * copy the defaults and override them with the given options, the undefined options keep the defaults
+ * @param defaults
+ * @param options
+ */
+function merge<T extends object>(defaults: T, options: Partial<T> = {}): T {
+  const merged = { ...defaults }
+  for (const [key, value] of Object.entries(options)) {
+    if (value !== undefined) {
+      merged[key as keyof T] = value as T[keyof T]
+    }
+  }
+  return merged
+}
+
+function mergeLimits(limits: RateLimits, options: RateLimitOptions = {}): RateLimits {
+  return { perIp: merge(limits.perIp, options.perIp), total: merge(limits.total, options.total) }
+}
+
+function mergePortMapping(options: PortMappingOptions | boolean | undefined): PortMappingConfig | undefined {
+  if (!options) {
+    return undefined
+  }
+  const mapping = options === true ? {} : options
+  return {
+    ...merge<PortMappingConfig>(DEFAULT_PORT_MAPPING, mapping),
+    methods: [...(mapping.methods ?? DEFAULT_PORT_MAPPING.methods)],
+    ssdp: merge(DEFAULT_PORT_MAPPING.ssdp, mapping.ssdp)
+  }
+}
+
+/**
+ * deep freeze the resolved options, they are shared by the whole dht and must not change at runtime
+ */
+function freeze<T>(value: T): Readonly<T> {
+  if (value && typeof value === 'object' && !(value instanceof Id) && !Object.isFrozen(value)) {
+    for (const field of Object.values(value)) {
+      freeze(field)
+    }
+    Object.freeze(value)
+  }
+  return value
+}
+
+/**
+ * merge the options with the defaults and validate them, the nested options are merged field by field
+ * @param options they are copied, so the caller's objects are not frozen or changed
+ * @returns the frozen settings
+ * @throws Error if an option is invalid
+ */
+export function resolveOptions(options: DHTOptions = {}): Readonly<DHTConfig> {
+  const { families = DEFAULT_OPTIONS.families, bootstrapNodes = DEFAULT_OPTIONS.bootstrapNodes } = options
+  check(Array.isArray(families), 'families should be an array')
+  check(Array.isArray(bootstrapNodes), 'bootstrapNodes should be an array')
+  check(options.transport === undefined || typeof options.transport === 'function', 'transport should be a function')
+
+  const config: DHTConfig = {
+    port: options.port ?? DEFAULT_OPTIONS.port,
+    bind: merge(DEFAULT_OPTIONS.bind, options.bind),
+    families: [...new Set(families)],
+    bootstrapNodes: bootstrapNodes.map((node) => ({ ...node })),
+    ids: { ...options.ids },
+    addrs: { ...options.addrs },
+    ipLookup: options.ipLookup ?? DEFAULT_OPTIONS.ipLookup,
+    transport: options.transport,
+    portMapping: mergePortMapping(options.portMapping),
+    security: options.security ?? DEFAULT_OPTIONS.security,
+    state: options.state && { ...options.state },
+    k: options.k ?? DEFAULT_OPTIONS.k,
+    alpha: options.alpha ?? DEFAULT_OPTIONS.alpha,
+    timeouts: merge(DEFAULT_OPTIONS.timeouts, options.timeouts),
+    storage: {
+      peers: merge(DEFAULT_OPTIONS.storage.peers, options.storage?.peers),
+      items: merge(DEFAULT_OPTIONS.storage.items, options.storage?.items)
+    },
+    rateLimits: {
+      inbound: mergeLimits(DEFAULT_OPTIONS.rateLimits.inbound, options.rateLimits?.inbound),
+      outbound: mergeLimits(DEFAULT_OPTIONS.rateLimits.outbound, options.rateLimits?.outbound)
+    },
+    log: {
+      ...options.log,
+      levels: isObject(options.log?.levels) ? { ...options.log.levels } : options.log?.levels,
+      file: isObject(options.log?.file) ? { ...options.log.file } : options.log?.file
+    }
+  }
+
+  check(NetUtil.isNetPort(config.port), `port should be in range [0, 65535], but got ${config.port}`)
+
+  check(config.families.length > 0, 'at least one address family should be enabled, ipv4 or ipv6')
+  for (const family of config.families) {
+    check(family === 'ipv4' || family === 'ipv6', `unknown address family ${family}`)
+    check(isFamilyAddr(config.bind[family], family), `bind.${family} should be an ${family} address`)
+    const addr = config.addrs[family]
+    check(addr === undefined || isFamilyAddr(addr, family), `addrs.${family} should be an ${family} address`)
+    const id = config.ids[family]
+    check(id === undefined || id instanceof Id, `ids.${family} should be an Id`)
+  }
+
+  check(config.bootstrapNodes.length > 0, 'at least one bootstrap node should be given')
+  for (const { addr, port } of config.bootstrapNodes) {
+    check(typeof addr === 'string' && isAddr(addr) && NetUtil.isNetPort(port), `invalid bootstrap node ${addr}:${port}`)
+  }
+
+  check(typeof config.ipLookup === 'boolean', `ipLookup should be a boolean, but got ${config.ipLookup}`)
+
+  if (config.portMapping) {
+    const { methods, gateway, gatewayPort, ssdp, lifetime, timeout } = config.portMapping
+    check(methods.length > 0, 'portMapping.methods should not be empty')
+    for (const method of methods) {
+      check(method === 'pcp' || method === 'upnp', `unknown port mapping method ${method}`)
+    }
+    check(gateway === undefined || NetUtil.isIPv4Str(gateway), `portMapping.gateway should be an ipv4 address`)
+    check(NetUtil.isNetPort(gatewayPort), `portMapping.gatewayPort should be in range [0, 65535]`)
+    check(isAddr(ssdp.addr) && NetUtil.isNetPort(ssdp.port), `invalid portMapping.ssdp ${ssdp.addr}:${ssdp.port}`)
+    checkCount(lifetime, 'portMapping.lifetime')
+    checkPositive(timeout, 'portMapping.timeout')
+  }
+
+  check(['off', 'enforce', 'agreed'].includes(config.security), `unknown security mode ${config.security}`)
+
+  if (config.state) {
+    checkString(config.state.path, 'state.path')
+    if (config.state.interval !== undefined) checkPositive(config.state.interval, 'state.interval')
+    checkBoolean(config.state.peers, 'state.peers')
+  }
+
+  checkCount(config.k, 'k')
+  checkCount(config.alpha, 'alpha')
+
+  for (const [name, value] of Object.entries(config.timeouts)) {
+    checkPositive(value, `timeouts.${name}`)
+  }
+
+  checkPositive(config.storage.peers.peerTTL, 'storage.peers.peerTTL')
+  checkCount(config.storage.peers.maxPeers, 'storage.peers.maxPeers')
+  checkPositive(config.storage.peers.maxBytes, 'storage.peers.maxBytes')
+  checkPositive(config.storage.items.ttl, 'storage.items.ttl')
+  checkCount(config.storage.items.maxItems, 'storage.items.maxItems')
+
+  for (const direction of ['inbound', 'outbound'] as const) {
+    checkBucket(config.rateLimits[direction].perIp, `rateLimits.${direction}.perIp`)
+    checkBucket(config.rateLimits[direction].total, `rateLimits.${direction}.total`)
+  }
+
+  const { level, levels = {}, format, console: toConsole, file, handler } = config.log
+  check(level === undefined || LOG_LEVELS.includes(level), `unknown log.level ${level}`)
+  check(isObject(levels), 'log.levels should be an object')
+  for (const [subsystem, value] of Object.entries(levels)) {
+    check(SUBSYSTEMS.includes(subsystem as Subsystem), `unknown log subsystem ${subsystem}`)
+    check(LOG_LEVELS.includes(value), `unknown log level ${value} of ${subsystem}`)
+  }
+  check(format === undefined || format === 'text' || format === 'json', `log.format should be text or json`)
+  checkBoolean(toConsole, 'log.console')
+  check(file === undefined || typeof file === 'boolean' || isObject(file), 'log.file should be a boolean or an object')
+  if (isObject(file)) {
+    if (file.dir !== undefined) checkString(file.dir, 'log.file.dir')
+    if (file.name !== undefined) checkString(file.name, 'log.file.name')
+    if (file.maxBytes !== undefined) checkPositive(file.maxBytes, 'log.file.maxBytes')
+    if (file.maxFiles !== undefined) {
+      check(Number.isInteger(file.maxFiles) && file.maxFiles >= 0, `log.file.maxFiles should be an integer >= 0`)
+    }
+  }
+  check(!handler || typeof handler === 'function', 'log.handler should be a function')
+
+  return freeze(config)
+}
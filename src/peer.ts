@@ -1,5 +1,5 @@
 import { NetUtil } from 'toolkit'
-import { extractCompactAddr, isAddr, packageCompactAddr } from '~/src/util/net.ts'
+import { extractCompactAddr, isAddr, isIPv6Str, packageCompactAddr } from '~/src/util/net.ts'
 
 /**
  * Peer represents a peer in the network, it contains the peer's ip address and port
@@ -20,7 +20,7 @@ export default class Peer {
   }
 
   /**
-   * create a new peer from compact peer info,4 bytes for ipv4, 2 bytes for port
+   * create a new peer from compact peer info,4 bytes for ipv4 or 16 bytes for ipv6, 2 bytes for port
    * @param compactPeerInfo
    */
   static fromCompact(compactPeerInfo: Uint8Array) {
@@ -29,9 +29,11 @@ export default class Peer {
   }
 
   private parseAddrType(addr: string) {
-    let type: 'ipv4' | 'domain'
+    let type: 'ipv4' | 'ipv6' | 'domain'
     if (NetUtil.isIPv4Str(addr)) {
       type = 'ipv4'
+    } else if (isIPv6Str(addr)) {
+      type = 'ipv6'
     } else if (NetUtil.isDomain(addr)) {
       type = 'domain'
     } else {
@@ -0,0 +1,193 @@
+import { TimeoutError } from '~/src/krpc/error.ts'
+import PortMapper, { Mapping } from '~/src/port_mapping/port_mapper.ts'
+import UdpClient from '~/src/port_mapping/udp_client.ts'
+import { getLogger, Logger } from '~/src/util/log.ts'
+import { bytes2IPStr, ipStr2Bytes } from '~/src/util/net.ts'
+
+const PCP_VERSION = 2
+const NAT_PMP_VERSION = 0
+const PCP_MAP = 1 // the MAP opcode of PCP, see RFC 6887
+const NAT_PMP_EXTERNAL_ADDR = 0 // the opcodes of NAT-PMP, see RFC 6886
+const NAT_PMP_MAP_UDP = 1
+const RESPONSE = 0x80 // the opcode of a response is the opcode of the request with the highest bit set
+const UDP = 17 // the protocol number of udp
+
+/**
+ * IPv4 address in the IPv4-mapped IPv6 form, PCP carries the addresses of both families in 16 bytes
+ */
+function mappedIPv4(addr: string) {
+  const bytes = new Uint8Array(16)
+  bytes[10] = 0xff
+  bytes[11] = 0xff
+  bytes.set(ipStr2Bytes(addr), 12)
+  return bytes
+}
+
+function unmapIPv4(bytes: Uint8Array) {
+  const mapped = bytes.slice(0, 10).every((b) => b === 0) && bytes[10] === 0xff && bytes[11] === 0xff
+  return bytes2IPStr(mapped ? bytes.slice(12) : bytes)
+}
+
+/**
+ * NatPmpMapper requests the mapping with PCP, and falls back to NAT-PMP if the gateway answers PCP with the
+ * version of NAT-PMP, see RFC 6887 appendix A
+ *
+ * the request is retransmitted if it's not answered, the first time after 250ms, then the wait is doubled
+ */
+export default class NatPmpMapper implements PortMapper {
+  static PORT = 5351 // the port the gateway listens on
+  static RETRIES = 4 // the count of transmissions of a request
+  #gateway: string
+  #port: number
+  #clientAddr: string // our address on the network of the gateway, PCP requests carry it
+  #nonce = crypto.getRandomValues(new Uint8Array(12)) // identifies our mappings to a PCP gateway
+  #natPmp = false // the gateway only speaks NAT-PMP
+  #logger: Logger
+
+  /**
+   * @param gateway the address of the gateway
+   * @param clientAddr our IPv4 address on the network of the gateway
+   * @param port the port of the gateway, default is 5351
+   * @param logger default is the shared nat logger
+   */
+  constructor(gateway: string, clientAddr: string, port = NatPmpMapper.PORT, logger = getLogger('nat')) {
+    this.#logger = logger
+    this.#gateway = gateway
+    this.#clientAddr = clientAddr
+    this.#port = port
+  }
+
+  async map(internalPort: number, externalPort: number, lifetime: number): Promise<Mapping> {
+    if (!this.#natPmp) {
+      const response = await this.request(this.pcpMap(internalPort, externalPort, lifetime), PCP_MAP)
+      if (response[0] === PCP_VERSION) {
+        return this.parsePcpMap(response)
+      }
+      this.#logger.info("the gateway doesn't speak PCP, use NAT-PMP", { gateway: this.#gateway })
+      this.#natPmp = true
+    }
+
+    const response = await this.request(this.natPmpMap(internalPort, externalPort, lifetime), NAT_PMP_MAP_UDP)
+    const mapping = this.parseNatPmpMap(response)
+
+    // NAT-PMP asks the external address with another request
+    try {
+      const addrResponse = await this.request(
+        new Uint8Array([NAT_PMP_VERSION, NAT_PMP_EXTERNAL_ADDR]),
+        NAT_PMP_EXTERNAL_ADDR
+      )
+      this.checkResult(new DataView(addrResponse.buffer, addrResponse.byteOffset).getUint16(2))
+      mapping.externalIp = bytes2IPStr(addrResponse.slice(8, 12))
+    } catch (e) {
+      this.#logger.warn('get the external address failed', { gateway: this.#gateway, error: e })
+    }
+    return mapping
+  }
+
+  async unmap(mapping: Mapping) {
+    // a mapping is deleted by requesting it with lifetime 0
+    if (this.#natPmp) {
+      await this.request(this.natPmpMap(mapping.internalPort, 0, 0), NAT_PMP_MAP_UDP)
+    } else {
+      await this.request(this.pcpMap(mapping.internalPort, 0, 0), PCP_MAP)
+    }
+  }
+
+  /**
+   * send the request until it's answered
+   * @param data
+   * @param opcode the opcode of the request, the response has the same one
+   * @returns the response, or the NAT-PMP answer to a PCP request
+   */
+  private async request(data: Uint8Array, opcode: number) {
+    const client = new UdpClient()
+    try {
+      let wait = 250
+      for (let i = 0; i < NatPmpMapper.RETRIES; i++) {
+        await client.send(data, this.#gateway, this.#port)
+
+        const deadline = Date.now() + wait
+        let datagram
+        while ((datagram = await client.receive(deadline))) {
+          const { data: response, addr, port } = datagram
+          if (addr !== this.#gateway || port !== this.#port || response.length < 4) continue
+          // a NAT-PMP gateway answers any request of an unknown version with its own version
+          if (response[0] === NAT_PMP_VERSION && data[0] === PCP_VERSION) return response
+          if (response[0] === data[0] && response[1] === (opcode | RESPONSE)) return response
+        }
+        wait *= 2
+      }
+    } finally {
+      client.close()
+    }
+    throw new TimeoutError(`the gateway ${this.#gateway}:${this.#port} did not answer`)
+  }
+
+  private checkResult(code: number) {
+    if (code !== 0) {
+      throw new Error(`the gateway ${this.#gateway} refused the mapping, result code ${code}`)
+    }
+  }
+
+  private pcpMap(internalPort: number, externalPort: number, lifetime: number) {
+    const bytes = new Uint8Array(60)
+    const view = new DataView(bytes.buffer)
+    bytes[0] = PCP_VERSION
+    bytes[1] = PCP_MAP
+    view.setUint32(4, lifetime)
+    bytes.set(mappedIPv4(this.#clientAddr), 8)
+    bytes.set(this.#nonce, 24)
+    bytes[36] = UDP
+    view.setUint16(40, internalPort)
+    view.setUint16(42, externalPort)
+    bytes.set(mappedIPv4('0.0.0.0'), 44) // no suggested external address
+    return bytes
+  }
+
+  private parsePcpMap(bytes: Uint8Array): Mapping {
+    if (bytes.length < 60) {
+      throw new Error(`invalid PCP response from ${this.#gateway}, the length is ${bytes.length}`)
+    }
+    this.checkResult(bytes[3])
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset)
+    if (!bytes.slice(24, 36).every((b, i) => b === this.#nonce[i]) || bytes[36] !== UDP) {
+      throw new Error(`the PCP response from ${this.#gateway} is not of our mapping`)
+    }
+
+    return {
+      method: 'pcp',
+      internalPort: view.getUint16(40),
+      externalPort: view.getUint16(42),
+      externalIp: unmapIPv4(bytes.slice(44, 60)),
+      lifetime: view.getUint32(4)
+    }
+  }
+
+  private natPmpMap(internalPort: number, externalPort: number, lifetime: number) {
+    const bytes = new Uint8Array(12)
+    const view = new DataView(bytes.buffer)
+    bytes[0] = NAT_PMP_VERSION
+    bytes[1] = NAT_PMP_MAP_UDP
+    view.setUint16(4, internalPort)
+    view.setUint16(6, externalPort)
+    view.setUint32(8, lifetime)
+    return bytes
+  }
+
+  private parseNatPmpMap(bytes: Uint8Array): Mapping {
+    if (bytes.length < 16) {
+      throw new Error(`invalid NAT-PMP response from ${this.#gateway}, the length is ${bytes.length}`)
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset)
+    this.checkResult(view.getUint16(2))
+
+    return {
+      method: 'nat-pmp',
+      internalPort: view.getUint16(8),
+      externalPort: view.getUint16(10),
+      lifetime: view.getUint32(12)
+    }
+  }
+}
@@ -0,0 +1,33 @@
+export type PortMappingMethod = 'pcp' | 'upnp'
+
+/**
+ * a udp port forwarded by the gateway
+ */
+export type Mapping = {
+  method: PortMappingMethod | 'nat-pmp' // nat-pmp if the pcp gateway only speaks NAT-PMP
+  internalPort: number // the local port, the port of the dht
+  externalPort: number // the port the other nodes reach us on
+  externalIp?: string // the public ip of the gateway, if it told us
+  lifetime: number // in seconds, 0 means the mapping never expires
+}
+
+/**
+ * PortMapper asks the gateway to forward a udp port of the outside to us
+ * NatPmpMapper speaks PCP and NAT-PMP, UpnpMapper speaks UPnP IGD
+ */
+export default interface PortMapper {
+  /**
+   * request or renew the mapping
+   * @param internalPort the local port
+   * @param externalPort the suggested external port, the gateway may give another one
+   * @param lifetime the requested lifetime in seconds
+   * @returns the mapping the gateway gave
+   */
+  map(internalPort: number, externalPort: number, lifetime: number): Promise<Mapping>
+
+  /**
+   * delete the mapping
+   * @param mapping
+   */
+  unmap(mapping: Mapping): Promise<void>
+}
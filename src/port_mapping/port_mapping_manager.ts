@@ -0,0 +1,188 @@
+import DHTEvents from '~/src/dht_events.ts'
+import NatPmpMapper from '~/src/port_mapping/nat_pmp_mapper.ts'
+import PortMapper, { Mapping, PortMappingMethod } from '~/src/port_mapping/port_mapper.ts'
+import UpnpMapper from '~/src/port_mapping/upnp_mapper.ts'
+import { getLogger, Logger } from '~/src/util/log.ts'
+import { bytes2IPStr, ipStr2Bytes, isPrivateIPv4, localAddrFor } from '~/src/util/net.ts'
+
+export type PortMappingOptions = {
+  methods?: PortMappingMethod[] // tried in order until one works, default is pcp then upnp, pcp falls back to NAT-PMP
+  gateway?: string // the PCP and NAT-PMP gateway, default is the first address of the local network, e.g. 192.168.1.1
+  gatewayPort?: number // the PCP and NAT-PMP port of the gateway, default is 5351
+  ssdp?: { addr: string; port: number } // where the UPnP devices are searched, default is the SSDP multicast address
+  lifetime?: number // the requested lifetime of the mapping in seconds, it's renewed at the half, default is 2 hours
+  timeout?: number // how long to wait for the gateway in milliseconds, default is 3 seconds
+}
+
+/**
+ * the port mapping options with the defaults filled, the gateway is still guessed if it's not given
+ */
+export type PortMappingConfig = Required<Omit<PortMappingOptions, 'gateway'>> & Pick<PortMappingOptions, 'gateway'>
+
+/**
+ * the defaults of the port mapping options
+ */
+export const DEFAULT_PORT_MAPPING: Readonly<PortMappingConfig> = Object.freeze({
+  methods: Object.freeze<PortMappingMethod[]>(['pcp', 'upnp']) as PortMappingMethod[], // pcp falls back to NAT-PMP
+  gatewayPort: NatPmpMapper.PORT,
+  ssdp: Object.freeze({ addr: UpnpMapper.SSDP_ADDR, port: UpnpMapper.SSDP_PORT }), // the multicast address of SSDP
+  lifetime: 2 * 60 * 60, // 2 hours in seconds, renewed at the half
+  timeout: 3000 // 3 seconds
+})
+
+/**
+ * PortMappingManager asks the gateway to forward the udp port of the dht, so the nodes outside the NAT can query us
+ *
+ * the methods are tried in order, the mapping is renewed before it expires, and deleted on stop,
+ * it emits port-mapped when the gateway gives a mapping
+ */
+export default class PortMappingManager {
+  static RETRY_INTERVAL = 5 * 60 * 1000 // 5 minutes, how long to wait after all methods failed
+  #port: number
+  #options: PortMappingConfig
+  #events: DHTEvents
+  #mapper?: PortMapper // the mapper which gave the mapping
+  #mapping?: Mapping
+  #timer?: ReturnType<typeof setTimeout> // renews or retries the mapping
+  #stopped = false
+  #logger: Logger
+
+  /**
+   * @param port the udp port to map
+   * @param options
+   * @param events emits port-mapped
+   * @param logger default is the shared nat logger
+   */
+  constructor(
+    port: number,
+    {
+      methods = DEFAULT_PORT_MAPPING.methods,
+      gateway,
+      gatewayPort = DEFAULT_PORT_MAPPING.gatewayPort,
+      ssdp = DEFAULT_PORT_MAPPING.ssdp,
+      lifetime = DEFAULT_PORT_MAPPING.lifetime,
+      timeout = DEFAULT_PORT_MAPPING.timeout
+    }: PortMappingOptions = {},
+    events = new DHTEvents(),
+    logger = getLogger('nat')
+  ) {
+    this.#port = port
+    this.#options = { methods, gateway, gatewayPort, ssdp, lifetime, timeout }
+    this.#events = events
+    this.#logger = logger
+  }
+
+  /**
+   * the current mapping, undefined if no gateway gave one
+   */
+  get mapping() {
+    return this.#mapping
+  }
+
+  /**
+   * request the mapping, it's retried later if all methods failed
+   * @returns the mapping, or undefined if all methods failed
+   */
+  async start() {
+    for (const method of this.#options.methods) {
+      if (this.#stopped) return undefined
+
+      try {
+        const mapper = this.createMapper(method)
+        const mapping = await mapper.map(this.#port, this.#mapping?.externalPort ?? this.#port, this.#options.lifetime)
+        this.#mapper = mapper
+        await this.onMapped(mapping)
+        return mapping
+      } catch (e) {
+        this.#logger.warn('map the udp port failed', { port: this.#port, method, error: e })
+      }
+    }
+
+    if (!this.#stopped) {
+      this.#timer = setTimeout(() => this.start(), PortMappingManager.RETRY_INTERVAL)
+    }
+    return undefined
+  }
+
+  /**
+   * stop renewing, and delete the mapping
+   */
+  async stop() {
+    this.#stopped = true
+    clearTimeout(this.#timer)
+
+    const mapping = this.#mapping
+    if (!mapping || !this.#mapper) return
+
+    this.#mapping = undefined
+    try {
+      await this.#mapper.unmap(mapping)
+      this.#logger.info('the mapping is deleted', { externalPort: mapping.externalPort })
+    } catch (e) {
+      this.#logger.warn('delete the mapping failed', { externalPort: mapping.externalPort, error: e })
+    }
+  }
+
+  private async onMapped(mapping: Mapping) {
+    const changed =
+      mapping.externalPort !== this.#mapping?.externalPort || mapping.externalIp !== this.#mapping?.externalIp
+    this.#mapping = mapping
+
+    // stopped while the request was on the way, delete the new mapping
+    if (this.#stopped) {
+      await this.stop()
+      return
+    }
+
+    this.#logger.info('the udp port is mapped', { ...mapping })
+    if (changed) {
+      this.#events.emit('port-mapped', { ...mapping })
+    }
+
+    // renew at the half of the lifetime, the permanent mapping is never renewed
+    if (mapping.lifetime > 0) {
+      this.#timer = setTimeout(() => this.renew(), (mapping.lifetime * 1000) / 2)
+    }
+  }
+
+  private async renew() {
+    try {
+      await this.onMapped(await this.#mapper!.map(this.#port, this.#mapping!.externalPort, this.#options.lifetime))
+    } catch (e) {
+      this.#logger.warn('renew the mapping failed, request a new one', { error: e })
+      await this.start()
+    }
+  }
+
+  private createMapper(method: PortMappingMethod): PortMapper {
+    const { gateway = PortMappingManager.guessGateway(), gatewayPort, ssdp, timeout } = this.#options
+    switch (method) {
+      case 'pcp': {
+        const clientAddr = gateway && localAddrFor(gateway)
+        if (!gateway || !clientAddr) {
+          throw new Error('the gateway is unknown, set it in the options')
+        }
+        return new NatPmpMapper(gateway, clientAddr, gatewayPort, this.#logger)
+      }
+      case 'upnp':
+        return new UpnpMapper(timeout, ssdp.addr, ssdp.port, this.#logger)
+    }
+  }
+
+  /**
+   * the gateway is commonly the first address of the local network, e.g. 192.168.1.1 of 192.168.1.0/24
+   * @returns undefined if there is no private IPv4 network of RFC 1918
+   */
+  private static guessGateway() {
+    for (const { family, address, netmask } of Deno.networkInterfaces()) {
+      if (family !== 'IPv4' || !isPrivateIPv4(address)) continue
+
+      const addr = ipStr2Bytes(address)
+      const mask = ipStr2Bytes(netmask)
+      const gateway = addr.map((b, i) => b & mask[i])
+      gateway[3] |= 1
+      return bytes2IPStr(gateway)
+    }
+    return undefined
+  }
+}
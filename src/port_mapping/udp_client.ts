@@ -0,0 +1,51 @@
+import { Datagram } from '~/src/transport/transport.ts'
+
+/**
+ * UdpClient sends requests to a gateway from an ephemeral port and waits for the answers with a deadline
+ */
+export default class UdpClient {
+  #conn: Deno.DatagramConn
+  #receiving?: Promise<[Uint8Array, Deno.Addr]> // the pending receive, kept across the deadlines
+
+  constructor() {
+    this.#conn = Deno.listenDatagram({ port: 0, transport: 'udp', hostname: '0.0.0.0' })
+  }
+
+  async send(data: Uint8Array, addr: string, port: number) {
+    await this.#conn.send(data, { transport: 'udp', hostname: addr, port })
+  }
+
+  /**
+   * wait for the next datagram
+   * @param deadline the timestamp to give up at
+   * @returns undefined if nothing is received before the deadline
+   */
+  async receive(deadline: number): Promise<Datagram | undefined> {
+    this.#receiving ??= this.#conn.receive()
+
+    let timer: ReturnType<typeof setTimeout> | undefined = undefined
+    const timeout = new Promise<undefined>(
+      (resolve) => (timer = setTimeout(() => resolve(undefined), Math.max(0, deadline - Date.now())))
+    )
+
+    try {
+      const received = await Promise.race([this.#receiving, timeout])
+      if (!received) {
+        return undefined
+      }
+
+      this.#receiving = undefined
+      const [data, addr] = received
+      const { hostname, port } = addr as Deno.NetAddr
+      return { data, addr: hostname, port }
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  close() {
+    // the pending receive rejects when the socket is closed
+    this.#receiving?.catch(() => {})
+    this.#conn.close()
+  }
+}
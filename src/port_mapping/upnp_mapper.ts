@@ -0,0 +1,230 @@
+import PortMapper, { Mapping } from '~/src/port_mapping/port_mapper.ts'
+import UdpClient from '~/src/port_mapping/udp_client.ts'
+import { getLogger, Logger } from '~/src/util/log.ts'
+import { localAddrFor } from '~/src/util/net.ts'
+
+type Service = {
+  type: string // the service type urn, the soap actions are in its namespace
+  controlUrl: string // where the soap actions are posted
+  localAddr: string // our address on the network of the gateway
+}
+
+type SoapResult = {
+  ok: boolean
+  body: string
+}
+
+/**
+ * get the text of the first element of the name
+ */
+function textOf(xml: string, name: string) {
+  return xml.match(new RegExp(`<(?:\\w+:)?${name}>\\s*([^<]*?)\\s*</(?:\\w+:)?${name}>`))?.[1]
+}
+
+function escapeXml(value: string) {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+/**
+ * UpnpMapper requests the mapping from an UPnP internet gateway device
+ *
+ * the device is searched with SSDP, its description tells the control url of the WAN connection service,
+ * then the mapping is added with the soap action AddPortMapping
+ */
+export default class UpnpMapper implements PortMapper {
+  static SSDP_ADDR = '239.255.255.250' // the multicast address of SSDP
+  static SSDP_PORT = 1900
+  static DESCRIPTION = 'torrent-dht' // the description of our mappings, shown by the router
+  static SERVICE_TYPES = [
+    'urn:schemas-upnp-org:service:WANIPConnection:2',
+    'urn:schemas-upnp-org:service:WANIPConnection:1',
+    'urn:schemas-upnp-org:service:WANPPPConnection:1'
+  ]
+  static ONLY_PERMANENT_LEASES = '725' // the error code of a device which doesn't support the lease duration
+  #ssdpAddr: string
+  #ssdpPort: number
+  #timeout: number
+  #service?: Service // the found service, searched once
+  #logger: Logger
+
+  /**
+   * @param timeout how long to wait for the devices and their answers in milliseconds
+   * @param ssdpAddr where to send the search, default is the multicast address
+   * @param ssdpPort
+   * @param logger default is the shared nat logger
+   */
+  constructor(
+    timeout: number,
+    ssdpAddr = UpnpMapper.SSDP_ADDR,
+    ssdpPort = UpnpMapper.SSDP_PORT,
+    logger = getLogger('nat')
+  ) {
+    this.#logger = logger
+    this.#timeout = timeout
+    this.#ssdpAddr = ssdpAddr
+    this.#ssdpPort = ssdpPort
+  }
+
+  async map(internalPort: number, externalPort: number, lifetime: number): Promise<Mapping> {
+    const service = await this.discover()
+
+    const args = {
+      NewRemoteHost: '',
+      NewExternalPort: String(externalPort),
+      NewProtocol: 'UDP',
+      NewInternalPort: String(internalPort),
+      NewInternalClient: service.localAddr,
+      NewEnabled: '1',
+      NewPortMappingDescription: UpnpMapper.DESCRIPTION,
+      NewLeaseDuration: String(lifetime)
+    }
+    let result = await this.soap(service, 'AddPortMapping', args)
+    if (!result.ok && textOf(result.body, 'errorCode') === UpnpMapper.ONLY_PERMANENT_LEASES) {
+      // the mapping never expires, it's still deleted on close
+      lifetime = 0
+      result = await this.soap(service, 'AddPortMapping', { ...args, NewLeaseDuration: '0' })
+    }
+    this.check('AddPortMapping', result)
+
+    const addrResult = await this.soap(service, 'GetExternalIPAddress', {}).catch(() => undefined)
+    const externalIp = addrResult?.ok ? textOf(addrResult.body, 'NewExternalIPAddress') : undefined
+
+    return { method: 'upnp', internalPort, externalPort, externalIp: externalIp || undefined, lifetime }
+  }
+
+  async unmap(mapping: Mapping) {
+    const service = await this.discover()
+    const result = await this.soap(service, 'DeletePortMapping', {
+      NewRemoteHost: '',
+      NewExternalPort: String(mapping.externalPort),
+      NewProtocol: 'UDP'
+    })
+    this.check('DeletePortMapping', result)
+  }
+
+  private check(action: string, { ok, body }: SoapResult) {
+    if (!ok) {
+      const code = textOf(body, 'errorCode')
+      const description = textOf(body, 'errorDescription')
+      throw new Error(`the upnp action ${action} failed, error code ${code}, ${description}`)
+    }
+  }
+
+  /**
+   * find the WAN connection service of the gateway
+   */
+  private async discover() {
+    if (this.#service) return this.#service
+
+    for (const location of await this.search()) {
+      try {
+        const service = await this.describe(location)
+        if (service) {
+          this.#logger.info('found the upnp service', { type: service.type, url: service.controlUrl })
+          this.#service = service
+          return service
+        }
+      } catch (e) {
+        this.#logger.warn('get the upnp description failed', { location, error: e })
+      }
+    }
+
+    throw new Error('no upnp internet gateway device is found')
+  }
+
+  /**
+   * search the internet gateway devices with SSDP
+   * @returns the urls of their descriptions
+   */
+  private async search() {
+    const request = [
+      'M-SEARCH * HTTP/1.1',
+      `HOST: ${UpnpMapper.SSDP_ADDR}:${UpnpMapper.SSDP_PORT}`,
+      'MAN: "ssdp:discover"',
+      `MX: ${Math.max(1, Math.floor(this.#timeout / 1000))}`,
+      'ST: urn:schemas-upnp-org:device:InternetGatewayDevice:1',
+      '',
+      ''
+    ].join('\r\n')
+
+    const locations = new Set<string>()
+    const client = new UdpClient()
+    try {
+      await client.send(new TextEncoder().encode(request), this.#ssdpAddr, this.#ssdpPort)
+
+      // the devices answer in a random delay up to MX seconds, collect all answers until the timeout
+      const deadline = Date.now() + this.#timeout
+      let datagram
+      while ((datagram = await client.receive(deadline))) {
+        const location = new TextDecoder().decode(datagram.data).match(/^location:\s*(\S+)/im)?.[1]
+        if (location) {
+          locations.add(location)
+        }
+      }
+    } finally {
+      client.close()
+    }
+
+    return locations
+  }
+
+  /**
+   * get the WAN connection service from the description of the device
+   * @param location the url of the description
+   * @returns undefined if the device has no WAN connection service
+   */
+  private async describe(location: string): Promise<Service | undefined> {
+    const response = await fetch(location, { signal: AbortSignal.timeout(this.#timeout) })
+    const xml = await response.text()
+
+    const localAddr = localAddrFor(new URL(location).hostname)
+    if (!localAddr) {
+      throw new Error(`no local address is on the network of ${location}`)
+    }
+
+    const base = textOf(xml, 'URLBase') || location
+    const services = Array.from(xml.matchAll(/<service>([\s\S]*?)<\/service>/g), ([, service]) => ({
+      type: textOf(service, 'serviceType'),
+      controlUrl: textOf(service, 'controlURL')
+    }))
+
+    for (const type of UpnpMapper.SERVICE_TYPES) {
+      const service = services.find((s) => s.type === type && s.controlUrl)
+      if (service) {
+        return { type, controlUrl: new URL(service.controlUrl!, base).href, localAddr }
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * post the soap action to the service
+   * @param service
+   * @param action
+   * @param args the arguments in order
+   * @returns ok is false if the device answered with a soap fault
+   */
+  private async soap(service: Service, action: string, args: Record<string, string>): Promise<SoapResult> {
+    const params = Object.entries(args)
+      .map(([name, value]) => `<${name}>${escapeXml(value)}</${name}>`)
+      .join('')
+    const body =
+      '<?xml version="1.0"?>' +
+      '<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/" ' +
+      's:encodingStyle="http://schemas.xmlsoap.org/soap/encoding/">' +
+      `<s:Body><u:${action} xmlns:u="${service.type}">${params}</u:${action}></s:Body>` +
+      '</s:Envelope>'
+
+    const response = await fetch(service.controlUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'text/xml; charset="utf-8"',
+        SOAPAction: `"${service.type}#${action}"`
+      },
+      body,
+      signal: AbortSignal.timeout(this.#timeout)
+    })
+
+    return { ok: response.ok, body: await response.text() }
+  }
+}
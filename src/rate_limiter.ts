@@ -0,0 +1,131 @@
+export type TokenBucketOptions = {
+  rate: number // the tokens added per second
+  burst: number // the max tokens, how many packets can be sent at once
+}
+
+export type RateLimits = {
+  perIp: TokenBucketOptions // the limit of each ip
+  total: TokenBucketOptions // the limit of all ips together
+}
+
+/**
+ * TokenBucket allows a packet if a token is left, the tokens are refilled at a constant rate
+ */
+export class TokenBucket {
+  #rate: number
+  #burst: number
+  #tokens: number
+  #updatedAt = Date.now()
+
+  constructor({ rate, burst }: TokenBucketOptions) {
+    this.#rate = rate
+    this.#burst = burst
+    this.#tokens = burst
+  }
+
+  /**
+   * refill the tokens by the time passed, a time before the last refill adds nothing,
+   * e.g. the bucket is created after the caller took the time
+   */
+  private refill(now: number) {
+    if (now <= this.#updatedAt) return
+    this.#tokens = Math.min(this.#burst, this.#tokens + ((now - this.#updatedAt) / 1000) * this.#rate)
+    this.#updatedAt = now
+  }
+
+  /**
+   * whether the bucket is full, a full bucket is the same as a new one
+   */
+  isFull(now = Date.now()) {
+    this.refill(now)
+    return this.#tokens >= this.#burst
+  }
+
+  /**
+   * whether a token is left, without taking it
+   */
+  has(now = Date.now()) {
+    this.refill(now)
+    return this.#tokens >= 1
+  }
+
+  /**
+   * take a token
+   * @returns false if no token is left
+   */
+  take(now = Date.now()) {
+    this.refill(now)
+    if (this.#tokens < 1) {
+      return false
+    }
+    this.#tokens--
+    return true
+  }
+}
+
+/**
+ * RateLimiter limits the packets of each ip and of all ips together with token buckets
+ */
+export default class RateLimiter {
+  static MAX_IPS = 10000 // the max count of ips tracked, the least recently seen one is dropped
+  #perIp: TokenBucketOptions
+  #total: TokenBucket
+  #buckets = new Map<string, TokenBucket>() // <ip, bucket>, the least recently seen ip is the first
+
+  constructor({ perIp, total }: RateLimits) {
+    this.#perIp = perIp
+    this.#total = new TokenBucket(total)
+  }
+
+  /**
+   * take a token for a packet of the ip
+   * @param ip
+   * @returns false if the packet exceeds the limit of the ip or the total limit
+   */
+  allow(ip: string) {
+    return this.exceeded(ip) === undefined
+  }
+
+  /**
+   * take a token for a packet of the ip, the tokens are only taken if both limits allow it
+   * @param ip
+   * @returns the limit the packet exceeds, ip means the ip itself sends too much, total means all ips together do,
+   * undefined if the packet is allowed
+   */
+  exceeded(ip: string): 'ip' | 'total' | undefined {
+    const now = Date.now()
+
+    let bucket = this.#buckets.get(ip)
+    if (bucket) {
+      // move the ip to the end
+      this.#buckets.delete(ip)
+    } else {
+      bucket = new TokenBucket(this.#perIp)
+    }
+    this.#buckets.set(ip, bucket)
+
+    if (this.#buckets.size > RateLimiter.MAX_IPS) {
+      this.prune(now)
+    }
+
+    if (!bucket.has(now)) return 'ip'
+    if (!this.#total.take(now)) return 'total'
+    bucket.take(now)
+    return undefined
+  }
+
+  /**
+   * drop the ips whose bucket is full, or the least recently seen ip if none is full
+   */
+  private prune(now: number) {
+    for (const [ip, bucket] of this.#buckets) {
+      if (bucket.isFull(now)) {
+        this.#buckets.delete(ip)
+      }
+    }
+
+    while (this.#buckets.size > RateLimiter.MAX_IPS) {
+      this.#buckets.delete(this.#buckets.keys().next().value!)
+    }
+  }
+}
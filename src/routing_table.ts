@@ -1,37 +1,89 @@
 import Bucket from '~/src/bucket.ts'
+import DHTEvents from '~/src/dht_events.ts'
+import ExternalIpManager from '~/src/external_ip_manager.ts'
 import Id from '~/src/id.ts'
 import LocalNode from '~/src/local_node.ts'
-import Node from '~/src/node.ts'
-import logger from '~/src/util/log.ts'
+import Node, { NodeState } from '~/src/node.ts'
+import { getLogger, Logger } from '~/src/util/log.ts'
+import { AddrFamily, familyOf } from '~/src/util/net.ts'
 import { BitArray } from 'toolkit'
 
+/**
+ * how the node ids of remote nodes are checked before they are added, see BEP 42
+ * - off: never check
+ * - enforce: always check
+ * - agreed: only check once enough nodes agree on our external ip, until then we can't tell our own id is valid
+ */
+export type NodeIdSecurity = 'off' | 'enforce' | 'agreed'
+
+/**
+ * where a node comes from, a verified node answered us, a referral is only listed by another node
+ */
+type PlaceSource = 'verified' | 'referral' | 'rebuilding'
+
+export type RoutingTableOptions = {
+  capacity?: number // the max node count in a bucket, the K of BEP 5, default is 8
+  goodRange?: number // how long a node stays good after it was active in milliseconds, default is 15 minutes
+  logger?: Logger // default is the shared routing logger
+}
+
 /**
  * RoutingTable contains a list of buckets, each bucket contains a list of nodes
+ * the IPv4 and IPv6 dht networks have their own routing table, see BEP 32
  */
 export default class RoutingTable {
-  static #INSTANCE: RoutingTable
-  static BUCKET_CAPACITY = 8 // the max node count in a bucket
   #localNode: LocalNode
-  #buckets: Bucket[] = [] // <prefix, bucket>
+  #family: AddrFamily
+  #security: NodeIdSecurity
+  #externalIps: ExternalIpManager
+  #events: DHTEvents
+  #capacity: number
+  #goodRange: number
+  #buckets: Bucket[] = [] // the buckets cover the whole id space without overlap
+  #pinger?: (node: Node) => Promise<unknown> // ping a node before evicting it
+  #pinging = new Set<Node>() // the nodes being pinged
+  #logger: Logger
 
-  static get() {
-    if (!RoutingTable.#INSTANCE) {
-      throw new Error('RoutingTable has not been initialized')
-    }
-    return RoutingTable.#INSTANCE
-  }
-
-  private constructor(localNode: LocalNode) {
+  /**
+   * @param localNode
+   * @param family default is ipv4
+   * @param security how the node ids of remote nodes are checked, default is agreed
+   * @param externalIps the votes of our external ip, used by the agreed security mode
+   * @param events emits node-added and node-removed
+   * @param options the bucket capacity, how long a node stays good and the logger
+   */
+  constructor(
+    localNode: LocalNode,
+    family: AddrFamily = 'ipv4',
+    security: NodeIdSecurity = 'agreed',
+    externalIps = new ExternalIpManager(),
+    events = new DHTEvents(),
+    { capacity = 8, goodRange = Node.GOOD_RANGE, logger = getLogger('routing') }: RoutingTableOptions = {}
+  ) {
     this.#localNode = localNode
+    this.#family = family
+    this.#security = security
+    this.#externalIps = externalIps
+    this.#events = events
+    this.#capacity = capacity
+    this.#goodRange = goodRange
+    this.#logger = logger
     this.initBuckets()
   }
 
-  static init(localNode: LocalNode) {
-    if (RoutingTable.#INSTANCE) {
-      throw new Error('RoutingTable has been initialized')
-    } else {
-      RoutingTable.#INSTANCE = new RoutingTable(localNode)
-    }
+  get family() {
+    return this.#family
+  }
+
+  get security() {
+    return this.#security
+  }
+
+  /**
+   * the max node count in a bucket
+   */
+  get capacity() {
+    return this.#capacity
   }
 
   get localNode() {
@@ -51,84 +103,271 @@ export default class RoutingTable {
   }
 
   /**
-   * initialize the buckets, the number of buckets is equal to the length of the id, e.g. 160
-   * after the id of local node was known, the buckets can be initialized
-   *
-   * e.g here is a 2-bit binary tree, if local node id 01, we can split it to 2 subtree, each bucket is subset of the subtree,
-   *       *
-   *    /     \
-   *   1      [0]
-   *  / \     /  \
-   * 1   0  [1]   0
-   *
-   *
-   * bucket-0: just a leaf node 0, no children.
-   *   [0] parent is 0
-   *
-   * bucket-1: a full binary tree, the root is 1, the left child is 1, the right child is 0.
-   *   [1] parent is none
-   *  /   \
-   * 1     0
-   *
+   * initialize the routing table with one bucket which covers the whole id space,
+   * the bucket is split when it is full and covers the local node id, see BEP 5
    */
   initBuckets() {
     this.#buckets.push(
-      ...this.generateBuckets(BitArray.fromBinaryString('0'.repeat(160)), BitArray.fromBinaryString('1'.repeat(160)))
+      new Bucket(
+        this.#capacity,
+        BitArray.fromBinaryString('0'.repeat(Id.BIT_LENGTH)),
+        BitArray.fromBinaryString('1'.repeat(Id.BIT_LENGTH))
+      )
     )
+  }
 
-    logger.info(`init ${this.#buckets.length} buckets`)
+  /**
+   * set how to ping a node, the oldest node of a full bucket is pinged before it is evicted
+   * @param pinger resolves if the node answered, rejects if not
+   */
+  setPinger(pinger: (node: Node) => Promise<unknown>) {
+    this.#pinger = pinger
   }
 
   /**
-   * use binary recursion to generate buckets, the bucket count is equal to the length of the id(160)
-   *
-   * @param start
-   * @param end must be 2^x, because the bucket is a full binary tree
-   * @returns
+   * add a node to the routing table
+   * @param node
+   * @param source referral if the address of the node is not verified, see addReferral
    */
-  generateBuckets(start: BitArray, end: BitArray): Bucket[] {
-    // [1 2 3 4] => [1 (2)] [(3) 4] => (2) is left end, (3) is right start
+  add(node: Node, source: Exclude<PlaceSource, 'rebuilding'> = 'verified') {
+    // only the nodes of the same family can be added
+    if (familyOf(node.addr) !== this.#family) {
+      return false
+    }
 
-    const leftStart = start
-    const leftEnd = BitArray.fromBigInt((start.toBigInt() + end.toBigInt() - 1n) / 2n, 160)
-    const rightStart = BitArray.fromBigInt(leftEnd.toBigInt() + 1n, 160)
-    const rightEnd = end
+    // the node id must be generated from its ip, to defend against the sybil nodes
+    if (this.shouldCheckId() && !node.id.isValidFor(node.addr)) {
+      this.#logger.debug('the node id is not allowed for its ip, see BEP 42', { id: node.id, addr: node.addr })
+      return false
+    }
 
-    // only left local node, stop recursion
-    if (start.equals(end) && start.equals(this.#localNode.id.bits)) {
-      return []
+    if (node.id.equals(this.#localNode.id)) {
+      return false
     }
 
-    // logger.info(`local node ${localNode.id.bits.toString()}`)
-    const leftBu = new Bucket(RoutingTable.BUCKET_CAPACITY, leftStart, leftEnd)
-    const rightBu = new Bucket(RoutingTable.BUCKET_CAPACITY, rightStart, rightEnd)
+    return this.place(node, source)
+  }
 
-    if (leftBu.withinRnage(this.#localNode.id)) {
-      return [rightBu, ...this.generateBuckets(leftStart, leftEnd)]
-    } else if (rightBu.withinRnage(this.#localNode.id)) {
-      return [leftBu, ...this.generateBuckets(rightStart, rightEnd)]
-    } else {
-      throw new Error('local node is not in the range of the buckets')
+  /**
+   * add a node referred by a response, e.g. the nodes of find_node, its address is not verified,
+   * so the known node keeps its address, and the node only waits in the replacement cache of a full bucket,
+   * no node is pinged for it
+   * @param node
+   * @returns true if the node is in the routing table
+   */
+  addReferral(node: Node) {
+    if (this.findNode(node.id)) {
+      return true
     }
+    return this.add(node, 'referral')
   }
 
   /**
-   * add a node to the routing table
+   * put the node into the bucket which covers its id
    * @param node
+   * @param source rebuilding means the node was in the table before the buckets were rebuilt, it's not a new node,
+   * and it's dropped if its bucket is full, referral means the node is not verified, see addReferral
+   * @returns true if the node is in the routing table
    */
-  add(node: Node) {
-    // logger.info(`current node count is ${this.nodeCount}, before add node ${node.id.toIntSting()}`)
-    // use itrator to iterate the buckets, beacuse there may be some add or remove operation in the loop
-    for (const bucket of this.#buckets.values()) {
-      // if the node is within the bucket range, add the node to the bucket
-      if (bucket.withinRnage(node.id)) {
-        // logger.info(
-        //   `node(${node.id.toIntSting()}) is in the bucket[${bucket.start.toIntString()}, ${bucket.end.toIntString()}]]`
-        // )
-        return bucket.add(node)
+  private place(node: Node, source: PlaceSource = 'verified') {
+    const rebuilding = source === 'rebuilding'
+    while (true) {
+      const bucket = this.findBucket(node.id)
+      const known = bucket.nodes.some((n) => n.id.equals(node.id))
+
+      if (bucket.add(node)) {
+        if (!known && !rebuilding) {
+          this.#events.emit('node-added', { family: this.#family, node })
+        }
+        return true
+      }
+
+      // the full bucket which covers the local node id is split, then try again
+      if (bucket.withinRnage(this.#localNode.id) && bucket.canSplit()) {
+        this.split(bucket)
+        continue
       }
+
+      if (rebuilding) {
+        return false
+      }
+
+      // the other full buckets keep the node as a candidate, and check the oldest node is still alive
+      bucket.addReplacement(node)
+      if (source === 'verified') {
+        this.pingOldest(bucket)
+      }
+      return false
     }
-    return false
+  }
+
+  /**
+   * replace the local node, e.g. our external ip changed, the buckets are rebuilt around the new id
+   * the nodes which don't fit the rebuilt buckets are dropped
+   * @param localNode
+   */
+  setLocalNode(localNode: LocalNode) {
+    const idChanged = !localNode.id.equals(this.#localNode.id)
+    this.#localNode = localNode
+    if (!idChanged) {
+      return
+    }
+
+    const nodes = this.getAllNodes()
+    this.#buckets = []
+    this.initBuckets()
+    for (const node of nodes) {
+      if (node.id.equals(localNode.id) || !this.place(node, 'rebuilding')) {
+        this.#events.emit('node-removed', { family: this.#family, node })
+      }
+    }
+    this.#logger.info('the local node is changed', { family: this.#family, id: localNode.id, kept: this.nodeCount })
+  }
+
+  /**
+   * find the bucket which covers the id, the buckets cover the whole id space, so it always exists
+   * @param id
+   */
+  private findBucket(id: Id) {
+    return this.#buckets.find((bucket) => bucket.withinRnage(id))!
+  }
+
+  private split(bucket: Bucket) {
+    const index = this.#buckets.indexOf(bucket)
+    this.#buckets.splice(index, 1, ...bucket.split())
+    this.#logger.debug('split the bucket', { family: this.#family, buckets: this.#buckets.length })
+  }
+
+  /**
+   * ping the oldest node of the full bucket, evict it if it doesn't answer, then a candidate takes its place
+   * the alive node is moved to top of the bucket when its response is handled
+   * @param bucket
+   */
+  private pingOldest(bucket: Bucket) {
+    const oldest = bucket.oldest
+    // the good node is kept, the new node waits in the replacement cache
+    if (!this.#pinger || !oldest || oldest.getState(this.#goodRange) === NodeState.GOOD || this.#pinging.has(oldest)) {
+      return
+    }
+
+    this.#pinging.add(oldest)
+    this.#pinger(oldest)
+      .catch(() => {
+        this.#logger.debug("the oldest node doesn't answer the ping, evict it", { id: oldest.id, addr: oldest.addr })
+        // the bucket may have been split during the ping
+        this.replace(oldest)
+      })
+      .finally(() => this.#pinging.delete(oldest))
+  }
+
+  /**
+   * check the node id or not, by the security mode
+   */
+  private shouldCheckId() {
+    switch (this.#security) {
+      case 'enforce':
+        return true
+      case 'agreed':
+        return this.#externalIps.agreed(this.#family) !== undefined
+      default:
+        return false
+    }
+  }
+
+  /**
+   * the node responded to our query, add it or refresh it
+   * @param node
+   * @returns true if the node is in the routing table
+   */
+  markResponded(node: Node) {
+    if (!this.add(node)) {
+      return false
+    }
+
+    // the response comes from the address we queried, so the known node has moved there
+    const known = this.findNode(node.id)!
+    if (known.addr !== node.addr || known.port !== node.port) {
+      this.#logger.debug('the node moved to a new address', { id: node.id, from: known.addr, addr: node.addr })
+      known.update(node.port, node.addr)
+    }
+    known.responded()
+    // the bucket with a responding node is not stale, see BEP 5
+    this.findBucket(node.id).touch()
+    return true
+  }
+
+  /**
+   * the node sent a query to us, refresh it, or add it like Kademlia learns the nodes from their messages,
+   * the new node is questionable until it responds to our query, the known node keeps its address,
+   * so a spoofed query can't move it
+   * @param node
+   */
+  markQueried(node: Node) {
+    const known = this.findNode(node.id)
+    if (known) {
+      known.queried()
+      return
+    }
+
+    if (this.add(node)) {
+      this.findNode(node.id)?.queried()
+    }
+  }
+
+  /**
+   * the node at the address failed to respond to our query, the bad node is replaced by a candidate
+   * @param addr
+   * @param port
+   */
+  markFailed(addr: string, port: number) {
+    const node = this.getAllNodes().find((n) => n.addr === addr && n.port === port)
+    if (!node) {
+      return
+    }
+
+    node.failed()
+    if (node.getState(this.#goodRange) === NodeState.BAD) {
+      this.#logger.debug('the node failed the queries in a row, drop it', {
+        id: node.id,
+        addr: node.addr,
+        failures: node.failures
+      })
+      this.replace(node)
+    }
+  }
+
+  /**
+   * remove the dead node, a candidate of the replacement cache takes its place
+   * @param node
+   */
+  private replace(node: Node) {
+    const bucket = this.findBucket(node.id)
+    const known = bucket.nodes.some((n) => n.id.equals(node.id))
+    const replacement = bucket.replace(node)
+
+    if (known) {
+      this.#events.emit('node-removed', { family: this.#family, node })
+    }
+    if (replacement) {
+      this.#logger.debug('replace the dead node', { id: node.id, replacement: replacement.id })
+      this.#events.emit('node-added', { family: this.#family, node: replacement })
+    }
+  }
+
+  /**
+   * get the nodes in the state
+   * @param state
+   */
+  getNodesByState(state: NodeState) {
+    return this.getAllNodes().filter((node) => node.getState(this.#goodRange) === state)
+  }
+
+  /**
+   * get the buckets which have not changed in the age, they should be refreshed
+   * @param age milliseconds
+   */
+  getStaleBuckets(age: number) {
+    return this.#buckets.filter((bucket) => Date.now() - bucket.updatedAt > age)
   }
 
   addNodes(nodes: Node[]) {
@@ -144,7 +383,9 @@ export default class RoutingTable {
   remove(node: Node) {
     for (const bucket of this.#buckets.values()) {
       if (bucket.withinRnage(node.id)) {
-        bucket.remove(node)
+        if (bucket.remove(node)) {
+          this.#events.emit('node-removed', { family: this.#family, node })
+        }
         break
       }
     }
@@ -204,11 +445,10 @@ export default class RoutingTable {
   /**
    * find the closest node to the target node
    * @param targetNodeId
+   * @param count default is the bucket capacity
    * @returns the closest nodes to the target node
    */
-  findClosestNodes(targetNodeId: Id, count = 8) {
-    logger.info(`[findClosestNodes] total node count is ${this.nodeCount}`)
-
+  findClosestNodes(targetNodeId: Id, count = this.#capacity) {
     // sort all nodes by distance to the target node
     const nodes = this.getAllNodes().sort((a, b) => {
       return a.id.bits.xor(targetNodeId.bits).lessThan(b.id.bits.xor(targetNodeId.bits)) ? -1 : 1
@@ -0,0 +1,116 @@
+import { BytesUtil } from 'toolkit'
+import Id from '~/src/id.ts'
+import Sender from '~/src/krpc/sender.ts'
+import { Message } from '~/src/message_factory.ts'
+import Node from '~/src/node.ts'
+import { getLogger, Logger } from '~/src/util/log.ts'
+import { AddrFamily, familyOf } from '~/src/util/net.ts'
+
+export type SampleResult = {
+  infoHashes: string[] // the sampled info hashes, hex strings without duplicates
+  queried: number // how many nodes have been queried
+  skipped: number // how many nodes have been skipped, because their interval has not elapsed
+}
+
+/**
+ * Sampler walks the keyspace with sample_infohashes queries and collects the info hashes stored by the nodes, see BEP 51
+ *
+ * each query asks for the nodes close to a random target, so the walk spreads over the keyspace,
+ * a node is not queried again before the interval it returned has elapsed, across walks
+ */
+export default class Sampler {
+  static ALPHA = 3 // the max count of queries in flight
+  #senders: Map<AddrFamily, Sender> // the sender of each family
+  #nextQueryAt = new Map<string, number>() // <addr:port, the time the node can be queried again>
+  #logger: Logger
+
+  /**
+   * @param senders the sender of each family to send queries with
+   * @param logger default is the shared lookup logger
+   */
+  constructor(senders: Map<AddrFamily, Sender>, logger = getLogger('lookup')) {
+    this.#senders = senders
+    this.#logger = logger
+  }
+
+  /**
+   * walk the keyspace from the seed nodes
+   * @param seeds the start nodes, commonly the nodes in the routing table
+   * @param maxNodes the max count of nodes to query
+   * @returns the sampled info hashes
+   */
+  async walk(seeds: Node[], maxNodes = 100): Promise<SampleResult> {
+    const now = Date.now()
+    // forget the nodes whose interval has elapsed
+    for (const [key, nextQueryAt] of this.#nextQueryAt) {
+      if (nextQueryAt <= now) this.#nextQueryAt.delete(key)
+    }
+
+    const infoHashes = new Set<string>()
+    const visited = new Set<string>()
+    const queue = [...seeds]
+    let queried = 0
+    let skipped = 0
+
+    while (queue.length > 0 && queried < maxNodes) {
+      const batch: Node[] = []
+      while (queue.length > 0 && batch.length < Sampler.ALPHA && queried + batch.length < maxNodes) {
+        const node = queue.shift()!
+        const key = Sampler.key(node)
+        if (visited.has(key) || !this.#senders.has(familyOf(node.addr))) continue
+        visited.add(key)
+
+        if ((this.#nextQueryAt.get(key) ?? 0) > Date.now()) {
+          skipped++
+          continue
+        }
+        batch.push(node)
+      }
+
+      queried += batch.length
+
+      await Promise.allSettled(
+        batch.map(async (node) => {
+          try {
+            const response = await this.query(node)
+            this.onResponse(node, response, infoHashes, queue)
+          } catch (e) {
+            this.#logger.debug('sample_infohashes failed', { addr: node.addr, port: node.port, error: e })
+          }
+        })
+      )
+    }
+
+    this.#logger.info('sample walk done', { queried, skipped, infoHashes: infoHashes.size })
+
+    return { infoHashes: [...infoHashes], queried, skipped }
+  }
+
+  private query(node: Node) {
+    const sender = this.#senders.get(familyOf(node.addr))!
+    // ask for the nodes of all enabled families
+    return sender.sampleInfoHashes(node, Id.random(), [...this.#senders.keys()])
+  }
+
+  /**
+   * collect the samples, remember the interval, and add the returned nodes to the queue
+   */
+  private onResponse(node: Node, response: Message, infoHashes: Set<string>, queue: Node[]) {
+    const { samples, interval, nodes, nodes6 } = response.r ?? {}
+
+    for (const infoHash of samples ? BytesUtil.chunkBytes(samples, Id.BYTES_LENGTH) : []) {
+      infoHashes.add(BytesUtil.bytes2HexStr(infoHash))
+    }
+
+    if (typeof interval === 'number' && interval > 0) {
+      this.#nextQueryAt.set(Sampler.key(node), Date.now() + interval * 1000)
+    }
+
+    if (nodes) queue.push(...Node.fromCompactList(nodes, 'ipv4'))
+    if (nodes6) queue.push(...Node.fromCompactList(nodes6, 'ipv6'))
+  }
+
+  private static key(node: Node) {
+    return `${node.addr}:${node.port}`
+  }
+}
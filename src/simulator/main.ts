@@ -0,0 +1,80 @@
+import { parseArgs } from 'std/cli/parse_args.ts'
+import Simulation from '~/src/simulator/simulation.ts'
+import { configureLogger } from '~/src/util/log.ts'
+
+/**
+ * run a simulation and print the report, e.g.
+ * deno task simulate --nodes 300 --loss 0.05 --latency 10,80 --unresponsive 0.1 --malicious 5 --churn 0.02
+ */
+const args = parseArgs(Deno.args, {
+  string: [
+    'seed',
+    'nodes',
+    'lookups',
+    'loss',
+    'latency',
+    'timeout',
+    'unresponsive',
+    'malicious',
+    'churn',
+    'churn-interval'
+  ],
+  boolean: ['verbose', 'json']
+})
+
+function number(name: string, value?: string): number | undefined {
+  if (value === undefined) return undefined
+
+  const n = Number(value)
+  if (Number.isNaN(n)) {
+    throw new Error(`--${name} should be a number, but got ${value}`)
+  }
+  return n
+}
+
+function latency(): [number, number] | undefined {
+  if (args.latency === undefined) return undefined
+
+  const [min, max = min] = String(args.latency).split(',').map(Number)
+  if (Number.isNaN(min) || Number.isNaN(max) || min > max) {
+    throw new Error(`--latency should be "min,max" in milliseconds, but got ${args.latency}`)
+  }
+  return [min, max]
+}
+
+// hundreds of nodes log every message
+if (!args.verbose) {
+  configureLogger({ console: false })
+}
+
+const simulation = new Simulation({
+  seed: number('seed', args.seed),
+  nodes: number('nodes', args.nodes),
+  lookups: number('lookups', args.lookups),
+  loss: number('loss', args.loss),
+  latency: latency(),
+  timeout: number('timeout', args.timeout),
+  unresponsive: number('unresponsive', args.unresponsive),
+  malicious: number('malicious', args.malicious),
+  churn: number('churn', args.churn),
+  churnInterval: number('churn-interval', args['churn-interval'])
+})
+
+const report = await simulation.run()
+await simulation.close()
+
+if (args.json) {
+  console.log(JSON.stringify(report, null, 2))
+} else {
+  const percent = (n: number) => `${(n * 100).toFixed(1)}%`
+  console.log(`live nodes         ${report.nodes}`)
+  console.log(`lookups            ${report.lookups.length}`)
+  console.log(`converged          ${percent(report.converged)}`)
+  console.log(`found closest      ${percent(report.closest)}`)
+  console.log(`mean recall        ${percent(report.recall)}`)
+  console.log(`hops               mean ${report.hops.mean.toFixed(2)}, max ${report.hops.max}`)
+  console.log(`queries / lookup   ${report.queries.toFixed(1)}`)
+  console.log(`messages / lookup  ${report.messages.toFixed(1)}`)
+  console.log(`duration / lookup  ${report.duration.toFixed(0)}ms`)
+  console.log(`datagrams          ${report.sent} sent, ${report.dropped} dropped`)
+}
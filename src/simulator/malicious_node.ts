@@ -0,0 +1,81 @@
+import Id from '~/src/id.ts'
+import MessageFactory, { MessageType, QueryType } from '~/src/message_factory.ts'
+import Node from '~/src/node.ts'
+import Random from '~/src/simulator/random.ts'
+import MemoryTransport, { MemoryNetwork } from '~/src/transport/memory_transport.ts'
+
+/**
+ * MaliciousNode answers ping honestly to stay in the routing tables, but answers the other queries with made-up nodes
+ * very close to the target at addresses nobody listens on, so the lookups trusting it waste queries on timeouts
+ */
+export default class MaliciousNode {
+  static FAKE_NODES = 8 // the count of made-up nodes in each response
+  #id: Id
+  #transport: MemoryTransport
+  #random: Random
+
+  /**
+   * @param network the network to bind on
+   * @param addr the address of the node
+   * @param port the port of the node
+   * @param random generates the made-up nodes
+   */
+  constructor(network: MemoryNetwork, addr: string, port: number, random: Random) {
+    this.#random = random
+    // a valid id, so the honest nodes keep it, see BEP 42
+    this.#id = Id.createIdByIp(addr, random.bytes(20))
+    this.#transport = network.bind(addr, port)
+    this.serve()
+  }
+
+  get id() {
+    return this.#id
+  }
+
+  get addr() {
+    return this.#transport.addr
+  }
+
+  get port() {
+    return this.#transport.port
+  }
+
+  close() {
+    this.#transport.close()
+  }
+
+  private async serve() {
+    for await (const { data, addr, port } of this.#transport.receive()) {
+      const message = await MessageFactory.decode(data)
+      if (!message || message.y !== MessageType.QUERY) {
+        continue
+      }
+
+      const tid = typeof message.t === 'string' ? message.t : new TextDecoder().decode(message.t)
+      const target = message.a?.target ?? message.a?.info_hash
+      const response =
+        message.q === QueryType.PING || !target
+          ? MessageFactory.responsePing(tid, this.#id)
+          : MessageFactory.responseFindNode(tid, this.#id, this.fakeNodes(target))
+
+      const bytes = await response.bencode()
+      if (this.#transport.closed) return
+      await this.#transport.send(bytes, addr, port)
+    }
+  }
+
+  /**
+   * made-up nodes sharing the first 18 bytes with the target, in 240.0.0.0/4 where no node is bound
+   * @param target
+   */
+  private fakeNodes(target: Uint8Array) {
+    const nodes: Node[] = []
+    for (let i = 0; i < MaliciousNode.FAKE_NODES; i++) {
+      const bytes = target.slice(0, 20)
+      bytes.set(this.#random.bytes(2), 18)
+      const addr = `${this.#random.int(240, 255)}.${this.#random.int(0, 255)}.${this.#random.int(0, 255)}.1`
+      nodes.push(new Node(Id.fromUnit8Array(bytes), this.#random.int(1024, 65535), addr))
+    }
+    return nodes
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Random is a seeded pseudo random generator (mulberry32), the same seed always gives the same sequence
+ */
+export default class Random {
+  #state: number
+
+  constructor(seed: number) {
+    this.#state = seed >>> 0
+  }
+
+  /**
+   * the next number in [0, 1)
+   */
+  next() {
+    let t = (this.#state = (this.#state + 0x6d2b79f5) >>> 0)
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  /**
+   * the next integer in [min, max]
+   * @param min
+   * @param max
+   */
+  int(min: number, max: number) {
+    return min + Math.floor(this.next() * (max - min + 1))
+  }
+
+  /**
+   * the next random bytes
+   * @param length
+   */
+  bytes(length: number) {
+    const bytes = new Uint8Array(length)
+    for (let i = 0; i < length; i++) {
+      bytes[i] = this.int(0, 255)
+    }
+    return bytes
+  }
+
+  /**
+   * a new generator seeded by this one, so a consumer running at its own timing doesn't disturb this sequence
+   */
+  fork() {
+    return new Random(this.int(0, 0xffffffff))
+  }
+
+  /**
+   * pick count items randomly, the items are not changed
+   * @param items
+   * @param count
+   */
+  sample<T>(items: T[], count: number): T[] {
+    const copy = [...items]
+    // partial fisher-yates shuffle
+    for (let i = 0; i < Math.min(count, copy.length); i++) {
+      const j = this.int(i, copy.length - 1)
+      ;[copy[i], copy[j]] = [copy[j], copy[i]]
+    }
+    return copy.slice(0, count)
+  }
+}
@@ -0,0 +1,89 @@
+import Random from '~/src/simulator/random.ts'
+import MemoryTransport, { MemoryNetwork } from '~/src/transport/memory_transport.ts'
+
+export type NetworkConditions = {
+  loss?: number // the probability a datagram is lost, in [0, 1), default is 0
+  latency?: [number, number] // the min and max delay of a datagram in milliseconds, default is no delay
+}
+
+/**
+ * SimulatedNetwork is a MemoryNetwork with packet loss, latency and disconnected addresses
+ * the loss and the delay of each datagram are drawn from the seeded random generator
+ */
+export default class SimulatedNetwork extends MemoryNetwork {
+  #random: Random
+  #loss: number
+  #latency: [number, number]
+  #disconnected = new Set<string>() // the addresses which neither send nor receive
+  #delayed = new Set<ReturnType<typeof setTimeout>>() // the datagrams on the way
+  #sent = 0
+  #dropped = 0
+
+  constructor(random: Random, { loss = 0, latency = [0, 0] }: NetworkConditions = {}) {
+    super()
+    this.#random = random
+    this.#loss = loss
+    this.#latency = latency
+  }
+
+  /**
+   * the count of datagrams sent
+   */
+  get sent() {
+    return this.#sent
+  }
+
+  /**
+   * the count of datagrams lost or sent from or to a disconnected address
+   */
+  get dropped() {
+    return this.#dropped
+  }
+
+  /**
+   * the address stops sending and receiving, e.g. the node left or stopped answering
+   * @param addr
+   */
+  disconnect(addr: string) {
+    this.#disconnected.add(addr)
+  }
+
+  /**
+   * @param addr
+   */
+  isConnected(addr: string) {
+    return !this.#disconnected.has(addr)
+  }
+
+  deliver(from: MemoryTransport, data: Uint8Array, addr: string, port: number) {
+    this.#sent++
+
+    if (!this.isConnected(from.addr) || !this.isConnected(addr) || this.#random.next() < this.#loss) {
+      this.#dropped++
+      return
+    }
+
+    const delay = this.#random.int(this.#latency[0], this.#latency[1])
+    if (delay === 0) {
+      super.deliver(from, data, addr, port)
+      return
+    }
+
+    const copy = data.slice()
+    const timer = setTimeout(() => {
+      this.#delayed.delete(timer)
+      super.deliver(from, copy, addr, port)
+    }, delay)
+    this.#delayed.add(timer)
+  }
+
+  /**
+   * drop the datagrams on the way
+   */
+  close() {
+    for (const timer of this.#delayed) {
+      clearTimeout(timer)
+    }
+    this.#delayed.clear()
+  }
+}
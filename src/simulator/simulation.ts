@@ -0,0 +1,275 @@
+import DHT from '~/src/dht.ts'
+import Id from '~/src/id.ts'
+import Node from '~/src/node.ts'
+import MaliciousNode from '~/src/simulator/malicious_node.ts'
+import Random from '~/src/simulator/random.ts'
+import SimulatedNetwork from '~/src/simulator/simulated_network.ts'
+
+export type SimulationOptions = {
+  seed?: number // the seed of the network layout, the faults and the lookup targets, default is 1
+  nodes?: number // the count of honest nodes, default is 200
+  lookups?: number // the count of find_node lookups to measure, default is 100
+  loss?: number // the probability a datagram is lost, default is 0
+  latency?: [number, number] // the min and max delay of a datagram in milliseconds, default is [5, 50]
+  timeout?: number // the query timeout in milliseconds, default is 2 seconds
+  unresponsive?: number // the fraction of honest nodes which stop answering once the network is formed, default is 0
+  malicious?: number // the count of malicious nodes, default is 0
+  churn?: number // the fraction of honest nodes replaced by new ones on each churn interval, default is 0
+  churnInterval?: number // how often the nodes churn in milliseconds, default is 5 seconds
+}
+
+export type LookupReport = {
+  recall: number // the fraction of the k closest live nodes found by the lookup
+  closest: boolean // whether the closest live node is found
+  hops: number // the most referrals from a seed to one of the found nodes
+  queries: number // the count of queries sent by the lookup
+  messages: number // the count of datagrams sent on the whole network while the lookup ran
+  duration: number // in milliseconds
+}
+
+export type SimulationReport = {
+  nodes: number // the count of live honest nodes at the end
+  lookups: LookupReport[]
+  converged: number // the fraction of lookups which found all the k closest live nodes
+  recall: number // the mean recall
+  closest: number // the fraction of lookups which found the closest live node
+  hops: { mean: number; max: number }
+  queries: number // the mean count of queries of a lookup
+  messages: number // the mean count of datagrams sent while a lookup ran
+  duration: number // the mean duration of a lookup in milliseconds
+  sent: number // the count of datagrams sent in the whole simulation
+  dropped: number // the count of datagrams lost or sent from or to a disconnected node
+}
+
+type SimulatedNode = {
+  dht: DHT
+  id: Id
+  addr: string
+}
+
+/**
+ * Simulation starts full dht nodes on a simulated network inside the process, then measures find_node lookups
+ *
+ * the first node acts as the bootstrap router, every joining node is added to its routing table like a public router
+ * learns the nodes pinging it. the ids, the addresses, the faulty nodes, the lookup targets and the loss and delay of
+ * the datagrams are drawn from generators forked from the seed, so the same seed builds the same network.
+ * a run is not deterministic though, the nodes draw their tids, tokens and refresh targets from the system random
+ * generator and run on real timers, so compare the measurements of several runs, not the single lookups
+ */
+export default class Simulation {
+  static PORT = 6881 // every node listens on this port of its own address
+  static JOIN_CONCURRENCY = 16 // how many nodes run their first lookup at the same time
+  #options: Required<SimulationOptions>
+  #random: Random // the ids, the addresses, the faulty nodes and the lookup targets
+  #churnRandom: Random // the churn runs at its own timing
+  #network: SimulatedNetwork
+  #nodes: SimulatedNode[] = [] // the honest nodes, the first is the router
+  #malicious: MaliciousNode[] = []
+  #addrs = 0 // the count of allocated addresses
+
+  constructor({
+    seed = 1,
+    nodes = 200,
+    lookups = 100,
+    loss = 0,
+    latency = [5, 50],
+    timeout = 2000,
+    unresponsive = 0,
+    malicious = 0,
+    churn = 0,
+    churnInterval = 5000
+  }: SimulationOptions = {}) {
+    if (nodes < 2) {
+      throw new Error('the simulation needs at least 2 nodes, but got ' + nodes)
+    }
+
+    this.#options = { seed, nodes, lookups, loss, latency, timeout, unresponsive, malicious, churn, churnInterval }
+    this.#random = new Random(seed)
+    this.#churnRandom = this.#random.fork()
+    this.#network = new SimulatedNetwork(this.#random.fork(), { loss, latency })
+  }
+
+  get network() {
+    return this.#network
+  }
+
+  /**
+   * the honest nodes which are still connected
+   */
+  get liveNodes() {
+    return this.#nodes.filter((node) => this.#network.isConnected(node.addr))
+  }
+
+  /**
+   * form the network, then run the lookups one by one while the nodes churn
+   * @returns the measurements
+   */
+  async run(): Promise<SimulationReport> {
+    await this.form()
+
+    let churning = false
+    const churnTimer =
+      this.#options.churn > 0
+        ? setInterval(async () => {
+            if (churning) return
+            churning = true
+            await this.churn()
+            churning = false
+          }, this.#options.churnInterval)
+        : undefined
+
+    const lookups: LookupReport[] = []
+    for (let i = 0; i < this.#options.lookups; i++) {
+      lookups.push(await this.lookup())
+    }
+
+    clearInterval(churnTimer)
+
+    return this.report(lookups)
+  }
+
+  /**
+   * close all the nodes, including the ones which left, and the network
+   */
+  async close() {
+    await Promise.all(this.#nodes.map(({ dht }) => dht.close({ save: false })))
+    for (const node of this.#malicious) {
+      node.close()
+    }
+    this.#network.close()
+  }
+
+  /**
+   * join the honest and malicious nodes, let every node look up its own id to fill the routing tables,
+   * then disconnect the unresponsive nodes, they stay in the routing tables of the others
+   */
+  async form() {
+    const joined: SimulatedNode[] = []
+    for (let i = 0; i < this.#options.nodes; i++) {
+      joined.push(await this.join())
+    }
+
+    for (let i = 0; i < this.#options.malicious; i++) {
+      const node = new MaliciousNode(this.#network, this.nextAddr(2), Simulation.PORT, this.#random.fork())
+      this.#malicious.push(node)
+      this.addToRouter(node.id, node.addr)
+    }
+
+    for (let i = 0; i < joined.length; i += Simulation.JOIN_CONCURRENCY) {
+      await Promise.all(joined.slice(i, i + Simulation.JOIN_CONCURRENCY).map((node) => node.dht.findNode(node.id)))
+    }
+
+    const count = Math.floor(this.#nodes.length * this.#options.unresponsive)
+    for (const node of this.#random.sample(this.#nodes.slice(1), count)) {
+      this.#network.disconnect(node.addr)
+    }
+  }
+
+  /**
+   * start an honest node and add it to the router
+   * @param random generates the id of the node
+   * @returns the node
+   */
+  private async join(random = this.#random): Promise<SimulatedNode> {
+    const addr = this.nextAddr(1)
+    const id = Id.createIdByIp(addr, random.bytes(20))
+    const router = this.#nodes[0]
+
+    const dht = await DHT.listen({
+      port: Simulation.PORT,
+      bootstrapNodes: [{ addr: router?.addr ?? addr, port: Simulation.PORT }],
+      addrs: { ipv4: addr },
+      ids: { ipv4: id },
+      transport: (_, port) => this.#network.bind(addr, port),
+      timeouts: { query: this.#options.timeout }
+    })
+
+    const node = { dht, id, addr }
+    this.#nodes.push(node)
+    if (router) {
+      this.addToRouter(id, addr)
+    }
+    return node
+  }
+
+  private addToRouter(id: Id, addr: string) {
+    this.#nodes[0].dht.routingTable('ipv4').add(new Node(id, Simulation.PORT, addr))
+  }
+
+  /**
+   * the next unused address in the /8 network, e.g. 1.0.0.1
+   * @param prefix the first byte of the address
+   */
+  private nextAddr(prefix: number) {
+    const n = ++this.#addrs
+    return `${prefix}.${(n >> 16) & 0xff}.${(n >> 8) & 0xff}.${n & 0xff}`
+  }
+
+  /**
+   * replace some live nodes by new ones, the router never leaves
+   */
+  private async churn() {
+    const live = this.liveNodes.slice(1)
+    const count = Math.round(live.length * this.#options.churn)
+
+    for (const node of this.#churnRandom.sample(live, count)) {
+      this.#network.disconnect(node.addr)
+    }
+
+    const joined: SimulatedNode[] = []
+    for (let i = 0; i < count; i++) {
+      joined.push(await this.join(this.#churnRandom))
+    }
+    await Promise.allSettled(joined.map((node) => node.dht.findNode(node.id)))
+  }
+
+  /**
+   * look up a random target from a random live node, and compare the result with the k closest live nodes
+   */
+  private async lookup(): Promise<LookupReport> {
+    const [origin] = this.#random.sample(this.liveNodes, 1)
+    const target = Id.fromUnit8Array(this.#random.bytes(20))
+
+    // the lookup skips the local node
+    const expected = this.liveNodes
+      .filter((node) => node !== origin)
+      .map((node) => ({ addr: node.addr, distance: node.id.distance(target) }))
+      .sort((a, b) => (a.distance.lessThan(b.distance) ? -1 : 1))
+      .slice(0, origin.dht.options.k)
+      .map((node) => node.addr)
+
+    const sent = this.#network.sent
+    const start = Date.now()
+    const result = await origin.dht.findNode(target)
+    const duration = Date.now() - start
+
+    const found = new Set(result.nodes.map(({ node }) => node.addr))
+
+    return {
+      recall: expected.filter((addr) => found.has(addr)).length / expected.length,
+      closest: found.has(expected[0]),
+      hops: result.hops,
+      queries: result.queried,
+      messages: this.#network.sent - sent,
+      duration
+    }
+  }
+
+  private report(lookups: LookupReport[]): SimulationReport {
+    const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / Math.max(values.length, 1)
+
+    return {
+      nodes: this.liveNodes.length,
+      lookups,
+      converged: mean(lookups.map((l) => (l.recall === 1 ? 1 : 0))),
+      recall: mean(lookups.map((l) => l.recall)),
+      closest: mean(lookups.map((l) => (l.closest ? 1 : 0))),
+      hops: { mean: mean(lookups.map((l) => l.hops)), max: Math.max(0, ...lookups.map((l) => l.hops)) },
+      queries: mean(lookups.map((l) => l.queries)),
+      messages: mean(lookups.map((l) => l.messages)),
+      duration: mean(lookups.map((l) => l.duration)),
+      sent: this.#network.sent,
+      dropped: this.#network.dropped
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import { decodeHex } from 'std/encoding/hex.ts'
+import Id from '~/src/id.ts'
+import InfoHashManager from '~/src/info_hash_manager.ts'
+import { KRPCContext } from '~/src/krpc/context.ts'
+import Node, { NodeState } from '~/src/node.ts'
+import Peer from '~/src/peer.ts'
+import { getLogger, Logger } from '~/src/util/log.ts'
+import { AddrFamily } from '~/src/util/net.ts'
+
+export type StateOptions = {
+  path: string // the file to save the state to
+  interval?: number // how often the state is saved in milliseconds, default is 5 minutes
+  peers?: boolean // save the peers announced to us too, default is false
+}
+
+type SavedNode = { id: string; addr: string; port: number }
+
+type SavedPeer = { addr: string; port: number; expiredAt?: number } // the states saved before the expiry have none
+
+/**
+ * the saved state, ids and info hashes are hex strings
+ */
+export type DHTState = {
+  version: number
+  tables: { family: AddrFamily; id: string; nodes: SavedNode[] }[]
+  peers?: { infoHash: string; peers: SavedPeer[] }[]
+}
+
+/**
+ * StateStore saves the local node ids, the good nodes of the routing tables and optionally the stored peers to a json file,
+ * so the dht can be restored after restart without asking the bootstrap nodes
+ */
+export default class StateStore {
+  static VERSION = 1 // the version of the state format
+  static DEFAULT_INTERVAL = 5 * 60 * 1000 // 5 minutes
+  #path: string
+  #interval: number
+  #peers: boolean
+  #logger: Logger
+
+  /**
+   * @param options
+   * @param logger default is the shared state logger
+   */
+  constructor(
+    { path, interval = StateStore.DEFAULT_INTERVAL, peers = false }: StateOptions,
+    logger = getLogger('state')
+  ) {
+    this.#logger = logger
+    this.#path = path
+    this.#interval = interval
+    this.#peers = peers
+  }
+
+  get interval() {
+    return this.#interval
+  }
+
+  /**
+   * load the state from the file
+   * @returns the state, or undefined if the file doesn't exist or is invalid
+   */
+  async load(): Promise<DHTState | undefined> {
+    let text: string
+    try {
+      text = await Deno.readTextFile(this.#path)
+    } catch (e) {
+      if (!(e instanceof Deno.errors.NotFound)) {
+        this.#logger.warn('read the state failed', { path: this.#path, error: e })
+      }
+      return undefined
+    }
+
+    try {
+      const state = JSON.parse(text) as DHTState
+      if (state.version !== StateStore.VERSION || !Array.isArray(state.tables)) {
+        this.#logger.warn('ignore the state of an unsupported version', { path: this.#path, version: state.version })
+        return undefined
+      }
+      return state
+    } catch (e) {
+      this.#logger.warn('parse the state failed', { path: this.#path, error: e })
+      return undefined
+    }
+  }
+
+  /**
+   * save the current state of the dht to the file
+   * @param context the state of the dht
+   */
+  async save(context: KRPCContext) {
+    const tmp = `${this.#path}.tmp`
+    // write to a temporary file first, so a crash never leaves a broken state
+    await Deno.writeTextFile(tmp, JSON.stringify(this.snapshot(context)))
+    await Deno.rename(tmp, this.#path)
+  }
+
+  /**
+   * save synchronously, used when the process is exiting
+   * @param context the state of the dht
+   */
+  saveSync(context: KRPCContext) {
+    const tmp = `${this.#path}.tmp`
+    Deno.writeTextFileSync(tmp, JSON.stringify(this.snapshot(context)))
+    Deno.renameSync(tmp, this.#path)
+  }
+
+  private snapshot(context: KRPCContext): DHTState {
+    const state: DHTState = {
+      version: StateStore.VERSION,
+      tables: [...context.routingTables].map(([family, table]) => {
+        return {
+          family,
+          id: table.localNode.id.toString(),
+          nodes: table.getNodesByState(NodeState.GOOD).map((node) => ({
+            id: node.id.toString(),
+            addr: node.addr,
+            port: node.port
+          }))
+        }
+      })
+    }
+
+    if (this.#peers) {
+      state.peers = context.infoHashes.entries().map(([infoHash, peers]) => ({
+        infoHash,
+        peers: peers.map(({ peer, expiredAt }) => ({ addr: peer.addr, port: peer.port, expiredAt }))
+      }))
+    }
+
+    return state
+  }
+
+  /**
+   * the saved local node id of the family
+   */
+  static idOf(state: DHTState | undefined, family: AddrFamily): Id | undefined {
+    const id = state?.tables.find((table) => table.family === family)?.id
+    try {
+      return id ? Id.fromUnit8Array(decodeHex(id)) : undefined
+    } catch (_) {
+      return undefined
+    }
+  }
+
+  /**
+   * the saved nodes of the family, they are not trusted until they answer a ping
+   * @param state the saved state
+   * @param family
+   * @param logger default is the shared state logger
+   */
+  static nodesOf(state: DHTState, family: AddrFamily, logger = getLogger('state')): Node[] {
+    const nodes: Node[] = []
+    for (const { id, addr, port } of state.tables.find((table) => table.family === family)?.nodes ?? []) {
+      try {
+        nodes.push(new Node(Id.fromUnit8Array(decodeHex(id)), port, addr))
+      } catch (_) {
+        logger.warn('ignore the invalid node', { id, addr, port })
+      }
+    }
+    return nodes
+  }
+
+  /**
+   * put the saved peers back into the peer store, they keep their expiry, the expired ones are dropped
+   * @param state the saved state
+   * @param infoHashes the peer store of the dht
+   * @param logger default is the shared state logger
+   */
+  static restorePeers(state: DHTState, infoHashes: InfoHashManager, logger = getLogger('state')) {
+    const now = Date.now()
+    for (const { infoHash, peers } of state.peers ?? []) {
+      // the peer store expects the peers in the order they expire
+      const live = peers
+        .filter(({ expiredAt }) => expiredAt === undefined || (typeof expiredAt === 'number' && expiredAt >= now))
+        .sort((a, b) => (a.expiredAt ?? Infinity) - (b.expiredAt ?? Infinity))
+      for (const { addr, port, expiredAt } of live) {
+        try {
+          infoHashes.add(infoHash, new Peer(port, addr), expiredAt)
+        } catch (_) {
+          logger.warn('ignore the invalid peer', { infoHash, addr, port })
+        }
+      }
+    }
+  }
+}
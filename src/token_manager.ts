@@ -0,0 +1,73 @@
+import { concat } from 'std/bytes/concat.ts'
+import { crypto } from 'std/crypto/mod.ts'
+import { sha1 } from '~/src/util/hash.ts'
+
+/**
+ * TokenManager generates and validates the tokens of get_peers responses, see BEP 5
+ *
+ * the token is the sha1 hash of the requester ip and a secret, the secret rotates every 5 minutes,
+ * a token generated by the current or the previous secret is accepted, so a token is valid for 5 to 10 minutes
+ */
+export default class TokenManager {
+  static ROTATE_INTERVAL = 5 * 60 * 1000 // 5 minutes
+  static TOKEN_LENGTH = 8 // the length of the token in bytes
+  #secret = TokenManager.randomSecret() // the current secret
+  #previousSecret = TokenManager.randomSecret() // the secret before the last rotation
+  #rotatedAt = Date.now() // the time of the last rotation
+
+  /**
+   * generate a token for the requester
+   * @param ip the ip address of the requester
+   * @returns the token
+   */
+  generate(ip: string): Uint8Array {
+    this.rotate()
+    return TokenManager.hash(ip, this.#secret)
+  }
+
+  /**
+   * check the token was generated for the requester by the current or the previous secret
+   * @param ip the ip address of the requester
+   * @param token the token in the announce_peer query
+   * @returns true if the token is valid
+   */
+  isValid(ip: string, token?: Uint8Array): boolean {
+    if (!token || token.length !== TokenManager.TOKEN_LENGTH) {
+      return false
+    }
+
+    this.rotate()
+
+    return (
+      TokenManager.equals(token, TokenManager.hash(ip, this.#secret)) ||
+      TokenManager.equals(token, TokenManager.hash(ip, this.#previousSecret))
+    )
+  }
+
+  /**
+   * rotate the secret if it is older than the rotate interval
+   */
+  private rotate() {
+    const elapsed = Date.now() - this.#rotatedAt
+    if (elapsed < TokenManager.ROTATE_INTERVAL) {
+      return
+    }
+
+    // if more than 2 intervals passed, the tokens of the current secret are expired too
+    this.#previousSecret = elapsed < TokenManager.ROTATE_INTERVAL * 2 ? this.#secret : TokenManager.randomSecret()
+    this.#secret = TokenManager.randomSecret()
+    this.#rotatedAt = Date.now()
+  }
+
+  private static hash(ip: string, secret: Uint8Array) {
+    return sha1(concat(new TextEncoder().encode(ip), secret)).slice(0, TokenManager.TOKEN_LENGTH)
+  }
+
+  private static equals(a: Uint8Array, b: Uint8Array) {
+    return a.length === b.length && a.every((byte, i) => byte === b[i])
+  }
+
+  private static randomSecret() {
+    return crypto.getRandomValues(new Uint8Array(20))
+  }
+}
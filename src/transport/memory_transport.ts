@@ -0,0 +1,149 @@
+import Transport, { Datagram } from '~/src/transport/transport.ts'
+import { familyOf } from '~/src/util/net.ts'
+
+/**
+ * MemoryNetwork connects the virtual endpoints inside one process, no socket is opened
+ *
+ * a datagram is delivered to the endpoint bound on the receiver address in the order it is sent,
+ * the datagram to an unbound address is dropped silently like udp
+ */
+export class MemoryNetwork {
+  static EPHEMERAL_PORT = 49152 // the first port allocated when binding port 0
+  #endpoints = new Map<string, MemoryTransport>() // <addr:port, endpoint>
+  #nextPort = MemoryNetwork.EPHEMERAL_PORT
+
+  static key(addr: string, port: number) {
+    return familyOf(addr) === 'ipv6' ? `[${addr}]:${port}` : `${addr}:${port}`
+  }
+
+  /**
+   * the count of bound endpoints
+   */
+  get size() {
+    return this.#endpoints.size
+  }
+
+  /**
+   * create an endpoint on the address
+   * @param addr the address of the endpoint, any string of an ip
+   * @param port the port of the endpoint, 0 to allocate a free one
+   * @returns the endpoint
+   */
+  bind(addr: string, port = 0): MemoryTransport {
+    if (port === 0) {
+      while (this.#endpoints.has(MemoryNetwork.key(addr, this.#nextPort))) {
+        this.#nextPort++
+      }
+      port = this.#nextPort++
+    }
+
+    const key = MemoryNetwork.key(addr, port)
+    if (this.#endpoints.has(key)) {
+      throw new Error(`${key} is already bound`)
+    }
+
+    const endpoint = new MemoryTransport(this, addr, port)
+    this.#endpoints.set(key, endpoint)
+    return endpoint
+  }
+
+  /**
+   * remove the endpoint, called when it is closed
+   * @param endpoint
+   */
+  unbind(endpoint: MemoryTransport) {
+    const key = MemoryNetwork.key(endpoint.addr, endpoint.port)
+    if (this.#endpoints.get(key) === endpoint) {
+      this.#endpoints.delete(key)
+    }
+  }
+
+  /**
+   * deliver a datagram from the endpoint to the address
+   * @param from the sending endpoint
+   * @param data
+   * @param addr the address of the receiver
+   * @param port the port of the receiver
+   */
+  deliver(from: MemoryTransport, data: Uint8Array, addr: string, port: number) {
+    // copy the data, so the sender can't change the datagram after sending
+    this.#endpoints.get(MemoryNetwork.key(addr, port))?.push({ data: data.slice(), addr: from.addr, port: from.port })
+  }
+}
+
+/**
+ * MemoryTransport is a virtual endpoint of a MemoryNetwork
+ */
+export default class MemoryTransport implements Transport {
+  #network: MemoryNetwork
+  #addr: string
+  #port: number
+  #queue: Datagram[] = [] // the datagrams received but not read yet
+  #wake?: () => void // resolves the pending read
+  #closed = false
+
+  constructor(network: MemoryNetwork, addr: string, port: number) {
+    this.#network = network
+    this.#addr = addr
+    this.#port = port
+  }
+
+  get addr() {
+    return this.#addr
+  }
+
+  get port() {
+    return this.#port
+  }
+
+  get closed() {
+    return this.#closed
+  }
+
+  send(data: Uint8Array, addr: string, port: number) {
+    if (this.#closed) {
+      return Promise.reject(new Error(`${MemoryNetwork.key(this.#addr, this.#port)} is closed`))
+    }
+    this.#network.deliver(this, data, addr, port)
+    return Promise.resolve()
+  }
+
+  /**
+   * put a datagram into the receive queue, called by the network
+   * @param datagram
+   */
+  push(datagram: Datagram) {
+    if (this.#closed) {
+      return
+    }
+    this.#queue.push(datagram)
+    this.#wake?.()
+  }
+
+  async *receive(): AsyncIterable<Datagram> {
+    while (true) {
+      const datagram = this.#queue.shift()
+      if (datagram) {
+        yield datagram
+        continue
+      }
+
+      if (this.#closed) {
+        return
+      }
+
+      await new Promise<void>((resolve) => (this.#wake = resolve))
+      this.#wake = undefined
+    }
+  }
+
+  close() {
+    if (this.#closed) {
+      return
+    }
+    this.#closed = true
+    this.#queue = []
+    this.#network.unbind(this)
+    this.#wake?.()
+  }
+}
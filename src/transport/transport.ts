@@ -0,0 +1,32 @@
+/**
+ * a datagram received by a transport
+ */
+export type Datagram = {
+  data: Uint8Array
+  addr: string // the address of the sender
+  port: number // the port of the sender
+}
+
+/**
+ * Transport sends and receives the datagrams of a KRPC
+ * the default one is UdpTransport, MemoryTransport exchanges datagrams inside the process
+ */
+export default interface Transport {
+  /**
+   * send the data to the address, the datagram may be lost like udp
+   * @param data
+   * @param addr the address of the receiver
+   * @param port the port of the receiver
+   */
+  send(data: Uint8Array, addr: string, port: number): Promise<void>
+
+  /**
+   * the received datagrams, the iteration ends when the transport is closed
+   */
+  receive(): AsyncIterable<Datagram>
+
+  /**
+   * stop sending and receiving
+   */
+  close(): void
+}
@@ -0,0 +1,213 @@
+import Transport, { Datagram } from '~/src/transport/transport.ts'
+import { AddrFamily, bytes2IPStr, ipv6Str2Bytes, isIPv4MappedIPv6Str, unspecifiedAddr } from '~/src/util/net.ts'
+
+/**
+ * UdpTransport is the default transport, it listens on all interfaces of the family unless a hostname is given
+ */
+export default class UdpTransport implements Transport {
+  #conn: Deno.DatagramConn
+
+  /**
+   * @param port the port to listen on
+   * @param family the address family of the socket
+   * @param hostname the local address to listen on, default is all interfaces, 0.0.0.0 for IPv4 and :: for IPv6
+   * @throws Error if the address is already in use, e.g. another process listens on the port
+   */
+  constructor(port: number, family: AddrFamily, hostname = unspecifiedAddr(family)) {
+    this.#conn = Deno.listenDatagram({ port, transport: 'udp', hostname })
+  }
+
+  /**
+   * the port the socket listens on, it's chosen by the system if 0 is given
+   */
+  get port() {
+    return (this.#conn.addr as Deno.NetAddr).port
+  }
+
+  /**
+   * listen on the port of each family, each family has its own socket,
+   * unless the system makes the socket on :: dual-stack, then it holds the port of 0.0.0.0 too,
+   * and the IPv4 and IPv6 dht share it
+   * @param port
+   * @param families
+   * @param bind the local address of each family
+   * @returns the transport of each family
+   * @throws Error if a socket can't listen, e.g. the port is in use, or the host has no IPv6
+   */
+  static listen(port: number, families: AddrFamily[], bind: Record<AddrFamily, string>) {
+    const transports = new Map<AddrFamily, Transport>()
+    const v4 = families.includes('ipv4') ? new UdpTransport(port, 'ipv4', bind.ipv4) : undefined
+    if (v4) {
+      transports.set('ipv4', v4)
+    }
+    if (!families.includes('ipv6')) {
+      return transports
+    }
+
+    try {
+      transports.set('ipv6', new UdpTransport(v4?.port ?? port, 'ipv6', bind.ipv6))
+    } catch (e) {
+      const dualStack =
+        v4 && e instanceof Deno.errors.AddrInUse && families.every((f) => bind[f] === unspecifiedAddr(f))
+      v4?.close()
+      if (!dualStack) throw e
+
+      // the socket on :: would receive the IPv4 datagrams too, so it takes the port of both families
+      const socket = new DualStackSocket(v4.port)
+      for (const family of families) {
+        transports.set(family, socket.open(family))
+      }
+    }
+    return transports
+  }
+
+  async send(data: Uint8Array, addr: string, port: number) {
+    await this.#conn.send(data, { transport: 'udp', hostname: addr, port })
+  }
+
+  async *receive(): AsyncIterable<Datagram> {
+    // the iteration of the socket ends when it is closed
+    for await (const [data, addr] of this.#conn) {
+      const { hostname, port } = addr as Deno.NetAddr
+      yield { data, addr: hostname, port }
+    }
+  }
+
+  close() {
+    this.#conn.close()
+  }
+}
+
+/**
+ * DualStackSocket is a socket on :: which also receives the IPv4 datagrams, from the IPv4-mapped addresses,
+ * it hands each datagram to the transport of its family, and is closed when both transports are closed
+ */
+class DualStackSocket {
+  #conn: Deno.DatagramConn
+  #transports = new Map<AddrFamily, DualStackTransport>()
+  #closed = false
+
+  constructor(port: number) {
+    this.#conn = Deno.listenDatagram({ port, transport: 'udp', hostname: '::' })
+    this.dispatch()
+  }
+
+  open(family: AddrFamily) {
+    const transport = new DualStackTransport(this, family)
+    this.#transports.set(family, transport)
+    return transport
+  }
+
+  /**
+   * the IPv4 address is sent to as an IPv4-mapped address, e.g. ::ffff:1.2.3.4
+   */
+  async send(data: Uint8Array, addr: string, port: number, family: AddrFamily) {
+    const hostname = family === 'ipv4' ? `::ffff:${addr}` : addr
+    await this.#conn.send(data, { transport: 'udp', hostname, port })
+  }
+
+  /**
+   * remove the closed transport, the socket is closed with the last one
+   */
+  release(transport: DualStackTransport) {
+    this.#transports.delete(transport.family)
+    if (this.#transports.size === 0 && !this.#closed) {
+      this.#closed = true
+      this.#conn.close()
+    }
+  }
+
+  private async dispatch() {
+    let error: unknown
+    try {
+      // the iteration of the socket ends when it is closed
+      for await (const [data, addr] of this.#conn) {
+        const { hostname, port } = addr as Deno.NetAddr
+        if (isIPv4MappedIPv6Str(hostname)) {
+          this.#transports.get('ipv4')?.push({ data, addr: bytes2IPStr(ipv6Str2Bytes(hostname)!.slice(12)), port })
+        } else {
+          this.#transports.get('ipv6')?.push({ data, addr: hostname, port })
+        }
+      }
+    } catch (e) {
+      // the receiving of both transports fails with the error, like the socket of UdpTransport
+      error = e
+    } finally {
+      for (const transport of [...this.#transports.values()]) {
+        transport.close(error)
+      }
+    }
+  }
+}
+
+/**
+ * DualStackTransport is the view of a family on the DualStackSocket
+ */
+class DualStackTransport implements Transport {
+  #socket: DualStackSocket
+  #family: AddrFamily
+  #queue: Datagram[] = [] // the datagrams received but not read yet
+  #wake?: () => void // resolves the pending read
+  #closed = false
+  #error?: unknown // the error of the socket, thrown by receive()
+
+  constructor(socket: DualStackSocket, family: AddrFamily) {
+    this.#socket = socket
+    this.#family = family
+  }
+
+  get family() {
+    return this.#family
+  }
+
+  async send(data: Uint8Array, addr: string, port: number) {
+    if (this.#closed) {
+      throw new Error(`the ${this.#family} transport is closed`)
+    }
+    await this.#socket.send(data, addr, port, this.#family)
+  }
+
+  /**
+   * put a datagram into the receive queue, called by the socket
+   * @param datagram
+   */
+  push(datagram: Datagram) {
+    if (this.#closed) {
+      return
+    }
+    this.#queue.push(datagram)
+    this.#wake?.()
+  }
+
+  async *receive(): AsyncIterable<Datagram> {
+    while (true) {
+      const datagram = this.#queue.shift()
+      if (datagram) {
+        yield datagram
+        continue
+      }
+
+      if (this.#closed) {
+        if (this.#error) throw this.#error
+        return
+      }
+
+      await new Promise<void>((resolve) => (this.#wake = resolve))
+      this.#wake = undefined
+    }
+  }
+
+  /**
+   * @param error the error of the socket, if it failed
+   */
+  close(error?: unknown) {
+    if (this.#closed) {
+      return
+    }
+    this.#closed = true
+    this.#error = error
+    this.#queue = []
+    this.#socket.release(this)
+    this.#wake?.()
+  }
+}
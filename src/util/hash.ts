@@ -35,3 +35,29 @@ export function sha1String(data: Uint8Array): string {
 export function randomSha1String(): string {
   return sha1String(crypto.getRandomValues(new Uint8Array(20)))
 }
+
+// the lookup table of crc32c, the reversed polynomial is 0x82f63b78 (Castagnoli)
+const CRC32C_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let i = 0; i < 256; i++) {
+    let crc = i
+    for (let j = 0; j < 8; j++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0x82f63b78 : crc >>> 1
+    }
+    table[i] = crc
+  }
+  return table
+})()
+
+/**
+ * get the crc32c checksum, used by the node id security extension, see BEP 42
+ * @param data data to checksum
+ * @returns unsigned 32-bit checksum
+ */
+export function crc32c(data: Uint8Array): number {
+  let crc = 0xffffffff
+  for (const byte of data) {
+    crc = CRC32C_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
@@ -1,27 +1,328 @@
-import Logger from 'logger'
+import { encodeHex } from 'std/encoding/hex.ts'
 import { join } from 'std/path/join.ts'
 
-const PROJECT_ROOT = Deno.cwd()
-const LOG_DIR = join(PROJECT_ROOT, 'logs')
-const NAME = 'torrent-dht'
+/**
+ * the parts of the dht which have their own logger and level
+ */
+export type Subsystem = 'dht' | 'krpc' | 'routing' | 'storage' | 'lookup' | 'state' | 'nat' | 'http'
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent' // silent turns the logger off
+
+/**
+ * the structured context of a log, e.g. { tid, addr, port, query }
+ */
+export type LogFields = Record<string, unknown>
+
+export type LogRecord = {
+  time: Date
+  level: Exclude<LogLevel, 'silent'>
+  subsystem: Subsystem
+  message: string
+  fields: LogFields
+}
 
 /**
- * Logger
- * @param name name of the logger
+ * receives every log which passes the level of its subsystem, it replaces the console and the file output
  */
-async function getLogger(name: string) {
-  const logger = new Logger()
+export type LogHandler = (record: LogRecord) => void
+
+export type LogFileOptions = {
+  dir?: string // default is ./logs
+  name?: string // the file is <name>.log, the rotated ones are <name>.log.1, <name>.log.2 ..., default is torrent-dht,
+  // or torrent-dht-1, torrent-dht-2 ... if another dht of the process writes it
+  maxBytes?: number // the file is rotated when it exceeds the size, default is 10MB
+  maxFiles?: number // the count of rotated files kept, default is 5
+}
+
+/**
+ * the unset options keep the loggers as they are
+ */
+export type LogOptions = {
+  level?: LogLevel // the level of all subsystems, default is info
+  levels?: Partial<Record<Subsystem, LogLevel>> // the level of each subsystem, it overrides level
+  format?: 'text' | 'json' // json prints one object per line with the fields, default is text
+  console?: boolean // log to the console, default is true
+  file?: boolean | LogFileOptions // log to the rotated files, true uses the default file options, default is false
+  handler?: LogHandler | null // plug in the logger of the app, null restores the console and the file output
+}
+
+export const SUBSYSTEMS: readonly Subsystem[] = ['dht', 'krpc', 'routing', 'storage', 'lookup', 'state', 'nat', 'http']
+export const LOG_LEVELS: readonly LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent']
+
+/**
+ * LogFile appends the lines to a file, and rotates it when it exceeds the size
+ */
+class LogFile {
+  static #paths = new Set<string>() // the files written by the process, the default name is not shared
+  #path: string
+  #maxBytes: number
+  #maxFiles: number
+  #file?: Deno.FsFile
+  #size = 0
+
+  constructor({ dir = join(Deno.cwd(), 'logs'), name, maxBytes = 10 * 1024 * 1024, maxFiles = 5 }: LogFileOptions) {
+    this.#path = join(dir, `${name ?? 'torrent-dht'}.log`)
+    for (let i = 1; name === undefined && LogFile.#paths.has(this.#path); i++) {
+      this.#path = join(dir, `torrent-dht-${i}.log`)
+    }
+    LogFile.#paths.add(this.#path)
+    this.#maxBytes = maxBytes
+    this.#maxFiles = maxFiles
+    Deno.mkdirSync(dir, { recursive: true })
+  }
+
+  write(line: string) {
+    const bytes = new TextEncoder().encode(line + '\n')
+    if (!this.#file) {
+      this.#file = Deno.openSync(this.#path, { create: true, append: true })
+      this.#size = this.#file.statSync().size
+    }
+    if (this.#size > 0 && this.#size + bytes.length > this.#maxBytes) {
+      this.rotate()
+    }
+
+    // the logs are written in order, a process crash loses none of them, a write may take only a part of the bytes
+    for (let written = 0; written < bytes.length;) {
+      written += this.#file!.writeSync(bytes.subarray(written))
+    }
+    this.#size += bytes.length
+  }
+
+  /**
+   * close the file, its default name can be taken by another dht
+   */
+  close() {
+    this.closeFile()
+    LogFile.#paths.delete(this.#path)
+  }
+
+  private closeFile() {
+    this.#file?.close()
+    this.#file = undefined
+  }
+
+  /**
+   * <name>.log becomes <name>.log.1, <name>.log.1 becomes <name>.log.2 and so on, the oldest one is deleted
+   */
+  private rotate() {
+    this.closeFile()
+    const nameOf = (i: number) => (i === 0 ? this.#path : `${this.#path}.${i}`)
+    ignoreNotFound(() => Deno.removeSync(nameOf(this.#maxFiles)))
+    for (let i = this.#maxFiles - 1; i >= 0; i--) {
+      ignoreNotFound(() => Deno.renameSync(nameOf(i), nameOf(i + 1)))
+    }
+
+    this.#file = Deno.openSync(this.#path, { create: true, write: true, truncate: true })
+    this.#size = 0
+  }
+}
+
+function ignoreNotFound(fn: () => void) {
+  try {
+    fn()
+  } catch (e) {
+    if (!(e instanceof Deno.errors.NotFound)) throw e
+  }
+}
+
+/**
+ * the shared settings and outputs of the subsystem loggers
+ */
+class LogOutput {
+  #levels = new Map<Subsystem, number>(SUBSYSTEMS.map((subsystem) => [subsystem, LOG_LEVELS.indexOf('info')]))
+  #format: 'text' | 'json' = 'text'
+  #console = true
+  #file?: LogFile
+  #handler?: LogHandler
+
+  configure({ level, levels = {}, format, console: toConsole, file, handler }: LogOptions) {
+    for (const subsystem of SUBSYSTEMS) {
+      const value = levels[subsystem] ?? level
+      if (value !== undefined) this.#levels.set(subsystem, LOG_LEVELS.indexOf(value))
+    }
+    if (format !== undefined) this.#format = format
+    if (toConsole !== undefined) this.#console = toConsole
+    if (file !== undefined) {
+      this.#file?.close()
+      this.#file = file ? new LogFile(file === true ? {} : file) : undefined
+    }
+    if (handler !== undefined) this.#handler = handler ?? undefined
+  }
+
+  close() {
+    this.#file?.close()
+    this.#file = undefined
+  }
+
+  /**
+   * whether the level is logged by the subsystem
+   */
+  enabled(subsystem: Subsystem, level: Exclude<LogLevel, 'silent'>) {
+    return LOG_LEVELS.indexOf(level) >= this.#levels.get(subsystem)!
+  }
+
+  write(record: LogRecord) {
+    if (this.#handler) {
+      this.#handler(record)
+      return
+    }
+    if (!this.#console && !this.#file) return
+
+    const line = this.#format === 'json' ? this.json(record) : this.text(record)
+    if (this.#console) {
+      record.level === 'error' ? console.error(line) : record.level === 'warn' ? console.warn(line) : console.log(line)
+    }
+
+    try {
+      this.#file?.write(line)
+    } catch (e) {
+      // a full disk should not stop the dht, the file output is turned off
+      this.#file = undefined
+      console.error(`the log file is turned off, write failed: ${e}`)
+    }
+  }
 
-  // init file logger
-  await logger.initFileLogger(join(LOG_DIR, name), {
-    rotate: true
-  })
+  private text({ time, level, subsystem, message, fields }: LogRecord) {
+    const context = Object.entries(fields).map(([key, value]) => ` ${key}=${serialize(value)}`)
+    return `${time.toISOString()} ${level.toUpperCase().padEnd(5)} [${subsystem}] ${message}${context.join('')}`
+  }
 
-  return logger
+  private json({ time, level, subsystem, message, fields }: LogRecord) {
+    const context = Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, serialize(value)]))
+    return JSON.stringify({ time: time.toISOString(), level, subsystem, message, ...context })
+  }
 }
 
-const logger = await getLogger(NAME)
+/**
+ * the value of a field as a string, number or boolean, e.g. the bytes as hex, the id as hex
+ */
+function serialize(value: unknown) {
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value
+  if (value === undefined || value === null) return String(value)
+  if (value instanceof Uint8Array) return encodeHex(value)
+  if (value instanceof Error) return value.message
+  return String(value)
+}
+
+/**
+ * Logger logs the messages of a subsystem, the messages under the level of the subsystem are dropped,
+ * the loggers of all subsystems share the format and the outputs
+ */
+export class Logger {
+  #subsystem: Subsystem
+  #output: LogOutput
+
+  constructor(subsystem: Subsystem, output: LogOutput) {
+    this.#subsystem = subsystem
+    this.#output = output
+  }
+
+  get subsystem() {
+    return this.#subsystem
+  }
+
+  /**
+   * whether the level is logged, check it before building an expensive message
+   * @param level
+   */
+  enabled(level: Exclude<LogLevel, 'silent'>) {
+    return this.#output.enabled(this.#subsystem, level)
+  }
+
+  /**
+   * the details which are only useful to debug, e.g. every message sent and received
+   */
+  debug(message: string, fields: LogFields = {}) {
+    this.log('debug', message, fields)
+  }
+
+  info(message: string, fields: LogFields = {}) {
+    this.log('info', message, fields)
+  }
+
+  warn(message: string, fields: LogFields = {}) {
+    this.log('warn', message, fields)
+  }
+
+  error(message: string, fields: LogFields = {}) {
+    this.log('error', message, fields)
+  }
+
+  private log(level: Exclude<LogLevel, 'silent'>, message: string, fields: LogFields) {
+    if (!this.enabled(level)) return
+    this.#output.write({ time: new Date(), level, subsystem: this.#subsystem, message, fields })
+  }
+}
+
+/**
+ * Loggers holds the logger of each subsystem, they share the levels, the format and the outputs
+ *
+ * the process has a shared one, changed by configureLogger, a dht given the log options has its own one,
+ * so the dhts in a process don't change the logging of each other
+ */
+export class Loggers {
+  #output = new LogOutput()
+  #loggers = new Map<Subsystem, Logger>()
+
+  /**
+   * @param options the unset ones take the default value
+   */
+  constructor(options: LogOptions = {}) {
+    this.#output.configure(options)
+    for (const subsystem of SUBSYSTEMS) {
+      this.#loggers.set(subsystem, new Logger(subsystem, this.#output))
+    }
+  }
+
+  /**
+   * the logger of the subsystem
+   * @param subsystem
+   */
+  get(subsystem: Subsystem) {
+    return this.#loggers.get(subsystem)!
+  }
+
+  /**
+   * change the levels, the format and the outputs of all loggers
+   * @param options the unset ones keep their current value
+   */
+  configure(options: LogOptions) {
+    this.#output.configure(options)
+  }
+
+  /**
+   * close the log file, the later logs are not written to the file
+   */
+  close() {
+    this.#output.close()
+  }
+}
+
+const shared = new Loggers()
+
+/**
+ * the loggers shared by the process, they are used unless the log options are given to the dht
+ */
+export function sharedLoggers() {
+  return shared
+}
+
+/**
+ * change the levels, the format and the outputs of the shared loggers
+ * @param options the unset ones keep their current value
+ */
+export function configureLogger(options: LogOptions) {
+  shared.configure(options)
+}
+
+/**
+ * the shared logger of the subsystem
+ * @param subsystem
+ */
+export function getLogger(subsystem: Subsystem) {
+  return shared.get(subsystem)
+}
 
-logger.disableFile()
+const logger = shared.get('dht')
 
 export default logger
@@ -10,6 +10,17 @@ export const COMPAT_ADDR_V4_LEN = 6
 // the length of the compact address, 20-byte node id and 4-byte IPv4 address and 2-byte port number
 export const COMPAT_NODE_LEN = 26
 
+// the length of the compact address, 16-byte IPv6 address and 2-byte port number, see BEP 32
+export const COMPAT_ADDR_V6_LEN = 18
+
+// the length of the compact address, 20-byte node id and 16-byte IPv6 address and 2-byte port number, see BEP 32
+export const COMPAT_NODE_V6_LEN = 38
+
+/**
+ * the address family of the dht network, the IPv4 and IPv6 dht networks are separated, see BEP 32
+ */
+export type AddrFamily = 'ipv4' | 'ipv6'
+
 enum RequestType {
   IPv4 = REQ_URL_IPV4,
   IPv6 = REQ_URL_IPV6
@@ -17,50 +28,50 @@ enum RequestType {
 
 /**
  * extract the compact address
- * @param bytes the compact address
+ * @param bytes the compact address, 6 bytes for IPv4 or 18 bytes for IPv6
  * @returns the address and port
  */
 export function extractCompactAddr(bytes: Uint8Array) {
-  // 4-byte IP address and 2-byte port number
-  if (bytes.length !== COMPAT_ADDR_V4_LEN) {
-    throw new Error(`bytes length must be ${COMPAT_ADDR_V4_LEN}, but got ${bytes.length}`)
+  // 4-byte IPv4 address or 16-byte IPv6 address, and 2-byte port number
+  if (bytes.length !== COMPAT_ADDR_V4_LEN && bytes.length !== COMPAT_ADDR_V6_LEN) {
+    throw new Error(`bytes length must be ${COMPAT_ADDR_V4_LEN} or ${COMPAT_ADDR_V6_LEN}, but got ${bytes.length}`)
   }
 
-  const ipBytes = bytes.slice(0, 4)
-  const portBytes = bytes.slice(4, 6)
+  const ipBytes = bytes.slice(0, bytes.length - 2)
+  const portBytes = bytes.slice(bytes.length - 2)
 
   return {
-    addr: NetUtil.bytes2IPv4Str(ipBytes)!,
+    addr: bytes2IPStr(ipBytes),
     port: BytesUtil.bytes2Int(portBytes)
   }
 }
 
 /**
  * package the address and port to compact address
- * @param addr
+ * @param addr IPv4 or IPv6 address
  * @param port
  * @returns bytes
  */
 export function packageCompactAddr(addr: string, port: number) {
-  const ipBytes = NetUtil.ipv4Str2Bytes(addr)!
+  const ipBytes = ipStr2Bytes(addr)
   const portBytes = BytesUtil.int2Bytes(port)!
 
   return Uint8Array.from([...ipBytes, ...portBytes])
 }
 
 export function extractCompactNode(bytes: Uint8Array) {
-  // Compact IP-address/port info,20-byte Node ID followed by 4-byte IP address and 2-byte port number
-  if (bytes.length !== COMPAT_NODE_LEN) {
-    throw new Error(`bytes length must be 26, but got ${bytes.length}`)
+  // Compact IP-address/port info,20-byte Node ID followed by 4-byte IPv4 address or 16-byte IPv6 address and 2-byte port number
+  if (bytes.length !== COMPAT_NODE_LEN && bytes.length !== COMPAT_NODE_V6_LEN) {
+    throw new Error(`bytes length must be ${COMPAT_NODE_LEN} or ${COMPAT_NODE_V6_LEN}, but got ${bytes.length}`)
   }
 
   const idBytes = bytes.slice(0, 20)
-  const ipBytes = bytes.slice(20, 24)
-  const portBytes = bytes.slice(24, 26)
+  const ipBytes = bytes.slice(20, bytes.length - 2)
+  const portBytes = bytes.slice(bytes.length - 2)
 
   const id = Id.fromUnit8Array(idBytes)
   const port = BytesUtil.bytes2Int(portBytes)!
-  const addr = NetUtil.bytes2IPv4Str(ipBytes)!
+  const addr = bytes2IPStr(ipBytes)
 
   return {
     id,
@@ -71,12 +82,204 @@ export function extractCompactNode(bytes: Uint8Array) {
 
 export function packageCompactNode(id: Id, addr: string, port: number) {
   const idBytes = id.bits.bytes
-  const ipBytes = NetUtil.ipv4Str2Bytes(addr)!
+  const ipBytes = ipStr2Bytes(addr)
   const portBytes = BytesUtil.int2Bytes(port)!
 
   return Uint8Array.from([...idBytes, ...ipBytes, ...portBytes])
 }
 
+/**
+ * get the compact address length of the family
+ * @param family
+ * @returns 6 for IPv4, 18 for IPv6
+ */
+export function compactAddrLength(family: AddrFamily) {
+  return family === 'ipv6' ? COMPAT_ADDR_V6_LEN : COMPAT_ADDR_V4_LEN
+}
+
+/**
+ * get the compact node length of the family
+ * @param family
+ * @returns 26 for IPv4, 38 for IPv6
+ */
+export function compactNodeLength(family: AddrFamily) {
+  return family === 'ipv6' ? COMPAT_NODE_V6_LEN : COMPAT_NODE_LEN
+}
+
+/**
+ * get the family of the ip address
+ * @param addr IPv4 or IPv6 address
+ * @returns
+ */
+export function familyOf(addr: string): AddrFamily {
+  return isIPv6Str(addr) ? 'ipv6' : 'ipv4'
+}
+
+/**
+ * check the address is a IPv4-mapped IPv6 address, e.g. ::ffff:1.2.3.4, a dual-stack socket reports IPv4 sender like this
+ * @param addr
+ * @returns
+ */
+export function isIPv4MappedIPv6Str(addr: string) {
+  const bytes = ipv6Str2Bytes(addr)
+  return !!bytes && bytes.slice(0, 10).every((b) => b === 0) && bytes[10] === 0xff && bytes[11] === 0xff
+}
+
+/**
+ * check the string is a IPv6 address, zone index is not allowed
+ * @param value
+ * @returns
+ */
+export function isIPv6Str(value: string) {
+  return !!ipv6Str2Bytes(value)
+}
+
+/**
+ * convert IPv6 address to 16 bytes, support the compressed form and the embedded IPv4 form
+ * e.g. 2001:db8::1, ::ffff:1.2.3.4
+ * @param addr
+ * @returns undefined if the address is invalid
+ */
+export function ipv6Str2Bytes(addr: string): Uint8Array | undefined {
+  if (!addr.includes(':')) return undefined
+
+  const parts = addr.split('::')
+  if (parts.length > 2) return undefined
+
+  const parseGroups = (part: string) => {
+    if (part === '') return []
+    const groups: number[] = []
+    const segments = part.split(':')
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i]
+      // the last segment may be an embedded IPv4 address
+      if (i === segments.length - 1 && NetUtil.isIPv4Str(segment)) {
+        const ipv4 = NetUtil.ipv4Str2Bytes(segment)!
+        groups.push((ipv4[0] << 8) | ipv4[1], (ipv4[2] << 8) | ipv4[3])
+        continue
+      }
+      if (!/^[0-9a-fA-F]{1,4}$/.test(segment)) return undefined
+      groups.push(parseInt(segment, 16))
+    }
+    return groups
+  }
+
+  const head = parseGroups(parts[0])
+  const tail = parts.length === 2 ? parseGroups(parts[1]) : []
+  if (!head || !tail) return undefined
+
+  const missing = 8 - head.length - tail.length
+  // without "::", the groups must be 8, with "::", it must stand for at least one group
+  if ((parts.length === 1 && missing !== 0) || (parts.length === 2 && missing < 1)) return undefined
+
+  const groups = [...head, ...new Array(parts.length === 2 ? missing : 0).fill(0), ...tail]
+  const bytes = new Uint8Array(16)
+  groups.forEach((group, i) => {
+    bytes[i * 2] = group >> 8
+    bytes[i * 2 + 1] = group & 0xff
+  })
+  return bytes
+}
+
+/**
+ * convert 16 bytes to IPv6 address, in the compressed form of RFC 5952
+ * @param bytes
+ * @returns e.g. 2001:db8::1
+ */
+export function bytes2IPv6Str(bytes: Uint8Array): string {
+  if (bytes.length !== 16) {
+    throw new Error(`bytes length must be 16, but got ${bytes.length}`)
+  }
+
+  const groups: number[] = []
+  for (let i = 0; i < 16; i += 2) {
+    groups.push((bytes[i] << 8) | bytes[i + 1])
+  }
+
+  // find the longest run of zero groups, only a run longer than 1 is compressed
+  let bestStart = -1
+  let bestLength = 1
+  for (let i = 0; i < groups.length;) {
+    if (groups[i] !== 0) {
+      i++
+      continue
+    }
+    let j = i
+    while (j < groups.length && groups[j] === 0) j++
+    if (j - i > bestLength) {
+      bestStart = i
+      bestLength = j - i
+    }
+    i = j
+  }
+
+  const hex = groups.map((group) => group.toString(16))
+  if (bestStart === -1) return hex.join(':')
+
+  const head = hex.slice(0, bestStart).join(':')
+  const tail = hex.slice(bestStart + bestLength).join(':')
+  return `${head}::${tail}`
+}
+
+/**
+ * check the address is a loopback, private or link-local address, which is exempt from the node id check of BEP 42
+ * @param addr IPv4 or IPv6 address
+ */
+export function isLocalAddr(addr: string) {
+  if (isIPv6Str(addr)) {
+    const bytes = ipv6Str2Bytes(addr)!
+    return (
+      bytes.slice(0, 15).every((b) => b === 0) || // ::1 and ::
+      (bytes[0] & 0xfe) === 0xfc || // fc00::/7 unique local
+      (bytes[0] === 0xfe && (bytes[1] & 0xc0) === 0x80) // fe80::/10 link-local
+    )
+  }
+
+  const bytes = NetUtil.ipv4Str2Bytes(addr)
+  if (!bytes) return false
+  return (
+    isPrivateIPv4(addr) ||
+    (bytes[0] === 169 && bytes[1] === 254) || // 169.254.0.0/16
+    bytes[0] === 127 // 127.0.0.0/8
+  )
+}
+
+/**
+ * check the address is in the private ranges of RFC 1918
+ * @param addr IPv4 address
+ */
+export function isPrivateIPv4(addr: string) {
+  const bytes = NetUtil.ipv4Str2Bytes(addr)
+  if (!bytes) return false
+  return (
+    bytes[0] === 10 || // 10.0.0.0/8
+    (bytes[0] === 172 && (bytes[1] & 0xf0) === 16) || // 172.16.0.0/12
+    (bytes[0] === 192 && bytes[1] === 168) // 192.168.0.0/16
+  )
+}
+
+/**
+ * convert IPv4 or IPv6 address to bytes
+ * @param addr
+ * @returns 4 bytes for IPv4, 16 bytes for IPv6
+ */
+export function ipStr2Bytes(addr: string): Uint8Array {
+  const bytes = isIPv6Str(addr) ? ipv6Str2Bytes(addr) : NetUtil.ipv4Str2Bytes(addr)
+  if (!bytes) {
+    throw new Error('invalid ip address: ' + addr)
+  }
+  return bytes
+}
+
+/**
+ * convert bytes to IPv4 or IPv6 address
+ * @param bytes 4 bytes for IPv4, 16 bytes for IPv6
+ * @returns
+ */
+export function bytes2IPStr(bytes: Uint8Array): string {
+  return bytes.length === 16 ? bytes2IPv6Str(bytes) : NetUtil.bytes2IPv4Str(bytes)!
+}
+
 /**
  * request the ip address from ipify
  * @param ipv4 is IPv4
@@ -95,15 +298,55 @@ async function requestIPIFY(type: RequestType): Promise<string> {
   }
 }
 
+/**
+ * the address which means all interfaces, a local node has it until its external address is known
+ * @param family
+ */
+export function unspecifiedAddr(family: AddrFamily) {
+  return family === 'ipv6' ? '::' : '0.0.0.0'
+}
+
+/**
+ * find our IPv4 address on the network of the remote address, by the netmasks of the interfaces
+ * @param remote an IPv4 address, e.g. the gateway
+ * @returns undefined if no interface is on the network
+ */
+export function localAddrFor(remote: string): string | undefined {
+  const toNumber = (addr: string) => new DataView(ipStr2Bytes(addr).slice().buffer).getUint32(0)
+  const target = toNumber(remote)
+  for (const { family, address, netmask } of Deno.networkInterfaces()) {
+    if (family !== 'IPv4') continue
+    const mask = toNumber(netmask)
+    if ((toNumber(address) & mask) >>> 0 === (target & mask) >>> 0) return address
+  }
+  return undefined
+}
+
 /**
  * request the public ip address
- * @param type the request type (IPv4 or IPv6)
+ * @param family the family of the address (IPv4 or IPv6)
  * @returns the public ip address
  */
-export async function getIP(type: RequestType = RequestType.IPv4): Promise<string> {
-  return await requestIPIFY(type)
+export async function getIP(family: AddrFamily = 'ipv4'): Promise<string> {
+  return await requestIPIFY(family === 'ipv6' ? RequestType.IPv6 : RequestType.IPv4)
 }
 
 export function isAddr(value: string) {
-  return !!(NetUtil.isIPv4Str(value) || NetUtil.isDomain(value))
+  return !!(NetUtil.isIPv4Str(value) || isIPv6Str(value) || NetUtil.isDomain(value))
+}
+
+/**
+ * resolve the host name to an ip address of the family, the ip address is returned as it is
+ * the responses are only accepted from the queried address, so the nodes are queried by the ip
+ * @param host ip address or domain, e.g. router.bittorrent.com
+ * @param family
+ */
+export async function resolveAddr(host: string, family: AddrFamily): Promise<string> {
+  if (NetUtil.isIPv4Str(host) || isIPv6Str(host)) return host
+
+  const [addr] = await Deno.resolveDns(host, family === 'ipv6' ? 'AAAA' : 'A')
+  if (!addr) {
+    throw new Error(`${host} has no ${family} address`)
+  }
+  return addr
 }
@@ -0,0 +1,37 @@
+import { decodeBase32 } from 'std/encoding/base32.ts'
+import { decodeHex } from 'std/encoding/hex.ts'
+
+/**
+ * the arguments of a command or a request are wrong, the cli prints the usage, the http api answers 400
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UsageError'
+  }
+}
+
+/**
+ * parse the info hash of a magnet link, a 40 chars hex string, or a 32 chars base32 string
+ * @param value e.g. magnet:?xt=urn:btih:<info hash>&dn=name
+ * @returns 20 bytes
+ */
+export function parseInfoHash(value: string): Uint8Array {
+  let hash = value
+  if (value.startsWith('magnet:?')) {
+    const topics = new URLSearchParams(value.slice('magnet:?'.length)).getAll('xt')
+    const btih = topics.find((xt) => xt.toLowerCase().startsWith('urn:btih:'))
+    if (!btih) {
+      throw new UsageError(`the magnet link has no urn:btih topic: ${value}`)
+    }
+    hash = btih.slice('urn:btih:'.length)
+  }
+
+  if (/^[0-9a-fA-F]{40}$/.test(hash)) {
+    return decodeHex(hash)
+  }
+  if (/^[a-zA-Z2-7]{32}$/.test(hash)) {
+    return decodeBase32(hash.toUpperCase())
+  }
+  throw new UsageError(`the info hash should be 40 hex chars or 32 base32 chars, but got ${hash}`)
+}
@@ -0,0 +1,119 @@
+import { assert, assertEquals, assertFalse } from 'std/assert/mod.ts'
+import { delay } from 'std/async/delay.ts'
+import BlackListManager from '~/src/black_list_manager.ts'
+import MessageFactory from '~/src/message_factory.ts'
+import { Client, Cluster, PORT } from './helpers.ts'
+
+Deno.test('the ip is banned at the max strikes', () => {
+  const blackList = new BlackListManager()
+
+  for (let i = 1; i < BlackListManager.MAX_STRIKES; i++) {
+    assertFalse(blackList.strike('1.0.0.1', 'flood'))
+  }
+  assertFalse(blackList.isBaned('1.0.0.1'))
+
+  assert(blackList.strike('1.0.0.1', 'flood'))
+  assert(blackList.isBaned('1.0.0.1'))
+  assertFalse(blackList.isBaned('1.0.0.2'))
+  assertEquals(blackList.size, 1)
+})
+
+Deno.test('the strikes older than the window are forgotten', async () => {
+  const window = BlackListManager.STRIKE_WINDOW
+  BlackListManager.STRIKE_WINDOW = 50
+  try {
+    const blackList = new BlackListManager()
+    for (let i = 1; i < BlackListManager.MAX_STRIKES; i++) {
+      blackList.strike('1.0.0.1', 'flood')
+    }
+
+    await delay(60)
+    assertFalse(blackList.strike('1.0.0.1', 'flood'))
+    assertFalse(blackList.isBaned('1.0.0.1'))
+  } finally {
+    BlackListManager.STRIKE_WINDOW = window
+  }
+})
+
+Deno.test('the ban expires', async () => {
+  const blackList = new BlackListManager()
+
+  blackList.ban('1.0.0.1', 50)
+  assert(blackList.isBaned('1.0.0.1'))
+
+  await delay(60)
+  assertFalse(blackList.isBaned('1.0.0.1'))
+  assertEquals(blackList.size, 0)
+})
+
+Deno.test('the oldest ban is dropped over the max ips', () => {
+  const max = BlackListManager.MAX_IPS
+  BlackListManager.MAX_IPS = 2
+  try {
+    const blackList = new BlackListManager()
+
+    blackList.ban('1.0.0.1')
+    blackList.ban('1.0.0.2')
+    blackList.ban('1.0.0.1')
+    blackList.ban('1.0.0.3')
+
+    assertEquals(blackList.size, 2)
+    assertFalse(blackList.isBaned('1.0.0.2'))
+  } finally {
+    BlackListManager.MAX_IPS = max
+  }
+})
+
+Deno.test('the unbanned ip is allowed at once', () => {
+  const blackList = new BlackListManager()
+
+  blackList.ban('1.0.0.1')
+  blackList.unban('1.0.0.1')
+
+  assertFalse(blackList.isBaned('1.0.0.1'))
+})
+
+Deno.test('the ip flooding the node is banned, its queries are dropped', async () => {
+  const cluster = await Cluster.start(1, {
+    rateLimits: { inbound: { perIp: { rate: 0.001, burst: 1 } } }
+  })
+  try {
+    const [dht] = cluster.nodes
+    const addr = cluster.addrOf(dht)
+    const client = cluster.client()
+
+    assert(await client.query(MessageFactory.requestPing(client.id), addr))
+    for (let i = 0; i < BlackListManager.MAX_STRIKES; i++) {
+      assertEquals(await client.query(MessageFactory.requestPing(client.id), addr), undefined)
+    }
+
+    assertEquals(dht.stats().bannedIps, 1)
+  } finally {
+    await cluster.close()
+  }
+})
+
+Deno.test('the responses of a banned ip are still handled, a spoofed source can not cut off a node', async () => {
+  const cluster = await Cluster.start(2)
+  try {
+    const [dht, node] = cluster.nodes
+    const addr = cluster.addrOf(node)
+
+    // the malformed packets from another port of the node's address get it banned
+    const spoofer = new Client(cluster.network.bind(addr, PORT + 1))
+    try {
+      for (let i = 0; i < BlackListManager.MAX_STRIKES; i++) {
+        await spoofer.send(new TextEncoder().encode('garbage'), cluster.addrOf(dht))
+      }
+      await delay(10)
+      assertEquals(dht.stats().bannedIps, 1)
+
+      const { id } = await dht.ping(addr, PORT)
+      assert(id.equals(node.routingTable().localNode.id))
+    } finally {
+      spoofer.close()
+    }
+  } finally {
+    await cluster.close()
+  }
+})
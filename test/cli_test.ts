@@ -0,0 +1,94 @@
+import { assert, assertEquals, assertThrows } from 'std/assert/mod.ts'
+import { ExitCode, run } from '~/src/cli/cli.ts'
+import { parseHostPort, parseId, parsePort } from '~/src/cli/parse.ts'
+import DHT from '~/src/dht.ts'
+import UdpTransport from '~/src/transport/udp_transport.ts'
+import { UsageError } from '~/src/util/parse.ts'
+
+/**
+ * run the command, the lines printed on stdout and stderr are returned instead
+ */
+async function runQuietly(args: string[]) {
+  const { log, error } = console
+  const stdout: string[] = []
+  const stderr: string[] = []
+  console.log = (line: string) => stdout.push(line)
+  console.error = (line: string) => stderr.push(line)
+  try {
+    return { code: await run(args), stdout, stderr }
+  } finally {
+    console.log = log
+    console.error = error
+  }
+}
+
+Deno.test('an unknown log level is a usage error', async () => {
+  assertEquals(await run(['stats', '--log-level', 'loud', '--json']), ExitCode.USAGE)
+})
+
+Deno.test('the host and port, the id and the port are parsed, or refused with a usage error', () => {
+  assertEquals(parseHostPort('router.bittorrent.com:6881'), { addr: 'router.bittorrent.com', port: 6881 })
+  assertEquals(parseHostPort('[::1]:6881'), { addr: '::1', port: 6881 })
+  assertEquals(parsePort('listen', '0'), 0)
+  assertEquals(
+    parseId('e5f96f6f38320f0f33959cb4d3d656452117aadb').toString(),
+    'e5f96f6f38320f0f33959cb4d3d656452117aadb'
+  )
+
+  for (const invalid of ['::1:6881', 'localhost', 'localhost:65536', '[::1]']) {
+    assertThrows(() => parseHostPort(invalid), UsageError, undefined, invalid)
+  }
+  assertThrows(() => parsePort('listen', '6881.5'), UsageError)
+  assertThrows(() => parseId('e5f96f6f'), UsageError)
+})
+
+Deno.test('a wrong command or argument is a usage error with the message in json', async () => {
+  const cases: [string[], string][] = [
+    [['--json'], 'no command is given'],
+    [['seed', '--json'], 'unknown command seed'],
+    [['ping', '--json'], 'ping needs the host:port of a node'],
+    [['lookup', 'e5f96f6f', '--json'], 'the info hash should be 40 hex chars'],
+    [['find-node', 'xyz', '--json'], 'the id should be 40 hex chars, but got xyz']
+  ]
+
+  for (const [args, message] of cases) {
+    const { code, stdout } = await runQuietly(args)
+
+    assertEquals(code, ExitCode.USAGE, args.join(' '))
+    const { type, message: printed } = JSON.parse(stdout[0])
+    assertEquals(type, 'error')
+    assert(printed.startsWith(message), printed)
+  }
+})
+
+Deno.test('the help is printed', async () => {
+  const { code, stdout } = await runQuietly(['--help'])
+
+  assertEquals(code, ExitCode.OK)
+  assert(stdout[0].startsWith('usage: '))
+})
+
+Deno.test('ping prints the id and the round trip time of the node', async () => {
+  const probe = new UdpTransport(0, 'ipv4')
+  const port = probe.port
+  probe.close()
+  const dht = await DHT.listen({
+    port,
+    bind: { ipv4: '127.0.0.1', ipv6: '::1' },
+    bootstrapNodes: [{ addr: '127.0.0.1', port }],
+    log: { console: false }
+  })
+  try {
+    const { code, stdout } = await runQuietly(['ping', `127.0.0.1:${port}`, '--json'])
+
+    assertEquals(code, ExitCode.OK)
+    const pong = JSON.parse(stdout[0])
+    assertEquals(
+      [pong.type, pong.id, pong.addr, pong.port],
+      ['pong', dht.routingTable().localNode.id.toString(), '127.0.0.1', port]
+    )
+    assert(pong.rtt >= 0)
+  } finally {
+    await dht.close({ save: false })
+  }
+})
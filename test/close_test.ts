@@ -0,0 +1,59 @@
+import { assert, assertEquals, assertRejects, assertStrictEquals } from 'std/assert/mod.ts'
+import { delay } from 'std/async/delay.ts'
+import { join } from 'std/path/join.ts'
+import { ClosedError } from '~/src/krpc/error.ts'
+import { Cluster, PORT } from './helpers.ts'
+
+Deno.test('close rejects the pending queries', async () => {
+  const cluster = await Cluster.start(1, { timeouts: { query: 10 * 1000 } })
+  try {
+    const [dht] = cluster.nodes
+    // nobody answers at the address, so the ping waits until it's rejected
+    const ping = dht.ping('1.0.0.99', PORT)
+    await delay(20)
+
+    const startedAt = Date.now()
+    await dht.close({ save: false })
+
+    await assertRejects(() => ping, ClosedError)
+    assert(Date.now() - startedAt < 1000)
+  } finally {
+    await cluster.close()
+  }
+})
+
+Deno.test('close is called once, and frees the address of the dht', async () => {
+  const cluster = await Cluster.start(1)
+  try {
+    const [dht] = cluster.nodes
+    const addr = cluster.addrOf(dht)
+
+    const closing = dht.close({ save: false })
+    assertStrictEquals(dht.close({ save: false }), closing)
+    await closing
+
+    // the socket is closed, so the address can be bound again
+    cluster.network.bind(addr, PORT).close()
+  } finally {
+    await cluster.close()
+  }
+})
+
+Deno.test('close saves the state unless it is told not to', async () => {
+  const dir = await Deno.makeTempDir()
+  const cluster = await Cluster.start(1)
+  try {
+    const saved = await cluster.add({ state: { path: join(dir, 'saved.json') } })
+    const unsaved = await cluster.add({ state: { path: join(dir, 'unsaved.json') } })
+
+    await saved.close()
+    await unsaved.close({ save: false })
+
+    const state = JSON.parse(await Deno.readTextFile(join(dir, 'saved.json')))
+    assertEquals(state.tables[0].id, saved.routingTable().localNode.id.toString())
+    await assertRejects(() => Deno.readTextFile(join(dir, 'unsaved.json')), Deno.errors.NotFound)
+  } finally {
+    await cluster.close()
+    await Deno.remove(dir, { recursive: true })
+  }
+})
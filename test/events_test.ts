@@ -0,0 +1,111 @@
+import { assert, assertEquals } from 'std/assert/mod.ts'
+import { join } from 'std/path/join.ts'
+import DHTEvents, { DHTEventDetails, DHTEventType } from '~/src/dht_events.ts'
+import Id from '~/src/id.ts'
+import LocalNode from '~/src/local_node.ts'
+import Node from '~/src/node.ts'
+import RoutingTable from '~/src/routing_table.ts'
+import { Cluster, PORT } from './helpers.ts'
+
+/**
+ * collect the details of the events of the type
+ */
+function record<K extends DHTEventType>(events: DHTEvents, type: K) {
+  const details: DHTEventDetails[K][] = []
+  events.addEventListener(type, (event) => details.push(event.detail))
+  return details
+}
+
+Deno.test('ready is emitted after the bootstrap with the count of nodes', async () => {
+  const cluster = await Cluster.start(2)
+  try {
+    const dht = await cluster.add()
+
+    const nodes = await new Promise<number>((resolve) =>
+      dht.addEventListener('ready', (event) => resolve(event.detail.nodes), { once: true })
+    )
+
+    assertEquals(nodes, dht.routingTable().nodeCount)
+    assert(nodes > 0)
+  } finally {
+    await cluster.close()
+  }
+})
+
+Deno.test('node-added and node-removed follow the routing table', () => {
+  const events = new DHTEvents()
+  const added = record(events, 'node-added')
+  const removed = record(events, 'node-removed')
+  const table = new RoutingTable(new LocalNode(Id.random(), 6881, '1.0.0.1'), 'ipv4', 'off', undefined, events)
+  const node = new Node(Id.random(), 6881, '1.0.0.2')
+
+  table.add(node)
+  // a known node is not added again
+  table.markResponded(new Node(node.id, 6881, '1.0.0.2'))
+  assertEquals(added, [{ family: 'ipv4', node }])
+
+  for (let i = 0; i < Node.MAX_FAILURES; i++) {
+    table.markFailed(node.addr, node.port)
+  }
+  assertEquals(removed, [{ family: 'ipv4', node }])
+})
+
+Deno.test('the queries and the announces of other nodes are emitted', async () => {
+  const cluster = await Cluster.start(2)
+  try {
+    const [a, b] = cluster.nodes
+    const queries = record(b, 'query')
+    const announces = record(b, 'announce')
+    const infoHash = Id.random().bits.bytes
+
+    await a.announce(infoHash, { port: 6882 })
+
+    const id = a.routingTable().localNode.id
+    assert(queries.some(({ type, addr }) => type === 'get_peers' && addr === cluster.addrOf(a)))
+    assert(queries.some(({ type, port }) => type === 'announce_peer' && port === PORT))
+    assert(queries.every((query) => query.id.equals(id)))
+    assertEquals(announces.length, 1)
+    assertEquals(announces[0].infoHash, infoHash)
+    assertEquals([announces[0].peer.addr, announces[0].peer.port], [cluster.addrOf(a), 6882])
+    assert(announces[0].id.equals(id))
+  } finally {
+    await cluster.close()
+  }
+})
+
+Deno.test('the peers found by a lookup are emitted with the info hash', async () => {
+  const cluster = await Cluster.start(3)
+  try {
+    const [a, b, c] = cluster.nodes
+    const infoHash = Id.random().bits.bytes
+    await b.announce(infoHash, { port: 6882 })
+    const found = record(c, 'peer')
+
+    await c.getPeers(infoHash)
+
+    assert(found.length > 0)
+    assert(found.every((detail) => detail.infoHash.every((byte, i) => byte === infoHash[i])))
+    assert(found.some(({ peer }) => peer.addr === cluster.addrOf(b) && peer.port === 6882))
+    assertEquals(record(a, 'peer'), [])
+  } finally {
+    await cluster.close()
+  }
+})
+
+Deno.test('an error of the background work is emitted', async () => {
+  const dir = await Deno.makeTempDir()
+  const cluster = await Cluster.start(1)
+  try {
+    // the directory of the state file doesn't exist
+    const dht = await cluster.add({ state: { path: join(dir, 'missing', 'state.json') } })
+    const errors = record(dht, 'error')
+
+    await dht.save()
+
+    assertEquals(errors.length, 1)
+    assert(errors[0].error instanceof Deno.errors.NotFound)
+  } finally {
+    await cluster.close()
+    await Deno.remove(dir, { recursive: true })
+  }
+})
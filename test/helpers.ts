@@ -0,0 +1,150 @@
+import DHT from '~/src/dht.ts'
+import Id from '~/src/id.ts'
+import MessageFactory, { Message } from '~/src/message_factory.ts'
+import { DHTOptions } from '~/src/options.ts'
+import { Datagram } from '~/src/transport/transport.ts'
+import MemoryTransport, { MemoryNetwork } from '~/src/transport/memory_transport.ts'
+import { configureLogger } from '~/src/util/log.ts'
+
+// the tests don't print the logs of the nodes
+configureLogger({ console: false })
+
+export const PORT = 6881
+
+/**
+ * the dhts on a memory network, the first one is the bootstrap node of the others
+ */
+export class Cluster {
+  readonly network = new MemoryNetwork()
+  readonly nodes: DHT[] = []
+  #addrs = new Map<DHT, string>()
+  #clients: Client[] = []
+  #count = 0 // the count of allocated addresses
+
+  /**
+   * start the nodes, and let each node look up its own id to fill the routing tables
+   * @param count
+   * @param options the options of every node
+   */
+  static async start(count: number, options: DHTOptions = {}) {
+    const cluster = new Cluster()
+    for (let i = 0; i < count; i++) {
+      await cluster.add(options)
+    }
+    for (const dht of cluster.nodes) {
+      await dht.findNode(dht.routingTable().localNode.id)
+    }
+    return cluster
+  }
+
+  /**
+   * start a node on the next address, e.g. 1.0.0.1
+   * @param options
+   */
+  async add(options: DHTOptions = {}) {
+    const addr = this.nextAddr()
+    const dht = await DHT.listen({
+      port: PORT,
+      addrs: { ipv4: addr },
+      ids: { ipv4: Id.createIdByIp(addr) },
+      bootstrapNodes: [{ addr: this.nodes[0] ? this.addrOf(this.nodes[0]) : addr, port: PORT }],
+      transport: (_, port) => this.network.bind(addr, port),
+      ...options,
+      timeouts: { query: 200, ...options.timeouts }
+    })
+    this.nodes.push(dht)
+    this.#addrs.set(dht, addr)
+    return dht
+  }
+
+  /**
+   * the address of the node
+   * @param dht
+   */
+  addrOf(dht: DHT) {
+    return this.#addrs.get(dht)!
+  }
+
+  /**
+   * a raw endpoint on the next address, to send crafted queries to the nodes
+   */
+  client() {
+    const client = new Client(this.network.bind(this.nextAddr(), PORT))
+    this.#clients.push(client)
+    return client
+  }
+
+  /**
+   * close the nodes and the clients
+   */
+  async close() {
+    await Promise.all(this.nodes.map((dht) => dht.close({ save: false })))
+    for (const client of this.#clients) {
+      client.close()
+    }
+  }
+
+  private nextAddr() {
+    return `1.0.0.${++this.#count}`
+  }
+}
+
+/**
+ * Client sends the crafted queries and reads the responses, it's not a dht node
+ */
+export class Client {
+  static TIMEOUT = 100 // how long to wait for a response in milliseconds
+  readonly id: Id
+  #transport: MemoryTransport
+  #datagrams: AsyncIterator<Datagram>
+  #next?: Promise<IteratorResult<Datagram>> // the pending read, it's kept for the next receive if it times out
+
+  constructor(transport: MemoryTransport) {
+    this.#transport = transport
+    this.#datagrams = transport.receive()[Symbol.asyncIterator]()
+    this.id = Id.createIdByIp(transport.addr)
+  }
+
+  get addr() {
+    return this.#transport.addr
+  }
+
+  /**
+   * send the raw bytes to the node
+   */
+  async send(data: Uint8Array, addr: string, port = PORT) {
+    await this.#transport.send(data, addr, port)
+  }
+
+  /**
+   * send the query and wait for the response or the error
+   * @returns undefined if nothing is received in the timeout, e.g. the query is dropped
+   */
+  async query(message: MessageFactory, addr: string, port = PORT): Promise<Message | undefined> {
+    message.tid = 'aa'
+    await this.send(await message.bencode(), addr, port)
+    return await this.receive()
+  }
+
+  /**
+   * the next received message
+   * @returns undefined if nothing is received in the timeout
+   */
+  async receive(): Promise<Message | undefined> {
+    let timer: ReturnType<typeof setTimeout> | undefined = undefined
+    const timeout = new Promise<undefined>((resolve) => (timer = setTimeout(() => resolve(undefined), Client.TIMEOUT)))
+    this.#next ??= this.#datagrams.next()
+    const result = await Promise.race([this.#next, timeout])
+    clearTimeout(timer)
+    if (!result || result.done) {
+      return undefined
+    }
+
+    this.#next = undefined
+    return await MessageFactory.decode(result.value.data)
+  }
+
+  close() {
+    this.#transport.close()
+  }
+}
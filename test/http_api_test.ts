@@ -0,0 +1,103 @@
+import { assertEquals } from 'std/assert/mod.ts'
+import HttpApi from '~/src/http/http_api.ts'
+import { Cluster } from './helpers.ts'
+
+function get(api: HttpApi, path: string, authorization?: string) {
+  return api.handle(new Request(`http://localhost${path}`, { headers: authorization ? { authorization } : {} }))
+}
+
+Deno.test('the request without the bearer token is refused', async () => {
+  const cluster = await Cluster.start(1)
+  try {
+    const api = new HttpApi(cluster.nodes[0], { token: 'secret' })
+
+    for (const authorization of [undefined, 'Bearer wrong', 'Bearer secre', 'Basic secret', 'secret']) {
+      const response = await get(api, '/stats', authorization)
+      assertEquals(response.status, 401, authorization)
+      assertEquals(await response.json(), { error: 'the bearer token is missing or wrong' })
+    }
+  } finally {
+    await cluster.close()
+  }
+})
+
+Deno.test('the request with the bearer token is served', async () => {
+  const cluster = await Cluster.start(1)
+  try {
+    const [dht] = cluster.nodes
+    const api = new HttpApi(dht, { token: 'secret' })
+
+    const response = await get(api, '/stats', 'Bearer secret')
+
+    assertEquals(response.status, 200)
+    assertEquals((await response.json()).families.ipv4.id, dht.routingTable().localNode.id.toString())
+  } finally {
+    await cluster.close()
+  }
+})
+
+Deno.test('the unknown path is not found after the auth', async () => {
+  const cluster = await Cluster.start(1)
+  try {
+    const api = new HttpApi(cluster.nodes[0], { token: 'secret' })
+
+    const unauthorized = await get(api, '/unknown')
+    assertEquals(unauthorized.status, 401)
+    await unauthorized.body?.cancel()
+
+    const notFound = await get(api, '/unknown', 'Bearer secret')
+    assertEquals(notFound.status, 404)
+    await notFound.body?.cancel()
+  } finally {
+    await cluster.close()
+  }
+})
+
+Deno.test('no auth is required without a token', async () => {
+  const cluster = await Cluster.start(1)
+  try {
+    const api = new HttpApi(cluster.nodes[0])
+
+    const response = await get(api, '/stats')
+
+    assertEquals(response.status, 200)
+    await response.body?.cancel()
+  } finally {
+    await cluster.close()
+  }
+})
+
+Deno.test('a malformed path parameter is a bad request', async () => {
+  const cluster = await Cluster.start(1)
+  try {
+    const api = new HttpApi(cluster.nodes[0])
+
+    const response = await get(api, '/peers/%E0%A4%A')
+
+    assertEquals(response.status, 400)
+    assertEquals(await response.json(), { error: 'the path has a malformed escape: %E0%A4%A' })
+  } finally {
+    await cluster.close()
+  }
+})
+
+Deno.test('the port of an announce or a ping out of [1, 65535] is a bad request', async () => {
+  const cluster = await Cluster.start(1)
+  try {
+    const api = new HttpApi(cluster.nodes[0])
+    const post = (path: string, body: unknown) =>
+      api.handle(new Request(`http://localhost${path}`, { method: 'POST', body: JSON.stringify(body) }))
+
+    for (const port of [0, 65536, 1.5, '6881']) {
+      const announce = await post('/announce', { infoHash: 'e5f96f6f38320f0f33959cb4d3d656452117aadb', port })
+      assertEquals(announce.status, 400, `announce ${port}`)
+      assertEquals(await announce.json(), { error: `port should be in range [1, 65535], but got ${port}` })
+
+      const ping = await post('/ping', { addr: '1.0.0.2', port })
+      assertEquals(ping.status, 400, `ping ${port}`)
+      await ping.body?.cancel()
+    }
+  } finally {
+    await cluster.close()
+  }
+})
@@ -0,0 +1,66 @@
+import { assert, assertEquals, assertFalse } from 'std/assert/mod.ts'
+import { decodeHex } from 'std/encoding/hex.ts'
+import Id from '~/src/id.ts'
+import LocalNode from '~/src/local_node.ts'
+import Node from '~/src/node.ts'
+import RoutingTable from '~/src/routing_table.ts'
+
+// the test vectors of BEP 42
+const VECTORS = [
+  { ip: '124.31.75.21', id: '5fbfbff10c5d6a4ec8a88e4c6ab4c28b95eee401' },
+  { ip: '21.75.31.124', id: '5a3ce9c14e7a08645677bbd1cfe7d8f956d53256' },
+  { ip: '65.23.51.170', id: 'a5d43220bc8f112a3d426c84764f8c2a1150e616' },
+  { ip: '84.124.73.14', id: '1b0321dd1bb1fe518101ceef99462b947a01ff41' },
+  { ip: '43.213.53.83', id: 'e56f6cbf5b7c4be0237986d5243b87aa6d51305a' }
+]
+
+Deno.test('the id created by the ip matches the BEP 42 vectors', () => {
+  for (const { ip, id } of VECTORS) {
+    // the first 21 bits are computed from the ip, the others are random
+    const random = decodeHex(id)
+    random.fill(0, 0, 2)
+    random[2] &= 0x07
+
+    assertEquals(Id.createIdByIp(ip, random).toString(), id, ip)
+  }
+})
+
+Deno.test('the BEP 42 vector ids are valid for their ips only', () => {
+  for (const [i, { ip, id }] of VECTORS.entries()) {
+    assert(Id.fromUnit8Array(decodeHex(id)).isValidFor(ip), ip)
+    assertFalse(Id.fromUnit8Array(decodeHex(id)).isValidFor(VECTORS[(i + 1) % VECTORS.length].ip), ip)
+  }
+})
+
+Deno.test('the id created by an IPv6 address is valid for it', () => {
+  const id = Id.createIdByIp('2001:db8::1')
+
+  assert(id.isValidFor('2001:db8::1'))
+  // only the first 8 bytes of the address are used
+  assert(id.isValidFor('2001:db8::2'))
+  assertFalse(id.isValidFor('2001:db9::1'))
+})
+
+Deno.test('any id is valid for a local address', () => {
+  const id = Id.random()
+
+  for (const ip of ['127.0.0.1', '10.0.0.1', '192.168.1.1', '::1']) {
+    assert(id.isValidFor(ip), ip)
+  }
+})
+
+Deno.test('the routing table refuses the node whose id does not match its ip in the enforce mode', () => {
+  const localNode = new LocalNode(Id.createIdByIp('1.0.0.1'), 6881, '1.0.0.1')
+  const table = new RoutingTable(localNode, 'ipv4', 'enforce')
+
+  assertFalse(table.add(new Node(Id.createIdByIp('1.0.0.3'), 6881, '1.0.0.2')))
+  assert(table.add(new Node(Id.createIdByIp('1.0.0.2'), 6881, '1.0.0.2')))
+  assertEquals(table.nodeCount, 1)
+})
+
+Deno.test('the routing table accepts any id when the security is off', () => {
+  const localNode = new LocalNode(Id.createIdByIp('1.0.0.1'), 6881, '1.0.0.1')
+  const table = new RoutingTable(localNode, 'ipv4', 'off')
+
+  assert(table.add(new Node(Id.createIdByIp('1.0.0.3'), 6881, '1.0.0.2')))
+})
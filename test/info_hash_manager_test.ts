@@ -0,0 +1,99 @@
+import { assertEquals } from 'std/assert/mod.ts'
+import { delay } from 'std/async/delay.ts'
+import InfoHashManager from '~/src/info_hash_manager.ts'
+import Peer from '~/src/peer.ts'
+import { configureLogger } from '~/src/util/log.ts'
+
+configureLogger({ console: false })
+
+const INFO_HASH = 'e5f96f6f38320f0f33959cb4d3d656452117aadb'
+
+function addrsOf(peers?: Peer[]) {
+  return peers?.map(({ addr, port }) => `${addr}:${port}`)
+}
+
+Deno.test('the peer of the same address is stored once, with the last announced port', () => {
+  const store = new InfoHashManager()
+
+  store.addList(INFO_HASH, [new Peer(6881, '1.0.0.1'), new Peer(6881, '1.0.0.2'), new Peer(6881, '1.0.0.1')])
+  store.add(INFO_HASH, new Peer(6882, '1.0.0.2'))
+
+  assertEquals(addrsOf(store.find(INFO_HASH)), ['1.0.0.1:6881', '1.0.0.2:6882'])
+  assertEquals(store.peerCount, 2)
+})
+
+Deno.test('an address can not fill the info hash with ports', () => {
+  const store = new InfoHashManager({ maxPeers: 2 })
+
+  for (let port = 6881; port < 6891; port++) {
+    store.add(INFO_HASH, new Peer(port, '1.0.0.1'))
+  }
+  store.add(INFO_HASH, new Peer(6881, '1.0.0.2'))
+
+  assertEquals(addrsOf(store.find(INFO_HASH)), ['1.0.0.1:6890', '1.0.0.2:6881'])
+})
+
+Deno.test('the peer expires if it is not announced again in the ttl', async () => {
+  const store = new InfoHashManager({ peerTTL: 100 })
+  store.add(INFO_HASH, new Peer(6881, '1.0.0.1'))
+  store.add(INFO_HASH, new Peer(6881, '1.0.0.2'))
+
+  await delay(60)
+  store.add(INFO_HASH, new Peer(6881, '1.0.0.1'))
+  await delay(60)
+
+  assertEquals(addrsOf(store.find(INFO_HASH)), ['1.0.0.1:6881'])
+  assertEquals(store.peerCount, 1)
+
+  await delay(60)
+  assertEquals(store.find(INFO_HASH), undefined)
+  assertEquals(store.size, 0)
+  assertEquals(store.peerCount, 0)
+})
+
+Deno.test('prune drops the expired peers of all info hashes', async () => {
+  const store = new InfoHashManager({ peerTTL: 50 })
+  store.add(INFO_HASH, new Peer(6881, '1.0.0.1'))
+  store.add('0'.repeat(40), new Peer(6881, '1.0.0.1'))
+
+  await delay(60)
+  store.prune()
+
+  assertEquals(store.size, 0)
+  assertEquals(store.peerCount, 0)
+})
+
+Deno.test('the new peer is ignored when the info hash has the max peers', () => {
+  const store = new InfoHashManager({ maxPeers: 2 })
+
+  store.addList(INFO_HASH, [new Peer(6881, '1.0.0.1'), new Peer(6881, '1.0.0.2'), new Peer(6881, '1.0.0.3')])
+  // the known peer is still refreshed
+  store.add(INFO_HASH, new Peer(6881, '1.0.0.1'))
+
+  assertEquals(addrsOf(store.find(INFO_HASH)), ['1.0.0.2:6881', '1.0.0.1:6881'])
+})
+
+Deno.test('an expired peer makes room for the new one', async () => {
+  const store = new InfoHashManager({ peerTTL: 50, maxPeers: 1 })
+  store.add(INFO_HASH, new Peer(6881, '1.0.0.1'))
+
+  await delay(60)
+  store.add(INFO_HASH, new Peer(6881, '1.0.0.2'))
+
+  assertEquals(addrsOf(store.find(INFO_HASH)), ['1.0.0.2:6881'])
+})
+
+Deno.test('the least recently used info hash is evicted over the memory budget', () => {
+  const bytes = InfoHashManager.INFO_HASH_BYTES + InfoHashManager.PEER_BYTES
+  const store = new InfoHashManager({ maxBytes: 2 * bytes })
+  const infoHashes = ['1', '2', '3'].map((c) => c.repeat(40))
+
+  store.add(infoHashes[0], new Peer(6881, '1.0.0.1'))
+  store.add(infoHashes[1], new Peer(6881, '1.0.0.1'))
+  store.find(infoHashes[0])
+  store.add(infoHashes[2], new Peer(6881, '1.0.0.1'))
+
+  assertEquals(store.find(infoHashes[1]), undefined)
+  assertEquals(store.size, 2)
+  assertEquals(store.bytes, 2 * bytes)
+})
@@ -0,0 +1,128 @@
+import { assert, assertEquals, assertThrows } from 'std/assert/mod.ts'
+import DHT from '~/src/dht.ts'
+import Id from '~/src/id.ts'
+import MessageFactory from '~/src/message_factory.ts'
+import { MemoryNetwork } from '~/src/transport/memory_transport.ts'
+import { extractCompactAddr, extractCompactNode, packageCompactAddr, packageCompactNode } from '~/src/util/net.ts'
+import { Client, PORT } from './helpers.ts'
+
+/**
+ * the dual-stack nodes on a memory network, the node i has the addresses 1.0.0.i and fd00::i,
+ * the first one is the bootstrap node of the others
+ */
+async function dualStack(count: number) {
+  const network = new MemoryNetwork()
+  const nodes: DHT[] = []
+  for (let i = 1; i <= count; i++) {
+    const addrs = { ipv4: `1.0.0.${i}`, ipv6: `fd00::${i}` }
+    nodes.push(
+      await DHT.listen({
+        port: PORT,
+        families: ['ipv4', 'ipv6'],
+        addrs,
+        ids: { ipv4: Id.createIdByIp(addrs.ipv4), ipv6: Id.createIdByIp(addrs.ipv6) },
+        bootstrapNodes: [
+          { addr: '1.0.0.1', port: PORT },
+          { addr: 'fd00::1', port: PORT }
+        ],
+        transport: (family, port) => network.bind(addrs[family], port),
+        timeouts: { query: 200 }
+      })
+    )
+  }
+  for (const dht of nodes) {
+    await dht.findNode(dht.routingTable('ipv4').localNode.id)
+  }
+
+  const clients: Client[] = []
+  return {
+    nodes,
+    client(addr: string) {
+      const client = new Client(network.bind(addr, PORT))
+      clients.push(client)
+      return client
+    },
+    async close() {
+      await Promise.all(nodes.map((dht) => dht.close({ save: false })))
+      clients.forEach((client) => client.close())
+    }
+  }
+}
+
+/**
+ * the nodes are given, and each one is the compact node of the length
+ */
+function assertCompactNodes(nodes: Uint8Array | undefined, length: number) {
+  assert(nodes && nodes.length > 0, 'no nodes')
+  assertEquals(nodes.length % length, 0)
+}
+
+Deno.test('the IPv6 compact address is 18 bytes, the compact node is 38 bytes', () => {
+  const addr = packageCompactAddr('2001:db8::1', 6881)
+  assertEquals(addr.length, 18)
+  assertEquals(addr.slice(16), Uint8Array.from([0x1a, 0xe1]))
+  assertEquals(extractCompactAddr(addr), { addr: '2001:db8::1', port: 6881 })
+
+  const id = Id.random()
+  const node = packageCompactNode(id, '2001:db8::1', 6881)
+  assertEquals(node.length, 38)
+  const extracted = extractCompactNode(node)
+  assert(extracted.id.equals(id))
+  assertEquals([extracted.addr, extracted.port], ['2001:db8::1', 6881])
+
+  // the IPv4 ones are 6 and 26 bytes
+  assertEquals(packageCompactAddr('1.2.3.4', 6881).length, 6)
+  assertEquals(extractCompactNode(packageCompactNode(id, '1.2.3.4', 6881)).addr, '1.2.3.4')
+})
+
+Deno.test('the compact bytes of another length are refused', () => {
+  assertThrows(() => extractCompactAddr(new Uint8Array(17)))
+  assertThrows(() => extractCompactNode(new Uint8Array(37)))
+})
+
+Deno.test('find_node returns the nodes of the wanted families', async () => {
+  const network = await dualStack(3)
+  try {
+    const client4 = network.client('1.0.0.9')
+    const client6 = network.client('fd00::9')
+    const target = Id.random()
+
+    // without want, the nodes of the family of the query
+    const v4 = (await client4.query(MessageFactory.requestFindNode(client4.id, target), '1.0.0.1'))!.r!
+    assertCompactNodes(v4.nodes, 26)
+    assertEquals(v4.nodes6, undefined)
+
+    const v6 = (await client6.query(MessageFactory.requestFindNode(client6.id, target), 'fd00::1'))!.r!
+    assertEquals(v6.nodes, undefined)
+    assertCompactNodes(v6.nodes6, 38)
+    assertEquals(extractCompactNode(v6.nodes6!.slice(0, 38)).addr.startsWith('fd00::'), true)
+
+    // both families are answered over IPv4
+    const both = (await client4.query(MessageFactory.requestFindNode(client4.id, target, ['ipv4', 'ipv6']), '1.0.0.1'))!
+      .r!
+    assertCompactNodes(both.nodes, 26)
+    assertCompactNodes(both.nodes6, 38)
+  } finally {
+    await network.close()
+  }
+})
+
+Deno.test('a node pings and finds the peers over IPv6', async () => {
+  const network = await dualStack(3)
+  try {
+    const [a, b, c] = network.nodes
+    const infoHash = crypto.getRandomValues(new Uint8Array(20))
+
+    const { id } = await a.ping('fd00::2', PORT)
+    assert(id.equals(b.routingTable('ipv6').localNode.id))
+
+    assert((await b.announce(infoHash, { port: 6882 })) > 0)
+    const { peers } = await c.getPeers(infoHash)
+
+    const addrs = peers.map(({ addr, port }) => `${addr}:${port}`)
+    assert(addrs.includes('fd00::2:6882'), addrs.join(', '))
+    assert(addrs.includes('1.0.0.2:6882'), addrs.join(', '))
+  } finally {
+    await network.close()
+  }
+})
@@ -0,0 +1,166 @@
+import { assert, assertEquals, assertExists, assertFalse } from 'std/assert/mod.ts'
+import { delay } from 'std/async/delay.ts'
+import { decodeHex } from 'std/encoding/hex.ts'
+import Id from '~/src/id.ts'
+import Item from '~/src/item.ts'
+import ItemManager from '~/src/item_manager.ts'
+import { Cluster } from './helpers.ts'
+
+const encoder = new TextEncoder()
+
+// the test vectors of BEP 44
+const VALUE = encoder.encode('Hello World!')
+const PUBLIC_KEY = decodeHex('77ff84905a91936367c01360803104f92432fcd904a43511876df5cdf3e7e548')
+const SIGNATURE = decodeHex(
+  '305ac8aeb6c9c151fa120f120ea2cfb923564e11552d06a5d856091e5e853cff1260d3f39e4999684aa92eb73ffd136e6f4f3ecbfda0ce53a1608ecd7ae21f01'
+)
+const SALTED_SIGNATURE = decodeHex(
+  '6834284b6b24c3204eb2fea824d82f88883a3d95e8b4a21b8c0ded553d17d17ddf9a8a7104b1258f30bed3787e6cb896fca78c58f8e03b5f18f14951a87d9a08'
+)
+
+function generateKeyPair() {
+  return crypto.subtle.generateKey('Ed25519', true, ['sign', 'verify']) as Promise<CryptoKeyPair>
+}
+
+async function equalValues(a: Item, b: Item) {
+  assertEquals(await a.bencodedValue(), await b.bencodedValue())
+}
+
+Deno.test('the target of the immutable item is the sha1 hash of the bencoded value', async () => {
+  const item = Item.immutable(VALUE)
+
+  assertEquals((await item.target()).toString(), 'e5f96f6f38320f0f33959cb4d3d656452117aadb')
+  assert(await item.isSigned())
+})
+
+Deno.test('the mutable item of the BEP 44 vector is signed', async () => {
+  const item = new Item(VALUE, { publicKey: PUBLIC_KEY, seq: 1, signature: SIGNATURE })
+
+  assertEquals((await item.target()).toString(), '4a533d47ec9c7d95b1ad75f576cffc641853b750')
+  assert(await item.isValidFor(Id.fromUnit8Array(decodeHex('4a533d47ec9c7d95b1ad75f576cffc641853b750'))))
+})
+
+Deno.test('the salted mutable item of the BEP 44 vector is signed', async () => {
+  const salt = encoder.encode('foobar')
+  const item = new Item(VALUE, { publicKey: PUBLIC_KEY, seq: 1, signature: SALTED_SIGNATURE, salt })
+
+  assertEquals((await item.target()).toString(), '411eba73b6f087ca51a3795d9c8c938d365e32c1')
+  assert(await item.isSigned())
+})
+
+Deno.test('the signature does not match another seq, value or salt', async () => {
+  const signed = { publicKey: PUBLIC_KEY, signature: SIGNATURE }
+
+  assertFalse(await new Item(VALUE, { ...signed, seq: 2 }).isSigned())
+  assertFalse(await new Item(encoder.encode('Hello World?'), { ...signed, seq: 1 }).isSigned())
+  assertFalse(await new Item(VALUE, { ...signed, seq: 1, salt: encoder.encode('foobar') }).isSigned())
+})
+
+Deno.test('the item signed by a generated key is valid for its target', async () => {
+  const keyPair = await generateKeyPair()
+  const salt = encoder.encode('salt')
+  const item = await Item.mutable(keyPair, VALUE, 3, salt)
+
+  assert(await item.isValidFor(Item.mutableTarget(item.publicKey!, salt)))
+  assertFalse(await item.isValidFor(Item.mutableTarget(item.publicKey!)))
+})
+
+Deno.test('a mutable item replaces the stored one by the seq', async () => {
+  const keyPair = await generateKeyPair()
+  const stored = await Item.mutable(keyPair, VALUE, 2)
+
+  assert(await (await Item.mutable(keyPair, VALUE, 3)).canReplace(stored))
+  assertFalse(await (await Item.mutable(keyPair, VALUE, 1)).canReplace(stored))
+
+  // the same seq is only accepted with the same value, whatever the cas
+  const other = await Item.mutable(keyPair, encoder.encode('other'), 2)
+  assert(await (await Item.mutable(keyPair, VALUE, 2)).canReplace(stored))
+  assertFalse(await other.canReplace(stored))
+})
+
+Deno.test('the full store drops the expired items before it ignores a new one', async () => {
+  const store = new ItemManager({ ttl: 50, maxItems: 1 })
+  assert(store.put('1'.repeat(40), Item.immutable(VALUE)))
+  assertFalse(store.put('2'.repeat(40), Item.immutable(VALUE)))
+  // the stored item is still replaced
+  assert(store.put('1'.repeat(40), Item.immutable(VALUE)))
+
+  await delay(60)
+  assert(store.put('2'.repeat(40), Item.immutable(VALUE)))
+  assertEquals(store.size, 1)
+
+  await delay(60)
+  store.prune()
+  assertEquals(store.size, 0)
+})
+
+Deno.test('an immutable item is put and got on the memory network', async () => {
+  const cluster = await Cluster.start(8)
+  try {
+    const [putter, , , , , , , getter] = cluster.nodes
+
+    const { target, count } = await putter.putImmutable(VALUE)
+    assert(count > 0, 'no node stored the item')
+
+    const item = await getter.get(target)
+    assertExists(item)
+    await equalValues(item, Item.immutable(VALUE))
+  } finally {
+    await cluster.close()
+  }
+})
+
+Deno.test('a mutable item is updated on the memory network', async () => {
+  const cluster = await Cluster.start(8)
+  try {
+    const [putter, , , , , , , getter] = cluster.nodes
+    const keyPair = await generateKeyPair()
+    const salt = encoder.encode('foobar')
+
+    const first = await putter.putMutable(keyPair, encoder.encode('first'), { salt })
+    assertEquals(first.seq, 0)
+    assert(first.count > 0, 'no node stored the item')
+
+    // the seq is increased from the stored one
+    const second = await putter.putMutable(keyPair, encoder.encode('second'), { salt })
+    assertEquals(second.seq, 1)
+    assert(second.count > 0, 'no node stored the update')
+
+    const item = await getter.get(second.target, salt)
+    assertExists(item)
+    assertEquals(item.seq, 1)
+    await equalValues(item, Item.immutable(encoder.encode('second')))
+  } finally {
+    await cluster.close()
+  }
+})
+
+Deno.test('an update with an older seq is refused by the nodes', async () => {
+  const cluster = await Cluster.start(8)
+  try {
+    const [putter] = cluster.nodes
+    const keyPair = await generateKeyPair()
+
+    await putter.putMutable(keyPair, encoder.encode('newer'), { seq: 5 })
+    const { count } = await putter.putMutable(keyPair, encoder.encode('older'), { seq: 4 })
+
+    assertEquals(count, 0)
+  } finally {
+    await cluster.close()
+  }
+})
+
+Deno.test('the item is refused by the nodes with a full store', async () => {
+  const cluster = await Cluster.start(8, { storage: { items: { maxItems: 1 } } })
+  try {
+    const [putter] = cluster.nodes
+
+    const first = await putter.putImmutable(encoder.encode('first'))
+    assert(first.count > 0, 'no node stored the item')
+    const { count } = await putter.putImmutable(encoder.encode('second'))
+
+    assertEquals(count, 0)
+  } finally {
+    await cluster.close()
+  }
+})
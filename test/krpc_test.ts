@@ -0,0 +1,95 @@
+import { assert, assertEquals, assertExists } from 'std/assert/mod.ts'
+import { Bencoder } from 'bencode'
+import Id from '~/src/id.ts'
+import MessageFactory, { ErrorType, MessageType } from '~/src/message_factory.ts'
+import { Cluster, PORT } from './helpers.ts'
+
+Deno.test('ping a node on the memory network', async () => {
+  const cluster = await Cluster.start(2)
+  try {
+    const [a, b] = cluster.nodes
+
+    const result = await a.ping(cluster.addrOf(b), PORT)
+
+    assert(result.id.equals(b.routingTable().localNode.id))
+    assert(result.rtt >= 0)
+  } finally {
+    await cluster.close()
+  }
+})
+
+Deno.test('the response has the tid of the query and the id of the node', async () => {
+  const cluster = await Cluster.start(1)
+  try {
+    const [dht] = cluster.nodes
+    const client = cluster.client()
+
+    const response = await client.query(MessageFactory.requestPing(client.id), cluster.addrOf(dht))
+
+    assertExists(response)
+    assertEquals(response.t, 'aa')
+    assertEquals(response.y, MessageType.RESPONSE)
+    assert(Id.fromUnit8Array(response.r!.id).equals(dht.routingTable().localNode.id))
+  } finally {
+    await cluster.close()
+  }
+})
+
+Deno.test('find_node returns the nodes the node knows', async () => {
+  const cluster = await Cluster.start(4)
+  try {
+    const [dht] = cluster.nodes
+    const client = cluster.client()
+
+    const response = await client.query(MessageFactory.requestFindNode(client.id, Id.random()), cluster.addrOf(dht))
+
+    // the compact node info is 26 bytes, the other 3 nodes are known to the bootstrap node
+    const nodes = response?.r?.nodes
+    assert(nodes && nodes.length >= 3 * 26 && nodes.length % 26 === 0, `${nodes?.length} bytes of nodes`)
+  } finally {
+    await cluster.close()
+  }
+})
+
+Deno.test('a query with an invalid node id is answered with a protocol error', async () => {
+  const cluster = await Cluster.start(1)
+  try {
+    const client = cluster.client()
+    const query = { t: 'aa', y: 'q', q: 'ping', a: { id: new Uint8Array(19) } }
+
+    await client.send(await new Bencoder().e(query), cluster.addrOf(cluster.nodes[0]))
+    const response = await client.receive()
+
+    assertEquals(response?.y, MessageType.ERROR)
+    assertEquals(response?.e?.[0], ErrorType.PROTOCOL)
+  } finally {
+    await cluster.close()
+  }
+})
+
+Deno.test('a malformed packet is dropped', async () => {
+  const cluster = await Cluster.start(1)
+  try {
+    const client = cluster.client()
+
+    await client.send(new TextEncoder().encode('not bencoded'), cluster.addrOf(cluster.nodes[0]))
+
+    assertEquals(await client.receive(), undefined)
+  } finally {
+    await cluster.close()
+  }
+})
+
+Deno.test('the query to a closed node times out', async () => {
+  const cluster = await Cluster.start(2)
+  try {
+    const [a, b] = cluster.nodes
+    await b.close({ save: false })
+
+    const error = await a.ping(cluster.addrOf(b), PORT).catch((e) => e)
+
+    assert(error instanceof Error, `the ping got ${error}`)
+  } finally {
+    await cluster.close()
+  }
+})
@@ -0,0 +1,114 @@
+import { assert, assertEquals, assertFalse } from 'std/assert/mod.ts'
+import { join } from 'std/path/join.ts'
+import { Loggers, LogRecord } from '~/src/util/log.ts'
+import { Cluster } from './helpers.ts'
+
+Deno.test('the dhts of a process write their own default log files', async () => {
+  const dir = await Deno.makeTempDir()
+  const first = new Loggers({ console: false, file: { dir } })
+  const second = new Loggers({ console: false, file: { dir } })
+  try {
+    first.get('dht').info('first')
+    second.get('dht').info('second')
+
+    const read = (name: string) => Deno.readTextFileSync(join(dir, name))
+    assertEquals(read('torrent-dht.log').match(/\] (\w+)/)?.[1], 'first')
+    assertEquals(read('torrent-dht-1.log').match(/\] (\w+)/)?.[1], 'second')
+
+    // the closed file can be taken again
+    first.close()
+    const third = new Loggers({ console: false, file: { dir } })
+    third.get('dht').info('third')
+    third.close()
+    assertEquals(read('torrent-dht.log').split('\n').length, 3)
+  } finally {
+    first.close()
+    second.close()
+    await Deno.remove(dir, { recursive: true })
+  }
+})
+
+Deno.test('the handler gets the records which pass the level of their subsystem', () => {
+  const records: LogRecord[] = []
+  const loggers = new Loggers({
+    level: 'warn',
+    levels: { krpc: 'debug', nat: 'silent' },
+    handler: (r) => records.push(r)
+  })
+
+  loggers.get('dht').info('dropped')
+  loggers.get('dht').warn('kept', { addr: '1.0.0.1', port: 6881 })
+  loggers.get('krpc').debug('kept too')
+  loggers.get('nat').error('silenced')
+
+  assertEquals(
+    records.map(({ level, subsystem, message, fields }) => ({ level, subsystem, message, fields })),
+    [
+      { level: 'warn', subsystem: 'dht', message: 'kept', fields: { addr: '1.0.0.1', port: 6881 } },
+      { level: 'debug', subsystem: 'krpc', message: 'kept too', fields: {} }
+    ]
+  )
+  assert(loggers.get('krpc').enabled('debug'))
+  assertFalse(loggers.get('nat').enabled('error'))
+})
+
+Deno.test('the fields are written as json or as key=value text', async () => {
+  const dir = await Deno.makeTempDir()
+  const json = new Loggers({ console: false, format: 'json', file: { dir, name: 'json' } })
+  const text = new Loggers({ console: false, file: { dir, name: 'text' } })
+  try {
+    const fields = { tid: new Uint8Array([0xab, 0xcd]), error: new Error('timeout'), nodes: 3, found: false }
+    json.get('lookup').warn('the lookup failed', fields)
+    text.get('lookup').warn('the lookup failed', fields)
+
+    const { time, ...record } = JSON.parse(Deno.readTextFileSync(join(dir, 'json.log')))
+    assertEquals(typeof time, 'string')
+    assertEquals(record, {
+      level: 'warn',
+      subsystem: 'lookup',
+      message: 'the lookup failed',
+      tid: 'abcd',
+      error: 'timeout',
+      nodes: 3,
+      found: false
+    })
+    const line = Deno.readTextFileSync(join(dir, 'text.log')).trimEnd()
+    assert(line.endsWith('WARN  [lookup] the lookup failed tid=abcd error=timeout nodes=3 found=false'), line)
+  } finally {
+    json.close()
+    text.close()
+    await Deno.remove(dir, { recursive: true })
+  }
+})
+
+Deno.test('the log file is rotated when it exceeds the size, the oldest one is deleted', async () => {
+  const dir = await Deno.makeTempDir()
+  const loggers = new Loggers({ console: false, file: { dir, name: 'dht', maxBytes: 100, maxFiles: 2 } })
+  try {
+    for (let i = 0; i < 10; i++) {
+      loggers.get('dht').info('a line of about sixty bytes', { i })
+    }
+
+    const names = [...Deno.readDirSync(dir)].map(({ name }) => name).sort()
+    assertEquals(names, ['dht.log', 'dht.log.1', 'dht.log.2'])
+    assert(Deno.readTextFileSync(join(dir, 'dht.log')).includes('i=9'))
+  } finally {
+    loggers.close()
+    await Deno.remove(dir, { recursive: true })
+  }
+})
+
+Deno.test('a dht logs to the handler of its own options', async () => {
+  const records: LogRecord[] = []
+  const cluster = await Cluster.start(1)
+  try {
+    const dht = await cluster.add({ log: { handler: (record) => records.push(record) } })
+    await dht.close({ save: false })
+
+    const closed = records.find(({ message }) => message === 'the dht is closed')
+    assertEquals(closed?.subsystem, 'dht')
+    assert(records.some(({ fields }) => fields.addr === cluster.addrOf(cluster.nodes[0])))
+  } finally {
+    await cluster.close()
+  }
+})
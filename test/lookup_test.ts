@@ -0,0 +1,23 @@
+import { assert, assertEquals } from 'std/assert/mod.ts'
+import { delay } from 'std/async/delay.ts'
+import Id from '~/src/id.ts'
+import { Cluster, PORT } from './helpers.ts'
+
+Deno.test('a node whose bootstrap failed starts the lookup from the bootstrap nodes', async () => {
+  const cluster = new Cluster()
+  try {
+    // the node starts before its bootstrap node 1.0.0.2, so the bootstrap on listen times out
+    const bootstrapNodes = [{ addr: '1.0.0.2', port: PORT }]
+    const dht = await cluster.add({ bootstrapNodes })
+    await delay(300)
+    const router = await cluster.add({ bootstrapNodes })
+    assertEquals(dht.routingTable().nodeCount, 0)
+
+    const { nodes } = await dht.findNode(Id.random())
+
+    assert(nodes.some(({ node }) => node.addr === cluster.addrOf(router)))
+    assertEquals(dht.routingTable().nodeCount, 1)
+  } finally {
+    await cluster.close()
+  }
+})
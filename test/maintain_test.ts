@@ -0,0 +1,81 @@
+import { assert, assertEquals } from 'std/assert/mod.ts'
+import { delay } from 'std/async/delay.ts'
+import DHT from '~/src/dht.ts'
+import Id from '~/src/id.ts'
+import Node, { NodeState } from '~/src/node.ts'
+import { Cluster } from './helpers.ts'
+
+/**
+ * the count of the queries of the type received by the node, read from its metrics
+ */
+function receivedQueries(dht: DHT, query: string) {
+  const prefix = `dht_messages_received_total{family="ipv4",type="q",query="${query}"} `
+  const line = dht
+    .metrics()
+    .split('\n')
+    .find((l) => l.startsWith(prefix))
+  return line ? Number(line.slice(prefix.length)) : 0
+}
+
+Deno.test('a node is questionable until it responds, and bad after the failures in a row', () => {
+  const node = new Node(Id.random(), 6881, '1.0.0.2')
+  assertEquals(node.state, NodeState.QUESTIONABLE)
+
+  // a query from a node which never responded doesn't make it good
+  node.queried()
+  assertEquals(node.state, NodeState.QUESTIONABLE)
+
+  node.responded()
+  assertEquals(node.state, NodeState.GOOD)
+  assertEquals(node.getState(0), NodeState.QUESTIONABLE)
+
+  for (let i = 0; i < Node.MAX_FAILURES; i++) {
+    node.failed()
+  }
+  assertEquals(node.state, NodeState.BAD)
+
+  node.responded()
+  assertEquals(node.state, NodeState.GOOD)
+  assertEquals(node.failures, 0)
+})
+
+Deno.test('the maintenance pings the questionable nodes and drops the ones which keep failing', async () => {
+  // the nodes are questionable right after they respond
+  const cluster = await Cluster.start(3, { timeouts: { nodeGood: 1 } })
+  try {
+    const [a, b, c] = cluster.nodes
+    const table = a.routingTable()
+    const idOf = (dht: DHT) => dht.routingTable().localNode.id
+    assert(table.findNode(idOf(b)) && table.findNode(idOf(c)))
+    await c.close({ save: false })
+    await delay(5)
+
+    for (let i = 0; i < Node.MAX_FAILURES; i++) {
+      await a.maintain()
+    }
+
+    assert(table.findNode(idOf(b)))
+    assertEquals(table.findNode(idOf(c)), undefined)
+    assert(receivedQueries(b, 'ping') >= Node.MAX_FAILURES)
+  } finally {
+    await cluster.close()
+  }
+})
+
+Deno.test('the maintenance refreshes the stale buckets with a find_node', async () => {
+  const cluster = await Cluster.start(2, { timeouts: { bucketRefresh: 10 } })
+  try {
+    const [a, b] = cluster.nodes
+    await delay(20)
+    assert(a.routingTable().getStaleBuckets(10).length > 0)
+    const before = receivedQueries(b, 'find_node')
+    const startedAt = Date.now()
+
+    await a.maintain()
+
+    assert(a.routingTable().buckets.every((bucket) => bucket.updatedAt >= startedAt))
+    assert(receivedQueries(b, 'find_node') > before)
+  } finally {
+    await cluster.close()
+  }
+})
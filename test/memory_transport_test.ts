@@ -0,0 +1,90 @@
+import { assertEquals, assertExists, assertThrows } from 'std/assert/mod.ts'
+import { Datagram } from '~/src/transport/transport.ts'
+import { MemoryNetwork } from '~/src/transport/memory_transport.ts'
+
+const encoder = new TextEncoder()
+
+async function read(datagrams: AsyncIterator<Datagram>) {
+  const { value } = await datagrams.next()
+  return value as Datagram
+}
+
+Deno.test('a datagram is delivered to the bound address in the order it is sent', async () => {
+  const network = new MemoryNetwork()
+  const a = network.bind('1.0.0.1', 6881)
+  const b = network.bind('1.0.0.2', 6881)
+  const datagrams = b.receive()[Symbol.asyncIterator]()
+
+  await a.send(encoder.encode('first'), '1.0.0.2', 6881)
+  await a.send(encoder.encode('second'), '1.0.0.2', 6881)
+
+  assertEquals(await read(datagrams), { data: encoder.encode('first'), addr: '1.0.0.1', port: 6881 })
+  assertEquals(await read(datagrams), { data: encoder.encode('second'), addr: '1.0.0.1', port: 6881 })
+
+  a.close()
+  b.close()
+})
+
+Deno.test('the data is copied, the sender changing it after sending does not change the datagram', async () => {
+  const network = new MemoryNetwork()
+  const a = network.bind('1.0.0.1', 6881)
+  const b = network.bind('1.0.0.2', 6881)
+  const datagrams = b.receive()[Symbol.asyncIterator]()
+
+  const data = encoder.encode('data')
+  await a.send(data, '1.0.0.2', 6881)
+  data.fill(0)
+
+  assertEquals((await read(datagrams)).data, encoder.encode('data'))
+
+  a.close()
+  b.close()
+})
+
+Deno.test('a datagram to an unbound address is dropped', async () => {
+  const network = new MemoryNetwork()
+  const a = network.bind('1.0.0.1', 6881)
+
+  await a.send(encoder.encode('lost'), '1.0.0.2', 6881)
+  const b = network.bind('1.0.0.2', 6881)
+  await a.send(encoder.encode('delivered'), '1.0.0.2', 6881)
+
+  assertEquals((await read(b.receive()[Symbol.asyncIterator]())).data, encoder.encode('delivered'))
+
+  a.close()
+  b.close()
+})
+
+Deno.test('binding a bound address throws, and port 0 allocates an ephemeral port', () => {
+  const network = new MemoryNetwork()
+  const a = network.bind('1.0.0.1', 6881)
+  assertThrows(() => network.bind('1.0.0.1', 6881), Error, 'already bound')
+
+  const b = network.bind('1.0.0.1')
+  const c = network.bind('::1')
+  assertEquals(b.port, MemoryNetwork.EPHEMERAL_PORT)
+  assertEquals(c.port, MemoryNetwork.EPHEMERAL_PORT + 1)
+  assertEquals(network.size, 3)
+
+  a.close()
+  b.close()
+  c.close()
+  assertEquals(network.size, 0)
+})
+
+Deno.test('closing the endpoint ends the receiving, unbinds the address and fails the sending', async () => {
+  const network = new MemoryNetwork()
+  const a = network.bind('1.0.0.1', 6881)
+  const datagrams = a.receive()[Symbol.asyncIterator]()
+
+  const next = datagrams.next()
+  a.close()
+
+  assertEquals((await next).done, true)
+  assertEquals(a.closed, true)
+  assertEquals(network.size, 0)
+  assertExists(await a.send(encoder.encode('data'), '1.0.0.2', 6881).catch((e) => e))
+
+  // the address can be bound again
+  network.bind('1.0.0.1', 6881).close()
+})
@@ -0,0 +1,98 @@
+import { assert, assertEquals } from 'std/assert/mod.ts'
+import { delay } from 'std/async/delay.ts'
+import { Bencoder } from 'bencode'
+import HttpApi from '~/src/http/http_api.ts'
+import Id from '~/src/id.ts'
+import { NodeState } from '~/src/node.ts'
+import { Cluster, PORT } from './helpers.ts'
+
+/**
+ * the value of the sample in the Prometheus text, undefined if it's not rendered
+ * @param sample the name with the labels, e.g. dht_peers or dht_decode_failures_total{family="ipv4"}
+ */
+function valueOf(text: string, sample: string) {
+  const line = text.split('\n').find((l) => l.startsWith(`${sample} `))
+  return line === undefined ? undefined : Number(line.slice(sample.length + 1))
+}
+
+Deno.test('the messages sent and received are counted by the type and the query', async () => {
+  const cluster = await Cluster.start(2)
+  try {
+    const [a, b] = cluster.nodes
+    const labels = (type: string) => `{family="ipv4",type="${type}",query="ping"}`
+    const before = {
+      sent: valueOf(a.metrics(), `dht_messages_sent_total${labels('q')}`) ?? 0,
+      received: valueOf(b.metrics(), `dht_messages_received_total${labels('q')}`) ?? 0,
+      responses: valueOf(a.metrics(), `dht_messages_received_total${labels('r')}`) ?? 0
+    }
+
+    await a.ping(cluster.addrOf(b), PORT)
+
+    assertEquals(valueOf(a.metrics(), `dht_messages_sent_total${labels('q')}`), before.sent + 1)
+    assertEquals(valueOf(b.metrics(), `dht_messages_received_total${labels('q')}`), before.received + 1)
+    // the response is counted by the query it answers
+    assertEquals(valueOf(a.metrics(), `dht_messages_received_total${labels('r')}`), before.responses + 1)
+  } finally {
+    await cluster.close()
+  }
+})
+
+Deno.test('the values of a remote packet are counted as other, the garbage as a decode failure', async () => {
+  const cluster = await Cluster.start(1)
+  try {
+    const [dht] = cluster.nodes
+    const client = cluster.client()
+    const addr = cluster.addrOf(dht)
+
+    await client.send(await new Bencoder().e({ t: 'aa', y: 'q', q: 'x"\n', a: { id: client.id.bits.bytes } }), addr)
+    await client.send(new TextEncoder().encode('garbage'), addr)
+    await delay(10)
+
+    const text = dht.metrics()
+    assertEquals(valueOf(text, 'dht_messages_received_total{family="ipv4",type="q",query="other"}'), 1)
+    assertEquals(valueOf(text, 'dht_decode_failures_total{family="ipv4"}'), 1)
+    // a remote value never becomes a label
+    assertEquals(text.includes('x"'), false)
+  } finally {
+    await cluster.close()
+  }
+})
+
+Deno.test('the gauges are read from the state of the dht when they are rendered', async () => {
+  const cluster = await Cluster.start(3)
+  try {
+    const [a, b] = cluster.nodes
+    await a.announce(Id.random().bits.bytes, { port: 6882 })
+
+    const text = b.metrics()
+
+    assertEquals(valueOf(text, 'dht_info_hashes'), 1)
+    assertEquals(valueOf(text, 'dht_peers'), 1)
+    const nodes = Object.values(NodeState).map((state) =>
+      valueOf(text, `dht_routing_table_nodes{family="ipv4",state="${state}"}`)!
+    )
+    const total = nodes.reduce((sum, count) => sum + count, 0)
+    assertEquals(total, b.routingTable().nodeCount)
+  } finally {
+    await cluster.close()
+  }
+})
+
+Deno.test('the metrics are served in the Prometheus text format', async () => {
+  const cluster = await Cluster.start(1)
+  try {
+    const api = new HttpApi(cluster.nodes[0])
+
+    const response = await api.handle(new Request('http://localhost/metrics'))
+
+    assertEquals(response.status, 200)
+    assertEquals(response.headers.get('content-type'), 'text/plain; version=0.0.4; charset=utf-8')
+    const lines = (await response.text()).split('\n')
+    const index = lines.indexOf('# TYPE dht_peers gauge')
+    assert(index > 0)
+    assertEquals(lines[index - 1], '# HELP dht_peers the peers announced to us')
+    assertEquals(lines[index + 1], 'dht_peers 0')
+  } finally {
+    await cluster.close()
+  }
+})
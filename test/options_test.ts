@@ -0,0 +1,100 @@
+import { assert, assertEquals, assertFalse, assertStrictEquals, assertThrows } from 'std/assert/mod.ts'
+import Id from '~/src/id.ts'
+import { DEFAULT_OPTIONS, DEFAULT_PORT_MAPPING, DHTOptions, resolveOptions } from '~/src/options.ts'
+
+Deno.test('the missing options are the defaults', () => {
+  const config = resolveOptions()
+
+  assertEquals(config.port, DEFAULT_OPTIONS.port)
+  assertEquals(config.families, DEFAULT_OPTIONS.families)
+  assertEquals(config.bootstrapNodes, DEFAULT_OPTIONS.bootstrapNodes)
+  assertEquals(config.timeouts, DEFAULT_OPTIONS.timeouts)
+  assertEquals(config.storage, DEFAULT_OPTIONS.storage)
+  assertEquals(config.rateLimits, DEFAULT_OPTIONS.rateLimits)
+  assertEquals(config.portMapping, undefined)
+})
+
+Deno.test('the nested options are merged field by field', () => {
+  const config = resolveOptions({
+    timeouts: { query: 500 },
+    storage: { peers: { maxPeers: 10 } },
+    rateLimits: { inbound: { perIp: { rate: 1 } } }
+  })
+
+  assertEquals(config.timeouts, { ...DEFAULT_OPTIONS.timeouts, query: 500 })
+  assertEquals(config.storage.peers, { ...DEFAULT_OPTIONS.storage.peers, maxPeers: 10 })
+  assertEquals(config.storage.items, DEFAULT_OPTIONS.storage.items)
+  assertEquals(config.rateLimits.inbound, {
+    perIp: { ...DEFAULT_OPTIONS.rateLimits.inbound.perIp, rate: 1 },
+    total: DEFAULT_OPTIONS.rateLimits.inbound.total
+  })
+  assertEquals(config.rateLimits.outbound, DEFAULT_OPTIONS.rateLimits.outbound)
+})
+
+Deno.test('an undefined option keeps the default', () => {
+  const config = resolveOptions({ port: undefined, timeouts: { query: undefined } })
+
+  assertEquals(config.port, DEFAULT_OPTIONS.port)
+  assertEquals(config.timeouts.query, DEFAULT_OPTIONS.timeouts.query)
+})
+
+Deno.test('the port mapping is merged with its defaults', () => {
+  assertEquals(resolveOptions({ portMapping: true }).portMapping, DEFAULT_PORT_MAPPING)
+  assertEquals(resolveOptions({ portMapping: { methods: ['upnp'] } }).portMapping, {
+    ...DEFAULT_PORT_MAPPING,
+    methods: ['upnp']
+  })
+  assertEquals(resolveOptions({ portMapping: false }).portMapping, undefined)
+})
+
+Deno.test('the invalid options are refused', () => {
+  const invalid: unknown[] = [
+    { port: 65536 },
+    { families: 'ipv4' },
+    { families: [] },
+    { families: ['ipv5'] },
+    { bind: { ipv4: '::' } },
+    { addrs: { ipv4: 'localhost' } },
+    { ids: { ipv4: new Uint8Array(20) } },
+    { bootstrapNodes: [] },
+    { bootstrapNodes: [{ addr: 'router.bittorrent.com', port: -1 }] },
+    { transport: {} },
+    { security: 'strict' },
+    { k: 0 },
+    { alpha: 1.5 },
+    { timeouts: { query: -1 } },
+    { timeouts: { maintain: Infinity } },
+    { storage: { peers: { maxPeers: 0 } } },
+    { rateLimits: { outbound: { total: { burst: 0.5 } } } },
+    { portMapping: { methods: ['pmp'] } },
+    { state: { path: '' } },
+    { log: { level: 'loud' } },
+    { log: { levels: { dns: 'info' } } },
+    { log: { console: 'yes' } },
+    { log: { file: null } },
+    { log: { file: 'logs' } },
+    { log: { levels: null } }
+  ]
+
+  for (const options of invalid) {
+    assertThrows(() => resolveOptions(options as DHTOptions), Error, 'invalid options', JSON.stringify(options))
+  }
+})
+
+Deno.test('the config is frozen, the options of the caller are not', () => {
+  const timeouts = { query: 500 }
+  const bootstrapNodes = [{ addr: '1.0.0.1', port: 6881 }]
+  const options: DHTOptions = { timeouts, bootstrapNodes, ids: { ipv4: Id.random() } }
+
+  const config = resolveOptions(options)
+
+  assert(Object.isFrozen(config))
+  assert(Object.isFrozen(config.timeouts))
+  assert(Object.isFrozen(config.bootstrapNodes[0]))
+  assertFalse(Object.isFrozen(options))
+  assertFalse(Object.isFrozen(timeouts))
+  assertFalse(Object.isFrozen(bootstrapNodes[0]))
+  // the id is kept as it is
+  assertStrictEquals(config.ids.ipv4, options.ids!.ipv4)
+  assertFalse(Object.isFrozen(config.ids.ipv4))
+})
@@ -0,0 +1,205 @@
+import { assertEquals } from 'std/assert/mod.ts'
+import { delay } from 'std/async/delay.ts'
+import DHTEvents from '~/src/dht_events.ts'
+import { Mapping } from '~/src/port_mapping/port_mapper.ts'
+import PortMappingManager, { PortMappingOptions } from '~/src/port_mapping/port_mapping_manager.ts'
+import { configureLogger } from '~/src/util/log.ts'
+
+configureLogger({ console: false })
+
+const PORT = 6881
+const EXTERNAL_PORT = 40000
+const EXTERNAL_IP = [203, 0, 113, 1]
+
+/**
+ * a gateway on localhost, it answers each udp request with the answer function
+ */
+function fakeGateway(answer: (request: Uint8Array) => Uint8Array | undefined | Promise<Uint8Array | undefined>) {
+  const conn = Deno.listenDatagram({ hostname: '127.0.0.1', port: 0, transport: 'udp' })
+  const requests: Uint8Array[] = []
+  const serving = (async () => {
+    try {
+      while (true) {
+        const [request, addr] = await conn.receive()
+        requests.push(request)
+        const response = await answer(request)
+        if (response) {
+          await conn.send(response, addr)
+        }
+      }
+    } catch {
+      // closed
+    }
+  })()
+
+  return {
+    port: (conn.addr as Deno.NetAddr).port,
+    requests,
+    async close() {
+      conn.close()
+      await serving
+    }
+  }
+}
+
+/**
+ * the PCP answer to a MAP request, see RFC 6887
+ */
+function pcpAnswer(request: Uint8Array) {
+  const response = new Uint8Array(60)
+  const view = new DataView(response.buffer)
+  response.set(request.slice(0, 60))
+  response[1] = 0x81
+  response[3] = 0 // success
+  view.setUint16(42, view.getUint32(4) === 0 ? 0 : EXTERNAL_PORT)
+  response.set([0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0xff, 0xff, ...EXTERNAL_IP], 44)
+  return response
+}
+
+/**
+ * the NAT-PMP answers, a PCP request is answered with the unsupported version, see RFC 6886
+ */
+function natPmpAnswer(request: Uint8Array) {
+  if (request[0] !== 0) {
+    return new Uint8Array([0, request[1] | 0x80, 0, 1]) // unsupported version
+  }
+  if (request[1] === 0) {
+    return new Uint8Array([0, 0x80, 0, 0, 0, 0, 0, 1, ...EXTERNAL_IP])
+  }
+
+  const requestView = new DataView(request.buffer, request.byteOffset)
+  const response = new Uint8Array(16)
+  const view = new DataView(response.buffer)
+  response[1] = 0x81
+  view.setUint16(8, requestView.getUint16(4))
+  view.setUint16(10, requestView.getUint32(8) === 0 ? 0 : EXTERNAL_PORT)
+  view.setUint32(12, requestView.getUint32(8))
+  return response
+}
+
+function managerOf(options: PortMappingOptions) {
+  const events = new DHTEvents()
+  const mapped: Mapping[] = []
+  events.addEventListener('port-mapped', (event) => mapped.push(event.detail))
+  return { manager: new PortMappingManager(PORT, { timeout: 200, ...options }, events), mapped }
+}
+
+Deno.test('the port is mapped with PCP, and deleted on stop', async () => {
+  const gateway = fakeGateway(pcpAnswer)
+  try {
+    const { manager, mapped } = managerOf({ methods: ['pcp'], gateway: '127.0.0.1', gatewayPort: gateway.port })
+
+    const mapping = await manager.start()
+
+    assertEquals(mapping, {
+      method: 'pcp',
+      internalPort: PORT,
+      externalPort: EXTERNAL_PORT,
+      externalIp: '203.0.113.1',
+      lifetime: 2 * 60 * 60
+    })
+    assertEquals(mapped, [mapping!])
+    assertEquals(gateway.requests[0][1], 1) // the MAP opcode
+    assertEquals(new DataView(gateway.requests[0].buffer).getUint16(40), PORT)
+
+    await manager.stop()
+    assertEquals(manager.mapping, undefined)
+    // the mapping is deleted with the lifetime 0
+    assertEquals(gateway.requests.length, 2)
+    assertEquals(new DataView(gateway.requests[1].buffer).getUint32(4), 0)
+  } finally {
+    await gateway.close()
+  }
+})
+
+Deno.test('PCP falls back to NAT-PMP when the gateway only speaks NAT-PMP', async () => {
+  const gateway = fakeGateway(natPmpAnswer)
+  try {
+    const { manager } = managerOf({ methods: ['pcp'], gateway: '127.0.0.1', gatewayPort: gateway.port })
+
+    const mapping = await manager.start()
+
+    assertEquals(mapping, {
+      method: 'nat-pmp',
+      internalPort: PORT,
+      externalPort: EXTERNAL_PORT,
+      externalIp: '203.0.113.1',
+      lifetime: 2 * 60 * 60
+    })
+
+    await manager.stop()
+    const last = gateway.requests.at(-1)!
+    assertEquals([last[0], last[1]], [0, 1]) // a NAT-PMP map request
+    assertEquals(new DataView(last.buffer).getUint32(8), 0)
+  } finally {
+    await gateway.close()
+  }
+})
+
+Deno.test('the mapping given after the stop is deleted before the start returns', async () => {
+  const gateway = fakeGateway(async (request) => {
+    await delay(50)
+    return pcpAnswer(request)
+  })
+  try {
+    const { manager, mapped } = managerOf({ methods: ['pcp'], gateway: '127.0.0.1', gatewayPort: gateway.port })
+
+    const starting = manager.start()
+    await manager.stop()
+    await starting
+
+    assertEquals(mapped, [])
+    assertEquals(manager.mapping, undefined)
+    assertEquals(new DataView(gateway.requests.at(-1)!.buffer).getUint32(4), 0)
+  } finally {
+    await gateway.close()
+  }
+})
+
+Deno.test('the port is mapped with UPnP, a permanent lease is used if the device needs it', async () => {
+  const actions: string[] = []
+  const server = Deno.serve({ hostname: '127.0.0.1', port: 0, onListen: () => {} }, async (request) => {
+    const url = new URL(request.url)
+    if (url.pathname === '/description.xml') {
+      return new Response(
+        '<root><device><serviceList><service>' +
+          '<serviceType>urn:schemas-upnp-org:service:WANIPConnection:1</serviceType>' +
+          '<controlURL>/control</controlURL>' +
+          '</service></serviceList></device></root>'
+      )
+    }
+
+    const action = request.headers.get('SOAPAction')!.replace(/^".*#(\w+)"$/, '$1')
+    const body = await request.text()
+    actions.push(action)
+    if (action === 'AddPortMapping' && !body.includes('<NewLeaseDuration>0</NewLeaseDuration>')) {
+      return new Response('<s:Envelope><errorCode>725</errorCode></s:Envelope>', { status: 500 })
+    }
+    if (action === 'GetExternalIPAddress') {
+      return new Response('<s:Envelope><NewExternalIPAddress>203.0.113.1</NewExternalIPAddress></s:Envelope>')
+    }
+    return new Response('<s:Envelope></s:Envelope>')
+  })
+  const location = `http://127.0.0.1:${server.addr.port}/description.xml`
+  const ssdp = fakeGateway(() => new TextEncoder().encode(`HTTP/1.1 200 OK\r\nLOCATION: ${location}\r\n\r\n`))
+  try {
+    const { manager } = managerOf({ methods: ['upnp'], ssdp: { addr: '127.0.0.1', port: ssdp.port } })
+
+    const mapping = await manager.start()
+
+    assertEquals(mapping, {
+      method: 'upnp',
+      internalPort: PORT,
+      externalPort: PORT,
+      externalIp: '203.0.113.1',
+      lifetime: 0
+    })
+    assertEquals(new TextDecoder().decode(ssdp.requests[0]).split('\r\n')[0], 'M-SEARCH * HTTP/1.1')
+
+    await manager.stop()
+    assertEquals(actions, ['AddPortMapping', 'AddPortMapping', 'GetExternalIPAddress', 'DeletePortMapping'])
+  } finally {
+    await ssdp.close()
+    await server.shutdown()
+  }
+})
@@ -0,0 +1,77 @@
+import { assert, assertEquals, assertFalse } from 'std/assert/mod.ts'
+import { delay } from 'std/async/delay.ts'
+import MessageFactory from '~/src/message_factory.ts'
+import RateLimiter, { TokenBucket } from '~/src/rate_limiter.ts'
+import { Cluster } from './helpers.ts'
+
+Deno.test('the token bucket allows a burst and refills at the rate', () => {
+  const bucket = new TokenBucket({ rate: 2, burst: 2 })
+  const now = Date.now()
+
+  assert(bucket.take(now))
+  assert(bucket.take(now))
+  assertFalse(bucket.take(now))
+
+  // a token is added every 500 milliseconds
+  assertFalse(bucket.has(now + 400))
+  assert(bucket.take(now + 500))
+  assertFalse(bucket.isFull(now + 500))
+  assert(bucket.isFull(now + 10_000))
+})
+
+Deno.test('a time before the creation of the bucket takes none of its tokens', () => {
+  const now = Date.now()
+  const bucket = new TokenBucket({ rate: 1, burst: 1 })
+
+  // the caller took the time before the bucket was created, the clock may have ticked in between
+  assert(bucket.take(now - 1))
+  assertFalse(bucket.has(now))
+})
+
+Deno.test('the ip sending too much exceeds its own limit', () => {
+  const limiter = new RateLimiter({ perIp: { rate: 0.001, burst: 2 }, total: { rate: 0.001, burst: 100 } })
+
+  assertEquals(limiter.exceeded('1.0.0.1'), undefined)
+  assertEquals(limiter.exceeded('1.0.0.1'), undefined)
+  assertEquals(limiter.exceeded('1.0.0.1'), 'ip')
+
+  // the other ips are not limited by it
+  assert(limiter.allow('1.0.0.2'))
+})
+
+Deno.test('all ips together exceed the total limit', () => {
+  const limiter = new RateLimiter({ perIp: { rate: 0.001, burst: 2 }, total: { rate: 0.001, burst: 2 } })
+
+  assertEquals(limiter.exceeded('1.0.0.1'), undefined)
+  assertEquals(limiter.exceeded('1.0.0.2'), undefined)
+  assertEquals(limiter.exceeded('1.0.0.3'), 'total')
+})
+
+Deno.test('the token of the ip is not taken when the total limit is exceeded', async () => {
+  const limiter = new RateLimiter({ perIp: { rate: 0.001, burst: 1 }, total: { rate: 20, burst: 1 } })
+
+  assertEquals(limiter.exceeded('1.0.0.1'), undefined)
+  assertEquals(limiter.exceeded('1.0.0.2'), 'total')
+
+  // the total bucket is refilled, 1.0.0.2 still has its only token
+  await delay(60)
+  assertEquals(limiter.exceeded('1.0.0.2'), undefined)
+})
+
+Deno.test('the queries over the inbound limit of the ip are dropped', async () => {
+  const cluster = await Cluster.start(1, {
+    rateLimits: { inbound: { perIp: { rate: 0.001, burst: 2 } } }
+  })
+  try {
+    const addr = cluster.addrOf(cluster.nodes[0])
+    const [client, other] = [cluster.client(), cluster.client()]
+
+    assert(await client.query(MessageFactory.requestPing(client.id), addr))
+    assert(await client.query(MessageFactory.requestPing(client.id), addr))
+    assertEquals(await client.query(MessageFactory.requestPing(client.id), addr), undefined)
+
+    assert(await other.query(MessageFactory.requestPing(other.id), addr))
+  } finally {
+    await cluster.close()
+  }
+})
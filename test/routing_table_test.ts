@@ -0,0 +1,128 @@
+import { assert, assertEquals, assertFalse } from 'std/assert/mod.ts'
+import { delay } from 'std/async/delay.ts'
+import { BitArray } from 'toolkit'
+import Id from '~/src/id.ts'
+import LocalNode from '~/src/local_node.ts'
+import Node from '~/src/node.ts'
+import RoutingTable from '~/src/routing_table.ts'
+import { configureLogger } from '~/src/util/log.ts'
+
+configureLogger({ console: false })
+
+/**
+ * an id with the first bits given, the others are zero
+ */
+function idOf(prefix: string) {
+  return Id.fromUnit8Array(BitArray.fromBinaryString(prefix.padEnd(Id.BIT_LENGTH, '0')).bytes)
+}
+
+function tableOf(localId = idOf('0'), capacity = 2) {
+  return new RoutingTable(new LocalNode(localId, 6881, '1.0.0.1'), 'ipv4', 'off', undefined, undefined, { capacity })
+}
+
+Deno.test('a referral with a known id and a new address does not move the node', () => {
+  const table = tableOf()
+  const id = Id.random()
+  table.markResponded(new Node(id, 6881, '1.0.0.2'))
+
+  assert(table.addReferral(new Node(id, 6882, '1.0.0.3')))
+
+  const node = table.findNode(id)!
+  assertEquals([node.addr, node.port], ['1.0.0.2', 6881])
+})
+
+Deno.test('a response from the new address moves the node', () => {
+  const table = tableOf()
+  const id = Id.random()
+  table.markResponded(new Node(id, 6881, '1.0.0.2'))
+
+  table.markResponded(new Node(id, 6882, '1.0.0.3'))
+
+  const node = table.findNode(id)!
+  assertEquals([node.addr, node.port], ['1.0.0.3', 6882])
+  assertEquals(table.nodeCount, 1)
+})
+
+Deno.test('a query with a known id keeps the address of the node', () => {
+  const table = tableOf()
+  const id = Id.random()
+  table.markResponded(new Node(id, 6881, '1.0.0.2'))
+
+  table.markQueried(new Node(id, 6882, '1.0.0.3'))
+
+  assertEquals(table.findNode(id)!.addr, '1.0.0.2')
+})
+
+Deno.test('a referral to a full bucket only waits in the replacement cache', () => {
+  // the local node is in the lower half, so the upper half is not split when it's full
+  const table = tableOf(idOf('0'), 2)
+  const pinged: Node[] = []
+  table.setPinger((node) => {
+    pinged.push(node)
+    return Promise.resolve()
+  })
+  table.add(new Node(idOf('11'), 6881, '1.0.0.2'))
+  table.add(new Node(idOf('101'), 6881, '1.0.0.3'))
+
+  const referral = new Node(idOf('1001'), 6881, '1.0.0.4')
+  assertFalse(table.addReferral(referral))
+
+  assertEquals(pinged, [])
+  assertEquals(table.findNode(referral.id), undefined)
+  const bucket = table.buckets.find((b) => b.withinRnage(referral.id))!
+  assert(bucket.replacements.some((n) => n.id.equals(referral.id)))
+
+  // a verified node pings the oldest questionable node of the full bucket
+  table.add(new Node(idOf('10001'), 6881, '1.0.0.5'))
+  assertEquals(pinged.length, 1)
+})
+
+Deno.test('the table starts with one bucket, and splits the full bucket which covers the local id', () => {
+  const table = tableOf(idOf('0'), 2)
+  assertEquals(table.buckets.length, 1)
+
+  table.add(new Node(idOf('11'), 6881, '1.0.0.2'))
+  table.add(new Node(idOf('101'), 6881, '1.0.0.3'))
+  assertEquals(table.buckets.length, 1)
+
+  assert(table.add(new Node(idOf('01'), 6881, '1.0.0.4')))
+
+  // the halves of the id space, the upper one keeps the two nodes
+  assertEquals(table.buckets.length, 2)
+  assertEquals(table.nodeCount, 3)
+  const upper = table.buckets.find((b) => b.withinRnage(idOf('1')))!
+  assertEquals(upper.size, 2)
+  assertFalse(upper.withinRnage(table.localNode.id))
+})
+
+Deno.test('the oldest node which does not answer the ping is replaced by the candidate', async () => {
+  const table = tableOf(idOf('0'), 2)
+  table.setPinger(() => Promise.reject(new Error('timeout')))
+  const oldest = new Node(idOf('11'), 6881, '1.0.0.2')
+  table.add(oldest)
+  table.add(new Node(idOf('101'), 6881, '1.0.0.3'))
+
+  const candidate = new Node(idOf('1001'), 6881, '1.0.0.4')
+  assertFalse(table.add(candidate))
+  await delay(0)
+
+  assertEquals(table.findNode(oldest.id), undefined)
+  assert(table.findNode(candidate.id))
+})
+
+Deno.test('the oldest node which answers the ping is kept', async () => {
+  const table = tableOf(idOf('0'), 2)
+  table.setPinger(() => Promise.resolve())
+  const oldest = new Node(idOf('11'), 6881, '1.0.0.2')
+  table.add(oldest)
+  table.add(new Node(idOf('101'), 6881, '1.0.0.3'))
+
+  const candidate = new Node(idOf('1001'), 6881, '1.0.0.4')
+  assertFalse(table.add(candidate))
+  await delay(0)
+
+  assert(table.findNode(oldest.id))
+  assertEquals(table.findNode(candidate.id), undefined)
+  const bucket = table.buckets.find((b) => b.withinRnage(candidate.id))!
+  assert(bucket.replacements.some((n) => n.id.equals(candidate.id)))
+})
@@ -0,0 +1,71 @@
+import { assert, assertEquals } from 'std/assert/mod.ts'
+import { encodeHex } from 'std/encoding/hex.ts'
+import Id from '~/src/id.ts'
+import MessageFactory from '~/src/message_factory.ts'
+import RequestHandler from '~/src/krpc/handler/request_handler.ts'
+import { Cluster } from './helpers.ts'
+
+Deno.test('sample_infohashes returns the interval, the count and a sample of the info hashes', async () => {
+  // more announces than the per ip limits let through
+  const perIp = { burst: 1000 }
+  const cluster = await Cluster.start(3, { rateLimits: { inbound: { perIp }, outbound: { perIp } } })
+  try {
+    const [a, b] = cluster.nodes
+    const infoHashes = Array.from({ length: RequestHandler.MAX_SAMPLES + 5 }, () => Id.random().bits.bytes)
+    for (const infoHash of infoHashes) {
+      await a.announce(infoHash, { port: 6882 })
+    }
+    const client = cluster.client()
+
+    const response = await client.query(
+      MessageFactory.requestSampleInfoHashes(client.id, Id.random()),
+      cluster.addrOf(b)
+    )
+
+    const { interval, num, samples, nodes } = response!.r!
+    assertEquals(interval, RequestHandler.SAMPLE_INTERVAL)
+    assertEquals(num, infoHashes.length)
+    // the sample is capped to fit in a packet
+    assertEquals(samples!.length, RequestHandler.MAX_SAMPLES * 20)
+    assert(nodes && nodes.length > 0)
+  } finally {
+    await cluster.close()
+  }
+})
+
+Deno.test('the walk collects the info hashes, and skips the nodes until their interval elapses', async () => {
+  const cluster = await Cluster.start(4)
+  try {
+    const [a, b] = cluster.nodes
+    const infoHashes = Array.from({ length: 3 }, () => Id.random().bits.bytes)
+    for (const infoHash of infoHashes) {
+      await b.announce(infoHash, { port: 6882 })
+    }
+
+    const first = await a.sampleInfoHashes()
+
+    assertEquals(first.infoHashes.sort(), infoHashes.map((infoHash) => encodeHex(infoHash)).sort())
+    assert(first.queried >= 3, `${first.queried} nodes queried`)
+    assertEquals(first.skipped, 0)
+
+    // the nodes asked for 6 hours before the next query, so the seeds are skipped and the walk stops there
+    const second = await a.sampleInfoHashes()
+
+    assertEquals(second.infoHashes, [])
+    assertEquals(second.queried, 0)
+    assertEquals(second.skipped, a.routingTable().nodeCount)
+  } finally {
+    await cluster.close()
+  }
+})
+
+Deno.test('the walk queries no more than the max nodes', async () => {
+  const cluster = await Cluster.start(5)
+  try {
+    const result = await cluster.nodes[0].sampleInfoHashes(2)
+
+    assertEquals(result.queried, 2)
+  } finally {
+    await cluster.close()
+  }
+})
@@ -0,0 +1,68 @@
+import { assert, assertEquals } from 'std/assert/mod.ts'
+import { encodeHex } from 'std/encoding/hex.ts'
+import Simulation from '~/src/simulator/simulation.ts'
+import { configureLogger } from '~/src/util/log.ts'
+
+// the simulated nodes log every message
+configureLogger({ console: false })
+
+// a small network with short delays, so the tests run in seconds
+const OPTIONS = { nodes: 40, lookups: 10, latency: [1, 5] as [number, number], timeout: 500 }
+
+Deno.test('bootstrap fills the routing table of every node', async () => {
+  const simulation = new Simulation(OPTIONS)
+  try {
+    await simulation.form()
+
+    for (const { dht } of simulation.liveNodes) {
+      assert(dht.routingTable('ipv4').nodeCount >= dht.options.k, `${dht.routingTable('ipv4').nodeCount} nodes`)
+    }
+  } finally {
+    await simulation.close()
+  }
+})
+
+Deno.test('lookups converge to the closest nodes', async () => {
+  const simulation = new Simulation(OPTIONS)
+  try {
+    const report = await simulation.run()
+
+    assertEquals(report.lookups.length, OPTIONS.lookups)
+    assertEquals(report.closest, 1)
+    assert(report.recall >= 0.9, `the mean recall is ${report.recall}`)
+  } finally {
+    await simulation.close()
+  }
+})
+
+Deno.test('lookups converge with lost datagrams and unresponsive nodes', async () => {
+  const simulation = new Simulation({ ...OPTIONS, seed: 2, loss: 0.05, unresponsive: 0.1 })
+  try {
+    const report = await simulation.run()
+
+    assert(report.closest >= 0.7, `the closest node is found by ${report.closest} of the lookups`)
+    assert(report.dropped > 0)
+  } finally {
+    await simulation.close()
+  }
+})
+
+Deno.test('a peer announced by a node is found by the others', async () => {
+  const simulation = new Simulation(OPTIONS)
+  try {
+    await simulation.form()
+    const [, announcer, , seeker] = simulation.liveNodes
+    const infoHash = crypto.getRandomValues(new Uint8Array(20))
+
+    const nodes = await announcer.dht.announce(infoHash, { port: 51413 })
+    assert(nodes > 0, 'no node accepted the announce')
+
+    const { peers } = await seeker.dht.getPeers(infoHash)
+    assert(
+      peers.some((peer) => peer.addr === announcer.addr && peer.port === 51413),
+      `the peers of ${encodeHex(infoHash)} are ${peers.map((peer) => `${peer.addr}:${peer.port}`)}`
+    )
+  } finally {
+    await simulation.close()
+  }
+})
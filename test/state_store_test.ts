@@ -0,0 +1,107 @@
+import { assert, assertEquals } from 'std/assert/mod.ts'
+import { delay } from 'std/async/delay.ts'
+import { decodeHex } from 'std/encoding/hex.ts'
+import { join } from 'std/path/join.ts'
+import DHT from '~/src/dht.ts'
+import InfoHashManager from '~/src/info_hash_manager.ts'
+import { KRPCContext } from '~/src/krpc/context.ts'
+import { DHTOptions } from '~/src/options.ts'
+import Peer from '~/src/peer.ts'
+import StateStore from '~/src/state_store.ts'
+import { configureLogger } from '~/src/util/log.ts'
+import { Cluster, PORT } from './helpers.ts'
+
+configureLogger({ console: false })
+
+const INFO_HASH = 'e5f96f6f38320f0f33959cb4d3d656452117aadb'
+
+function addrsOf(peers?: Peer[]) {
+  return peers?.map(({ addr, port }) => `${addr}:${port}`)
+}
+
+Deno.test('the restored peers keep their expiry', async () => {
+  const dir = await Deno.makeTempDir()
+  try {
+    const store = new StateStore({ path: join(dir, 'state.json'), peers: true })
+    const infoHashes = new InfoHashManager({ peerTTL: 60 * 1000 })
+    infoHashes.add(INFO_HASH, new Peer(6881, '1.0.0.1'), Date.now() + 50)
+    infoHashes.add(INFO_HASH, new Peer(6881, '1.0.0.2'))
+    await store.save({ routingTables: new Map(), infoHashes } as unknown as KRPCContext)
+
+    const restored = new InfoHashManager({ peerTTL: 60 * 1000 })
+    StateStore.restorePeers((await store.load())!, restored)
+    assertEquals(addrsOf(restored.find(INFO_HASH)), ['1.0.0.1:6881', '1.0.0.2:6881'])
+
+    await delay(60)
+    assertEquals(addrsOf(restored.find(INFO_HASH)), ['1.0.0.2:6881'])
+  } finally {
+    await Deno.remove(dir, { recursive: true })
+  }
+})
+
+Deno.test('the expired peers are not restored, the peers saved without the expiry get a new ttl', () => {
+  const now = Date.now()
+  const restored = new InfoHashManager()
+
+  StateStore.restorePeers(
+    {
+      version: StateStore.VERSION,
+      tables: [],
+      peers: [
+        {
+          infoHash: INFO_HASH,
+          peers: [
+            { addr: '1.0.0.1', port: 6881 },
+            { addr: '1.0.0.2', port: 6881, expiredAt: now - 1000 },
+            { addr: '1.0.0.3', port: 6881, expiredAt: now + 1000 }
+          ]
+        }
+      ]
+    },
+    restored
+  )
+
+  // in the order they expire
+  assertEquals(addrsOf(restored.find(INFO_HASH)), ['1.0.0.3:6881', '1.0.0.1:6881'])
+})
+
+Deno.test('a restarted dht gets back its id, its nodes and its peers from the saved state', async () => {
+  const dir = await Deno.makeTempDir()
+  const cluster = await Cluster.start(3)
+  try {
+    const addr = '1.0.0.9'
+    const options: DHTOptions = {
+      port: PORT,
+      addrs: { ipv4: addr },
+      // only the saved nodes can fill the routing table of the restarted dht
+      bootstrapNodes: [{ addr: '1.0.0.99', port: PORT }],
+      transport: (_, port) => cluster.network.bind(addr, port),
+      state: { path: join(dir, 'state.json'), peers: true },
+      timeouts: { query: 200 }
+    }
+    const dht = await DHT.listen(options)
+    await dht.ping(cluster.addrOf(cluster.nodes[0]), PORT)
+    await dht.findNode(dht.routingTable().localNode.id)
+    const infoHash = decodeHex(INFO_HASH)
+    await cluster.nodes[1].announce(infoHash, { port: 6882 })
+    assertEquals(addrsOf(dht.storedPeers(infoHash)), ['1.0.0.2:6882'])
+    const id = dht.routingTable().localNode.id
+    await dht.close()
+
+    const restarted = await DHT.listen(options)
+    try {
+      const nodes = await new Promise<number>((resolve) =>
+        restarted.addEventListener('ready', (event) => resolve(event.detail.nodes), { once: true })
+      )
+
+      assert(restarted.routingTable().localNode.id.equals(id))
+      assertEquals(nodes, cluster.nodes.length)
+      assertEquals(addrsOf(restarted.storedPeers(infoHash)), ['1.0.0.2:6882'])
+    } finally {
+      await restarted.close({ save: false })
+    }
+  } finally {
+    await cluster.close()
+    await Deno.remove(dir, { recursive: true })
+  }
+})
@@ -0,0 +1,103 @@
+import { assert, assertEquals, assertExists, assertFalse } from 'std/assert/mod.ts'
+import { delay } from 'std/async/delay.ts'
+import MessageFactory, { ErrorType, MessageType } from '~/src/message_factory.ts'
+import TokenManager from '~/src/token_manager.ts'
+import { Cluster } from './helpers.ts'
+
+Deno.test('a token is only valid for the ip it is generated for', () => {
+  const tokens = new TokenManager()
+  const token = tokens.generate('1.2.3.4')
+
+  assertEquals(token.length, TokenManager.TOKEN_LENGTH)
+  assert(tokens.isValid('1.2.3.4', token))
+  assertFalse(tokens.isValid('1.2.3.5', token))
+  assertFalse(new TokenManager().isValid('1.2.3.4', token), 'the token of another secret is valid')
+})
+
+Deno.test('a missing token or a token of a wrong length is invalid', () => {
+  const tokens = new TokenManager()
+  const token = tokens.generate('1.2.3.4')
+
+  assertFalse(tokens.isValid('1.2.3.4'))
+  assertFalse(tokens.isValid('1.2.3.4', token.slice(1)))
+  assertFalse(tokens.isValid('1.2.3.4', new Uint8Array(TokenManager.TOKEN_LENGTH)))
+})
+
+Deno.test('a token is valid until the secret rotates twice', async () => {
+  const interval = TokenManager.ROTATE_INTERVAL
+  TokenManager.ROTATE_INTERVAL = 50
+  try {
+    const tokens = new TokenManager()
+    const token = tokens.generate('1.2.3.4')
+
+    // the secret rotates once, the token of the previous secret is still accepted
+    await delay(60)
+    assert(tokens.isValid('1.2.3.4', token))
+
+    await delay(60)
+    assertFalse(tokens.isValid('1.2.3.4', token))
+  } finally {
+    TokenManager.ROTATE_INTERVAL = interval
+  }
+})
+
+Deno.test('the secrets older than 2 intervals are dropped at once', async () => {
+  const interval = TokenManager.ROTATE_INTERVAL
+  TokenManager.ROTATE_INTERVAL = 50
+  try {
+    const tokens = new TokenManager()
+    const token = tokens.generate('1.2.3.4')
+
+    await delay(120)
+    assertFalse(tokens.isValid('1.2.3.4', token))
+  } finally {
+    TokenManager.ROTATE_INTERVAL = interval
+  }
+})
+
+Deno.test('announce_peer is accepted with the token of get_peers and refused with a bad one', async () => {
+  const cluster = await Cluster.start(1)
+  try {
+    const [dht] = cluster.nodes
+    const addr = cluster.addrOf(dht)
+    const client = cluster.client()
+    const infoHash = crypto.getRandomValues(new Uint8Array(20))
+
+    const peers = await client.query(MessageFactory.requestGetPeers(client.id, infoHash), addr)
+    const token = peers?.r?.token
+    assertExists(token)
+
+    const refused = await client.query(
+      MessageFactory.requestAnnouncePeer(client.id, infoHash, new Uint8Array(TokenManager.TOKEN_LENGTH), 51413),
+      addr
+    )
+    assertEquals(refused?.y, MessageType.ERROR)
+    assertEquals(refused?.e?.[0], ErrorType.PROTOCOL)
+
+    const accepted = await client.query(MessageFactory.requestAnnouncePeer(client.id, infoHash, token, 51413), addr)
+    assertEquals(accepted?.y, MessageType.RESPONSE)
+    assertEquals(
+      dht.storedPeers(infoHash).map(({ addr, port }) => `${addr}:${port}`),
+      [`${client.addr}:51413`]
+    )
+  } finally {
+    await cluster.close()
+  }
+})
+
+Deno.test('the token of another ip is refused', async () => {
+  const cluster = await Cluster.start(1)
+  try {
+    const addr = cluster.addrOf(cluster.nodes[0])
+    const [client, other] = [cluster.client(), cluster.client()]
+    const infoHash = crypto.getRandomValues(new Uint8Array(20))
+
+    const peers = await client.query(MessageFactory.requestGetPeers(client.id, infoHash), addr)
+    const token = peers!.r!.token!
+
+    const refused = await other.query(MessageFactory.requestAnnouncePeer(other.id, infoHash, token, 51413), addr)
+    assertEquals(refused?.e?.[0], ErrorType.PROTOCOL)
+  } finally {
+    await cluster.close()
+  }
+})
@@ -0,0 +1,56 @@
+import { assertEquals, assertThrows } from 'std/assert/mod.ts'
+import { Datagram } from '~/src/transport/transport.ts'
+import UdpTransport from '~/src/transport/udp_transport.ts'
+
+const encoder = new TextEncoder()
+
+function freePort() {
+  const probe = new UdpTransport(0, 'ipv4')
+  const port = probe.port
+  probe.close()
+  return port
+}
+
+async function read(datagrams: AsyncIterator<Datagram>) {
+  const { value } = await datagrams.next()
+  return value as Datagram
+}
+
+Deno.test('each family receives the datagrams of its own family on the same port', async () => {
+  // the transports of the dual-stack socket don't tell the port the system chose
+  const port = freePort()
+
+  const transports = UdpTransport.listen(port, ['ipv4', 'ipv6'], { ipv4: '0.0.0.0', ipv6: '::' })
+  const v4 = transports.get('ipv4')!
+  const v6 = transports.get('ipv6')!
+  const client4 = new UdpTransport(0, 'ipv4', '127.0.0.1')
+  const client6 = new UdpTransport(0, 'ipv6', '::1')
+  try {
+    const datagrams4 = v4.receive()[Symbol.asyncIterator]()
+    const datagrams6 = v6.receive()[Symbol.asyncIterator]()
+
+    await client4.send(encoder.encode('ipv4'), '127.0.0.1', port)
+    await client6.send(encoder.encode('ipv6'), '::1', port)
+
+    assertEquals(await read(datagrams4), { data: encoder.encode('ipv4'), addr: '127.0.0.1', port: client4.port })
+    assertEquals(await read(datagrams6), { data: encoder.encode('ipv6'), addr: '::1', port: client6.port })
+
+    // the reply goes back from the socket of the family
+    await v4.send(encoder.encode('reply'), '127.0.0.1', client4.port)
+    assertEquals((await read(client4.receive()[Symbol.asyncIterator]())).data, encoder.encode('reply'))
+  } finally {
+    client4.close()
+    client6.close()
+    v4.close()
+    v6.close()
+  }
+})
+
+Deno.test('the IPv4 socket is closed when the IPv6 socket fails to listen', () => {
+  const port = freePort()
+
+  // the documentation address is not on the host
+  assertThrows(() => UdpTransport.listen(port, ['ipv4', 'ipv6'], { ipv4: '0.0.0.0', ipv6: '2001:db8::1' }))
+
+  new UdpTransport(port, 'ipv4').close()
+})